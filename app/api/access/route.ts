@@ -0,0 +1,8 @@
+import { NextRequest } from 'next/server'
+import { handleAccessRequest } from '@/lib/access-server'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(request: NextRequest) {
+  return handleAccessRequest(request)
+}
@@ -0,0 +1,8 @@
+import { NextRequest } from 'next/server'
+import { searchAuditLog } from '@/lib/audit-server'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(request: NextRequest) {
+  return searchAuditLog(request)
+}
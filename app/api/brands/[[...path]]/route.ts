@@ -0,0 +1,13 @@
+import { NextRequest } from 'next/server'
+import { proxyRequest } from '@/lib/api-proxy'
+
+export const dynamic = 'force-dynamic'
+
+interface RouteContext {
+  params: Promise<{ path?: string[] }>
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { path = [] } = await params
+  return proxyRequest(request, ['brands', ...path])
+}
@@ -1,11 +1,16 @@
 import { createServerClient } from "@supabase/ssr";
 import { cookies } from "next/headers";
-import { NextResponse } from "next/server";
+import { NextResponse, type NextRequest } from "next/server";
 import type { Database } from "@/types/database";
+import {
+  RATE_LIMITS,
+  getRateLimitIdentifier,
+  withRateLimit,
+} from "@/lib/rate-limit";
 
 export const dynamic = "force-dynamic";
 
-export async function POST() {
+export async function POST(request: NextRequest) {
   try {
     const cookieStore = await cookies();
     const supabase = createServerClient<Database>(
@@ -29,23 +34,34 @@ export async function POST() {
       },
     );
 
-    // Sign out from Supabase
-    await supabase.auth.signOut();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
 
-    // Clear all Supabase-related cookies
-    const allCookies = cookieStore.getAll();
+    // The general API limit rather than LOGIN: a refused logout leaves the session in place
+    return await withRateLimit(
+      getRateLimitIdentifier(request.headers, user?.id),
+      RATE_LIMITS.API_REQUEST,
+      async () => {
+        // Sign out from Supabase
+        await supabase.auth.signOut();
 
-    for (const cookie of allCookies) {
-      if (
-        cookie.name.startsWith("sb-") ||
-        cookie.name.includes("supabase") ||
-        cookie.name.includes("auth")
-      ) {
-        cookieStore.delete(cookie.name);
-      }
-    }
+        // Clear all Supabase-related cookies
+        const allCookies = cookieStore.getAll();
 
-    return NextResponse.json({ success: true });
+        for (const cookie of allCookies) {
+          if (
+            cookie.name.startsWith("sb-") ||
+            cookie.name.includes("supabase") ||
+            cookie.name.includes("auth")
+          ) {
+            cookieStore.delete(cookie.name);
+          }
+        }
+
+        return NextResponse.json({ success: true });
+      },
+    );
   } catch (error) {
     console.error("Logout error:", error);
     return NextResponse.json({ error: "Logout failed" }, { status: 500 });
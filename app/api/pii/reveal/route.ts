@@ -0,0 +1,8 @@
+import { NextRequest } from 'next/server'
+import { handleRevealRequest } from '@/lib/pii-server'
+
+export const dynamic = 'force-dynamic'
+
+export async function POST(request: NextRequest) {
+  return handleRevealRequest(request)
+}
@@ -0,0 +1,15 @@
+import { NextRequest } from 'next/server'
+import { proxyRequest } from '@/lib/api-proxy'
+
+export const dynamic = 'force-dynamic'
+
+interface RouteContext {
+  params: Promise<{ path: string[] }>
+}
+
+async function handler(request: NextRequest, { params }: RouteContext) {
+  const { path } = await params
+  return proxyRequest(request, ['reporting', ...path])
+}
+
+export { handler as GET, handler as POST }
@@ -0,0 +1,18 @@
+import { NextRequest } from 'next/server'
+import { deleteView, updateView } from '@/lib/saved-views-server'
+
+export const dynamic = 'force-dynamic'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+  return updateView(request, id)
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+  return deleteView(request, id)
+}
@@ -0,0 +1,12 @@
+import { NextRequest } from 'next/server'
+import { createView, listViews } from '@/lib/saved-views-server'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(request: NextRequest) {
+  return listViews(request)
+}
+
+export async function POST(request: NextRequest) {
+  return createView(request)
+}
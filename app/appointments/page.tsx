@@ -4,7 +4,10 @@ import { Suspense, useState, useEffect } from 'react'
 import { useSearchParams } from 'next/navigation'
 import { format, subDays } from 'date-fns'
 import { FilterBar } from '@/components/filter-bar'
-import { urlParamsToFilters } from '@/lib/url-params'
+import { ExportButton } from '@/components/export-button'
+import { AppointmentStatusAnalytics } from '@/components/appointment-status-analytics'
+import { PIIValue, PIIRevealButton } from '@/components/pii-value'
+import { urlParamsToFilters, DEFAULT_PAGE_SIZE } from '@/lib/url-params'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import {
@@ -22,8 +25,20 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select'
-import { getAppointments } from '@/lib/api-client'
+import { getAppointmentSummary, getAppointments, getBrands } from '@/lib/api-client'
+import { getErrorMessage, isAbortError } from '@/lib/api-error'
 import { formatDateTime } from '@/lib/utils'
+import { useFiltersTimezone } from '@/lib/use-timezone'
+import { useDefaultView } from '@/lib/use-default-view'
+import { useCan } from '@/lib/use-access'
+import { fetchAllPages, getExportFilename, APPOINTMENT_EXPORT_COLUMNS, type ExportFormat, type ExportProgress } from '@/lib/export'
+import {
+  formatJobStatus,
+  getBusinessUnitNames,
+  getStatusStage,
+  nameBusinessUnits,
+  type AppointmentSummaryResponse,
+} from '@/lib/appointment-status'
 import type { Filters, AppointmentsResponse, Appointment } from '@/lib/types'
 import { ChevronLeft, ChevronRight, Calendar } from 'lucide-react'
 
@@ -31,16 +46,71 @@ function AppointmentsContent() {
   const searchParams = useSearchParams()
 
   const [filters, setFilters] = useState<Filters>(() => {
-    return urlParamsToFilters(searchParams, '58')
+    return urlParamsToFilters(searchParams)
   })
+  const { timeZone, ready: timezoneReady } = useFiltersTimezone(filters, setFilters)
+  const ready = useDefaultView(searchParams, setFilters) && timezoneReady
+  const canExport = useCan(filters.brand, 'export')
 
   const [currentPage, setCurrentPage] = useState(0)
-  const [pageSize, setPageSize] = useState(50)
+  const pageSize = filters.pageSize || DEFAULT_PAGE_SIZE
   const [data, setData] = useState<AppointmentsResponse | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
+  const [summary, setSummary] = useState<AppointmentSummaryResponse | null>(null)
+  const [analyticsError, setAnalyticsError] = useState<string | null>(null)
+  const [businessUnitNames, setBusinessUnitNames] = useState<Record<string, string>>({})
+
+  const start = filters.dateRange.from ? format(filters.dateRange.from, 'yyyy-MM-dd') : undefined
+  const end = filters.dateRange.to ? format(filters.dateRange.to, 'yyyy-MM-dd') : undefined
+
+  // Status analytics cover every appointment in range, independent of the
+  // status filter and table paging; the proxy totals them in one request.
+  // Re-runs on any filter change (including a manual refresh); an unchanged
+  // range comes straight from the query cache
+  useEffect(() => {
+    if (!ready || !start || !end) return
+
+    const controller = new AbortController()
+    setSummary(null)
+    setAnalyticsError(null)
+
+    getAppointmentSummary({
+      brand: filters.brand,
+      location: filters.location,
+      market: filters.market,
+      start,
+      end,
+    }, { signal: controller.signal, onRevalidate: setSummary })
+      .then(setSummary)
+      .catch((err) => {
+        if (isAbortError(err)) return
+        setAnalyticsError(getErrorMessage(err, 'Failed to fetch appointment status analytics'))
+      })
+
+    return () => controller.abort()
+  }, [ready, filters, start, end])
+
+  useEffect(() => {
+    const controller = new AbortController()
+
+    getBrands(true, { signal: controller.signal })
+      .then((response) => {
+        const brand = response.brands.find((b) => b.shortcode === filters.brand)
+        setBusinessUnitNames(getBusinessUnitNames(brand?.locations || []))
+      })
+      .catch((err) => {
+        if (isAbortError(err)) return
+        console.error('Failed to fetch business unit names:', err)
+      })
+
+    return () => controller.abort()
+  }, [filters.brand])
 
   useEffect(() => {
+    if (!ready) return
+    const controller = new AbortController()
+
     const fetchData = async () => {
       if (!filters.dateRange.from || !filters.dateRange.to) return
 
@@ -50,27 +120,85 @@ function AppointmentsContent() {
       try {
         const response = await getAppointments({
           brand: filters.brand,
+          location: filters.location,
+          market: filters.market,
           start: format(filters.dateRange.from, 'yyyy-MM-dd'),
           end: format(filters.dateRange.to, 'yyyy-MM-dd'),
+          job_status: filters.jobStatus,
           limit: pageSize,
           offset: currentPage * pageSize,
-        })
+        }, { signal: controller.signal, onRevalidate: setData })
 
         setData(response)
       } catch (err) {
-        setError(err instanceof Error ? err.message : 'Failed to fetch appointments')
+        if (isAbortError(err)) return
+        setError(getErrorMessage(err, 'Failed to fetch appointments'))
       } finally {
-        setLoading(false)
+        if (!controller.signal.aborted) setLoading(false)
       }
     }
 
     fetchData()
-  }, [filters, currentPage, pageSize])
+    return () => controller.abort()
+  }, [ready, filters, currentPage, pageSize])
 
   const appointments = data?.appointments || []
   const pagination = data?.pagination
   const totalPages = pagination ? Math.ceil(pagination.total / pageSize) : 0
 
+  const loadAllAppointments = (
+    exportFormat: ExportFormat,
+    onProgress: (progress: ExportProgress) => void,
+    signal: AbortSignal
+  ) => {
+    if (!filters.dateRange.from || !filters.dateRange.to) return Promise.resolve([])
+
+    const start = format(filters.dateRange.from, 'yyyy-MM-dd')
+    const end = format(filters.dateRange.to, 'yyyy-MM-dd')
+
+    return fetchAllPages<Appointment>(
+      async (limit, offset) => {
+        const response = await getAppointments({
+          brand: filters.brand,
+          location: filters.location,
+          market: filters.market,
+          start,
+          end,
+          job_status: filters.jobStatus,
+          limit,
+          offset,
+          export: exportFormat,
+        }, { signal })
+        return {
+          items: response.appointments,
+          total: response.pagination.total,
+          hasMore: response.pagination.has_more,
+        }
+      },
+      onProgress,
+      signal
+    )
+  }
+
+  const statusCounts = summary?.counts ?? null
+  const businessUnits = summary ? nameBusinessUnits(summary.business_units, businessUnitNames) : []
+  // Raw statuses seen in range, so the filter sends what the backend stores;
+  // the table's rows still offer some while the analytics load or if they fail
+  const statusOptions = Array.from(
+    new Set([
+      ...(summary?.statuses || appointments.map((appt) => appt.job_status).filter((s): s is string => !!s)),
+      ...(filters.jobStatus ? [filters.jobStatus] : []),
+    ])
+  ).sort()
+
+  const getStatusClassName = (status?: string) => {
+    const stage = getStatusStage(status)
+    if (stage === 'sold') return 'text-green-600'
+    if (stage === 'completed') return 'text-purple-600'
+    if (stage === 'canceled') return 'text-red-600'
+    return ''
+  }
+
   const handlePreviousPage = () => {
     if (currentPage > 0) {
       setCurrentPage(currentPage - 1)
@@ -90,17 +218,63 @@ function AppointmentsContent() {
         <p className="text-muted-foreground">
           ServiceTitan appointments scheduled
         </p>
+        {statusCounts && statusCounts.total > 0 && (
+          <div className="flex flex-wrap gap-2 mt-3">
+            {Object.entries(statusCounts.byStatus)
+              .sort(([, a], [, b]) => b - a)
+              .map(([status, count]) => (
+                <span key={status} className="rounded-full border bg-muted/50 px-3 py-0.5 text-xs">
+                  {status}: <span className="font-semibold">{count.toLocaleString()}</span>
+                </span>
+              ))}
+          </div>
+        )}
       </div>
 
       <FilterBar filters={filters} onChange={setFilters} />
 
+      {statusCounts && (
+        <AppointmentStatusAnalytics counts={statusCounts} businessUnits={businessUnits} />
+      )}
+
+      {analyticsError && (
+        <Card className="border-destructive">
+          <CardContent className="pt-6">
+            <p className="text-destructive">Status analytics unavailable: {analyticsError}</p>
+          </CardContent>
+        </Card>
+      )}
+
       <div className="flex items-center gap-4">
+        <div className="flex items-center gap-2">
+          <span className="text-sm font-medium">Status:</span>
+          <Select
+            value={filters.jobStatus || 'all'}
+            onValueChange={(value) => {
+              setFilters({ ...filters, jobStatus: value === 'all' ? undefined : value })
+              setCurrentPage(0)
+            }}
+          >
+            <SelectTrigger className="w-[180px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Statuses</SelectItem>
+              {statusOptions.map((status) => (
+                <SelectItem key={status} value={status}>
+                  {formatJobStatus(status)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
         <div className="flex items-center gap-2">
           <span className="text-sm font-medium">Per Page:</span>
           <Select
             value={String(pageSize)}
             onValueChange={(value) => {
-              setPageSize(Number(value))
+              setFilters({ ...filters, pageSize: Number(value) })
               setCurrentPage(0)
             }}
           >
@@ -114,6 +288,18 @@ function AppointmentsContent() {
             </SelectContent>
           </Select>
         </div>
+
+        {canExport && (
+          <div className="ml-auto">
+            <ExportButton
+              columns={APPOINTMENT_EXPORT_COLUMNS}
+              loadRows={loadAllAppointments}
+              getFilename={(exportFormat) => getExportFilename('appointments', filters, exportFormat)}
+              sheetName="Appointments"
+              disabled={loading || !pagination?.total}
+            />
+          </div>
+        )}
       </div>
 
       <Card>
@@ -168,19 +354,28 @@ function AppointmentsContent() {
                         {appt.job_number}
                       </TableCell>
                       <TableCell className="text-sm">
-                        {formatDateTime(appt.created_on)}
+                        {formatDateTime(appt.created_on, timeZone)}
                       </TableCell>
                       <TableCell className="font-medium">
-                        {appt.customer_name || '-'}
+                        <div className="flex items-center gap-1">
+                          {appt.customer_name ? (
+                            <PIIValue field="customer_name" value={appt.customer_name} token={appt.pii_token} />
+                          ) : (
+                            '-'
+                          )}
+                          <PIIRevealButton token={appt.pii_token} />
+                        </div>
                       </TableCell>
                       <TableCell>
                         <div className="space-y-1">
                           {appt.phone && (
-                            <div className="text-sm">{appt.phone}</div>
+                            <div className="text-sm">
+                              <PIIValue field="phone" value={appt.phone} token={appt.pii_token} />
+                            </div>
                           )}
                           {appt.email && (
                             <div className="text-xs text-muted-foreground truncate max-w-[200px]">
-                              {appt.email}
+                              <PIIValue field="email" value={appt.email} token={appt.pii_token} />
                             </div>
                           )}
                           {!appt.phone && !appt.email && '-'}
@@ -189,7 +384,9 @@ function AppointmentsContent() {
                       <TableCell>
                         <div className="space-y-1">
                           {appt.address && (
-                            <div className="text-sm">{appt.address}</div>
+                            <div className="text-sm">
+                              <PIIValue field="address" value={appt.address} token={appt.pii_token} />
+                            </div>
                           )}
                           {(appt.city || appt.state || appt.zip) && (
                             <div className="text-xs text-muted-foreground">
@@ -202,10 +399,12 @@ function AppointmentsContent() {
                         </div>
                       </TableCell>
                       <TableCell className="text-sm">
-                        {appt.business_unit_id || '-'}
+                        {appt.business_unit_id
+                          ? businessUnitNames[appt.business_unit_id] || appt.business_unit_id
+                          : '-'}
                       </TableCell>
-                      <TableCell className="text-sm">
-                        {appt.job_status || '-'}
+                      <TableCell className={`text-sm font-medium ${getStatusClassName(appt.job_status)}`}>
+                        {appt.job_status ? formatJobStatus(appt.job_status) : '-'}
                       </TableCell>
                       <TableCell className="text-sm">
                         {appt.location_id || '-'}
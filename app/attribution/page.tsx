@@ -1,10 +1,12 @@
 'use client'
 
 import { Suspense, useState, useEffect } from 'react'
+import Link from 'next/link'
 import { useSearchParams } from 'next/navigation'
 import { format, subDays } from 'date-fns'
 import { FilterBar } from '@/components/filter-bar'
-import { urlParamsToFilters } from '@/lib/url-params'
+import { ExportButton } from '@/components/export-button'
+import { urlParamsToFilters, getFilteredViewURL } from '@/lib/url-params'
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card'
 import {
   Select,
@@ -22,8 +24,13 @@ import {
   TableRow,
 } from '@/components/ui/table'
 import { getAttributionBreakdown } from '@/lib/api-client'
+import { getErrorMessage, isAbortError } from '@/lib/api-error'
 import { formatNumber, formatPercent } from '@/lib/utils'
-import type { Filters, AttributionBreakdownResponse } from '@/lib/types'
+import { getExportFilename, type ExportColumn, type ExportFormat } from '@/lib/export'
+import { useFiltersTimezone } from '@/lib/use-timezone'
+import { useDefaultView } from '@/lib/use-default-view'
+import { useCan } from '@/lib/use-access'
+import type { Filters, AttributionBreakdownResponse, AttributionItem, AttributionGroupBy } from '@/lib/types'
 import {
   BarChart,
   Bar,
@@ -40,21 +47,26 @@ import {
 
 const COLORS = ['#3b82f6', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6', '#ec4899', '#14b8a6', '#f97316']
 
-type GroupBy = 'channel' | 'source' | 'campaign' | 'location' | 'click_id_type'
-
 function AttributionContent() {
   const searchParams = useSearchParams()
 
   const [filters, setFilters] = useState<Filters>(() => {
-    return urlParamsToFilters(searchParams, '58')
+    return urlParamsToFilters(searchParams)
   })
+  const { ready: timezoneReady } = useFiltersTimezone(filters, setFilters)
+  const ready = useDefaultView(searchParams, setFilters) && timezoneReady
+
+  const canExport = useCan(filters.brand, 'export')
 
-  const [groupBy, setGroupBy] = useState<GroupBy>('channel')
+  const groupBy = filters.groupBy || 'channel'
   const [data, setData] = useState<AttributionBreakdownResponse | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
 
   useEffect(() => {
+    if (!ready) return
+    const controller = new AbortController()
+
     const fetchData = async () => {
       if (!filters.dateRange.from || !filters.dateRange.to) return
 
@@ -64,24 +76,28 @@ function AttributionContent() {
       try {
         const response = await getAttributionBreakdown({
           brand: filters.brand,
+          location: filters.location,
+          market: filters.market,
           start: format(filters.dateRange.from, 'yyyy-MM-dd'),
           end: format(filters.dateRange.to, 'yyyy-MM-dd'),
           group_by: groupBy,
-        })
+        }, { signal: controller.signal, onRevalidate: setData })
 
         setData(response)
       } catch (err) {
-        setError(err instanceof Error ? err.message : 'Failed to fetch attribution data')
+        if (isAbortError(err)) return
+        setError(getErrorMessage(err, 'Failed to fetch attribution data'))
       } finally {
-        setLoading(false)
+        if (!controller.signal.aborted) setLoading(false)
       }
     }
 
     fetchData()
-  }, [filters, groupBy])
+    return () => controller.abort()
+  }, [ready, filters, groupBy])
 
-  const getAttributionData = () => {
-    if (!data?.breakdown) return []
+  const getAttributionData = (response = data): AttributionItem[] => {
+    if (!response?.breakdown) return []
 
     const breakdownKey = (() => {
       switch (groupBy) {
@@ -100,7 +116,7 @@ function AttributionContent() {
       }
     })()
 
-    const breakdownData = data.breakdown[breakdownKey as keyof typeof data.breakdown]
+    const breakdownData = response.breakdown[breakdownKey as keyof typeof response.breakdown]
     if (!breakdownData) return []
 
     // Convert object to array of items
@@ -112,6 +128,22 @@ function AttributionContent() {
 
   const attributionData = getAttributionData()
 
+  // Fetched again as an export so the proxy records it
+  const loadExportRows = async (exportFormat: ExportFormat, _onProgress: unknown, signal: AbortSignal) => {
+    if (!filters.dateRange.from || !filters.dateRange.to) return []
+
+    const response = await getAttributionBreakdown({
+      brand: filters.brand,
+      location: filters.location,
+      market: filters.market,
+      start: format(filters.dateRange.from, 'yyyy-MM-dd'),
+      end: format(filters.dateRange.to, 'yyyy-MM-dd'),
+      group_by: groupBy,
+      export: exportFormat,
+    }, { signal })
+    return getAttributionData(response)
+  }
+
   const chartData = attributionData.map((item) => ({
     name: item.name.substring(0, 30),
     leads: item.leads,
@@ -140,6 +172,15 @@ function AttributionContent() {
     }
   }
 
+  const exportColumns: ExportColumn<AttributionItem>[] = [
+    { header: getColumnName(), value: (item) => item.name },
+    { header: 'Leads', value: (item) => item.leads },
+    {
+      header: 'Percentage',
+      value: (item) => Number(((item.leads / (data?.total_leads || 1)) * 100).toFixed(1)),
+    },
+  ]
+
   return (
     <div className="space-y-6">
       <div>
@@ -154,7 +195,7 @@ function AttributionContent() {
       <div className="flex items-center gap-4">
         <div className="flex items-center gap-2">
           <span className="text-sm font-medium">Group By:</span>
-          <Select value={groupBy} onValueChange={(value) => setGroupBy(value as GroupBy)}>
+          <Select value={groupBy} onValueChange={(value) => setFilters({ ...filters, groupBy: value as AttributionGroupBy })}>
             <SelectTrigger className="w-[180px]">
               <SelectValue />
             </SelectTrigger>
@@ -259,8 +300,18 @@ function AttributionContent() {
           </div>
 
           <Card>
-            <CardHeader>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0">
               <CardTitle>Attribution Details</CardTitle>
+              {canExport && (
+                <ExportButton
+                  columns={exportColumns}
+                  loadRows={loadExportRows}
+                  getFilename={(exportFormat) =>
+                    getExportFilename(`attribution-by-${groupBy}`, filters, exportFormat)
+                  }
+                  sheetName="Attribution"
+                />
+              )}
             </CardHeader>
             <CardContent>
               <Table>
@@ -275,7 +326,17 @@ function AttributionContent() {
                   {attributionData.map((item, index: number) => (
                     <TableRow key={index}>
                       <TableCell className="font-medium">
-                        {item.name}
+                        {groupBy === 'location' && data?.breakdown.by_location?.[item.name] !== undefined ? (
+                          <Link
+                            href={getFilteredViewURL('/', { ...filters, location: item.name, market: undefined, groupBy: undefined })}
+                            className="text-primary hover:underline"
+                            title={`View dashboard for ${item.name}`}
+                          >
+                            {item.name}
+                          </Link>
+                        ) : (
+                          item.name
+                        )}
                       </TableCell>
                       <TableCell className="text-right">
                         {formatNumber(item.leads)}
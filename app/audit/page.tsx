@@ -0,0 +1,286 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { getAuditLog } from '@/lib/api-client'
+import { getErrorMessage, isAbortError } from '@/lib/api-error'
+import { EVERY_BRAND, can } from '@/lib/access'
+import { AUDIT_ACTIONS, AUDIT_ACTION_LABELS, isAuditAction } from '@/lib/audit'
+import { useAccess } from '@/lib/use-access'
+import { useTimezone } from '@/lib/use-timezone'
+import { formatDateTime } from '@/lib/utils'
+import type { AuditEntry, AuditLogQuery, AuditLogResponse } from '@/lib/types'
+import { ChevronLeft, ChevronRight, Search, ShieldAlert } from 'lucide-react'
+
+const PAGE_SIZE = 50
+
+type AuditSearch = Pick<AuditLogQuery, 'user' | 'brand' | 'action' | 'from' | 'to'>
+
+function describeEntry(entry: AuditEntry): string {
+  const details = Object.entries(entry.details)
+    .map(([key, value]) => `${key}: ${Array.isArray(value) ? value.join(', ') : String(value)}`)
+    .join(' · ')
+  return [entry.target, details].filter(Boolean).join(' · ') || '-'
+}
+
+/**
+ * Audit Log - admins search who viewed, looked up, exported or revealed what
+ */
+export default function AuditPage() {
+  const access = useAccess()
+  const allowed = access !== null && can(access, EVERY_BRAND, 'view_audit_log')
+  const timeZone = useTimezone()
+
+  const [form, setForm] = useState<AuditSearch>({})
+  const [search, setSearch] = useState<AuditSearch>({})
+  const [currentPage, setCurrentPage] = useState(0)
+  const [data, setData] = useState<AuditLogResponse | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!allowed) return
+    const controller = new AbortController()
+
+    setLoading(true)
+    setError(null)
+    // Days searched are days in the timezone the times are shown in
+    getAuditLog(
+      { ...search, tz: timeZone, limit: PAGE_SIZE, offset: currentPage * PAGE_SIZE },
+      { signal: controller.signal }
+    )
+      .then(setData)
+      .catch((err) => {
+        if (isAbortError(err)) return
+        setError(getErrorMessage(err, 'Failed to load the audit log'))
+        console.error('Error fetching audit log:', err)
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoading(false)
+      })
+
+    return () => controller.abort()
+  }, [allowed, search, currentPage, timeZone])
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault()
+    setSearch({
+      user: form.user?.trim() || undefined,
+      brand: form.brand?.trim() || undefined,
+      action: form.action,
+      from: form.from || undefined,
+      to: form.to || undefined,
+    })
+    setCurrentPage(0)
+  }
+
+  if (access !== null && !allowed) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <Card className="w-full max-w-md">
+          <CardHeader className="space-y-4">
+            <div className="flex items-center justify-center">
+              <ShieldAlert className="h-8 w-8 text-muted-foreground" />
+            </div>
+            <CardTitle className="text-center">Admins only</CardTitle>
+            <CardDescription className="text-center">
+              The audit log needs an admin grant on every brand.
+            </CardDescription>
+          </CardHeader>
+        </Card>
+      </div>
+    )
+  }
+
+  const pagination = data?.pagination
+  const totalPages = pagination ? Math.max(1, Math.ceil(pagination.total / PAGE_SIZE)) : 1
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Audit Log</h1>
+        <p className="text-muted-foreground">
+          Page views, phone lookups, exports and contact detail reveals
+        </p>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6">
+          <form onSubmit={handleSearch} className="grid gap-4 md:grid-cols-6 items-end">
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="audit-user">User</Label>
+              <Input
+                id="audit-user"
+                placeholder="Email or user ID"
+                value={form.user || ''}
+                onChange={(e) => setForm({ ...form, user: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-brand">Brand</Label>
+              <Input
+                id="audit-brand"
+                placeholder="Shortcode"
+                value={form.brand || ''}
+                onChange={(e) => setForm({ ...form, brand: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Action</Label>
+              <Select
+                value={form.action || 'all'}
+                onValueChange={(value) =>
+                  setForm({ ...form, action: isAuditAction(value) ? value : undefined })
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Actions</SelectItem>
+                  {AUDIT_ACTIONS.map((action) => (
+                    <SelectItem key={action} value={action}>
+                      {AUDIT_ACTION_LABELS[action]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-from">From</Label>
+              <Input
+                id="audit-from"
+                type="date"
+                value={form.from || ''}
+                onChange={(e) => setForm({ ...form, from: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-to">To</Label>
+              <Input
+                id="audit-to"
+                type="date"
+                value={form.to || ''}
+                onChange={(e) => setForm({ ...form, to: e.target.value })}
+              />
+            </div>
+            <div className="md:col-span-6 flex justify-end">
+              <Button type="submit" disabled={loading}>
+                <Search className="h-4 w-4" />
+                Search
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Entries</CardTitle>
+          <CardDescription>Newest first; From and To are UTC days</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {error ? (
+            <div className="text-destructive">{error}</div>
+          ) : loading && !data ? (
+            <div className="text-muted-foreground">Loading...</div>
+          ) : !data || data.entries.length === 0 ? (
+            <div className="text-muted-foreground">No entries found</div>
+          ) : (
+            <>
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Time</TableHead>
+                      <TableHead>User</TableHead>
+                      <TableHead>Action</TableHead>
+                      <TableHead>Route</TableHead>
+                      <TableHead>Brand</TableHead>
+                      <TableHead>Date Range</TableHead>
+                      <TableHead>Details</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {data.entries.map((entry) => (
+                      <TableRow key={entry.id}>
+                        <TableCell className="text-sm whitespace-nowrap">
+                          {formatDateTime(entry.created_at, timeZone)}
+                        </TableCell>
+                        <TableCell className="text-sm">
+                          {entry.user_email || (
+                            <span className="font-mono text-xs">{entry.user_id || '-'}</span>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-sm">
+                          {isAuditAction(entry.action) ? AUDIT_ACTION_LABELS[entry.action] : entry.action}
+                        </TableCell>
+                        <TableCell className="font-mono text-xs">{entry.route}</TableCell>
+                        <TableCell className="text-sm">{entry.brands.join(', ') || '-'}</TableCell>
+                        <TableCell className="text-sm whitespace-nowrap">
+                          {entry.start_date && entry.end_date
+                            ? `${entry.start_date} to ${entry.end_date}`
+                            : '-'}
+                        </TableCell>
+                        <TableCell className="text-xs text-muted-foreground max-w-[300px] truncate">
+                          {describeEntry(entry)}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+
+              <div className="flex items-center justify-between mt-4">
+                <div className="text-sm text-muted-foreground">
+                  {pagination?.total.toLocaleString()} entries
+                </div>
+                <div className="flex items-center gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setCurrentPage((page) => page - 1)}
+                    disabled={currentPage === 0 || loading}
+                  >
+                    <ChevronLeft className="h-4 w-4 mr-1" />
+                    Previous
+                  </Button>
+                  <div className="text-sm">
+                    Page {currentPage + 1} of {totalPages}
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setCurrentPage((page) => page + 1)}
+                    disabled={!pagination?.has_more || loading}
+                  >
+                    Next
+                    <ChevronRight className="h-4 w-4 ml-1" />
+                  </Button>
+                </div>
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,53 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { NextRequest } from 'next/server'
+import { GET } from './route'
+import { createMemoryRateLimitStore, setRateLimitStore } from '@/lib/rate-limit'
+
+const exchangeCodeForSession = vi.fn()
+
+vi.mock('next/headers', () => ({
+  cookies: async () => ({ getAll: () => [], set: () => {} }),
+}))
+
+vi.mock('@supabase/ssr', () => ({
+  createServerClient: () => ({ auth: { exchangeCodeForSession } }),
+}))
+
+function callback(ip = '203.0.113.7') {
+  return GET(
+    new NextRequest('http://localhost/auth/callback?code=abc', {
+      headers: { 'x-forwarded-for': ip },
+    })
+  )
+}
+
+describe('auth callback limits', () => {
+  beforeEach(() => {
+    setRateLimitStore(createMemoryRateLimitStore())
+  })
+
+  it('signs in everyone behind one IP', async () => {
+    exchangeCodeForSession.mockResolvedValue({ error: null })
+
+    for (let i = 0; i < 10; i++) {
+      const response = await callback()
+      expect(response.status).toBe(307)
+      expect(response.headers.get('location')).toBe('http://localhost/')
+    }
+  })
+
+  it('refuses an IP after five failed sign-ins', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    exchangeCodeForSession.mockResolvedValue({ error: new Error('invalid code') })
+
+    for (let i = 0; i < 5; i++) {
+      const response = await callback()
+      expect(response.headers.get('location')).toContain('/login?error=auth_failed')
+    }
+
+    const refused = await callback()
+    expect(refused.status).toBe(429)
+    expect(refused.headers.has('Retry-After')).toBe(true)
+    expect((await callback('198.51.100.1')).status).toBe(307)
+  })
+})
@@ -2,36 +2,48 @@ import { createServerClient } from '@supabase/ssr'
 import { cookies } from 'next/headers'
 import { NextRequest, NextResponse } from 'next/server'
 import type { Database } from '@/types/database'
-import { rateLimit, getClientIdentifier, RATE_LIMITS } from '@/lib/rate-limit'
+import {
+  RATE_LIMITS,
+  getRateLimitIdentifier,
+  rateLimit,
+  tooManyRequests,
+  withRateLimit,
+} from '@/lib/rate-limit'
 
 export const dynamic = 'force-dynamic'
 
-export async function GET(request: NextRequest) {
-  // Rate limit auth callbacks to prevent abuse
-  const identifier = getClientIdentifier(request.headers)
-  const rateLimitResult = rateLimit(identifier, RATE_LIMITS.AUTH_CALLBACK)
+export function GET(request: NextRequest) {
+  // Rate limit auth callbacks to prevent abuse; there's no session yet, so per IP
+  return withRateLimit(
+    getRateLimitIdentifier(request.headers),
+    RATE_LIMITS.AUTH_CALLBACK,
+    () => handleCallback(request)
+  )
+}
 
-  if (!rateLimitResult.success) {
-    return new NextResponse(
-      JSON.stringify({
-        error: 'Too many requests. Please try again later.',
-        reset: rateLimitResult.reset,
-      }),
-      {
-        status: 429,
-        headers: {
-          'Content-Type': 'application/json',
-          'X-RateLimit-Limit': rateLimitResult.limit.toString(),
-          'X-RateLimit-Remaining': rateLimitResult.remaining.toString(),
-          'X-RateLimit-Reset': rateLimitResult.reset.toString(),
-          'Retry-After': Math.ceil(
-            (rateLimitResult.reset - Date.now()) / 1000
-          ).toString(),
-        },
-      }
-    )
+/**
+ * Send a failed sign-in back to the auth service, or answer 429 once the IP
+ * has failed `RATE_LIMITS.LOGIN` times; successful sign-ins aren't counted,
+ * so colleagues behind one office IP can all sign in
+ */
+async function signInFailed(request: NextRequest) {
+  const failures = await rateLimit(
+    `${getRateLimitIdentifier(request.headers)}:failed-sign-in`,
+    RATE_LIMITS.LOGIN
+  )
+  if (!failures.success) {
+    return tooManyRequests(failures)
   }
 
+  const authDomain =
+    process.env.NEXT_PUBLIC_AUTH_DOMAIN ||
+    'https://auth.vanterrafoundations.com'
+  return NextResponse.redirect(
+    new URL(`${authDomain}/login?error=auth_failed`, request.url)
+  )
+}
+
+async function handleCallback(request: NextRequest) {
   const requestUrl = new URL(request.url)
   const code = requestUrl.searchParams.get('code')
   const access_token = requestUrl.searchParams.get('access_token')
@@ -66,12 +78,7 @@ export async function GET(request: NextRequest) {
 
     if (error) {
       console.error('Failed to exchange code for session:', error)
-      const authDomain =
-        process.env.NEXT_PUBLIC_AUTH_DOMAIN ||
-        'https://auth.vanterrafoundations.com'
-      return NextResponse.redirect(
-        new URL(`${authDomain}/login?error=auth_failed`, request.url)
-      )
+      return signInFailed(request)
     }
   } else if (access_token && refresh_token) {
     // Handle SSO token flow from auth service
@@ -86,12 +93,7 @@ export async function GET(request: NextRequest) {
 
     if (error) {
       console.error('Failed to set session from tokens:', error)
-      const authDomain =
-        process.env.NEXT_PUBLIC_AUTH_DOMAIN ||
-        'https://auth.vanterrafoundations.com'
-      return NextResponse.redirect(
-        new URL(`${authDomain}/login?error=auth_failed`, request.url)
-      )
+      return signInFailed(request)
     }
   } else {
     // No auth credentials provided - redirect to auth service
@@ -4,6 +4,7 @@ import { Suspense } from 'react'
 import './globals.css'
 import { Navigation } from '@/components/navigation'
 import { ThemeProvider } from '@/components/theme-provider'
+import { AuthProvider } from '@/components/auth/AuthProvider'
 
 const inter = Inter({ subsets: ['latin'] })
 
@@ -26,14 +27,16 @@ export default function RootLayout({
           enableSystem
           disableTransitionOnChange
         >
-          <div className="min-h-screen bg-background">
-            <Suspense fallback={<div className="h-16 border-b bg-card" />}>
-              <Navigation />
-            </Suspense>
-            <main className="container mx-auto px-4 py-6">
-              {children}
-            </main>
-          </div>
+          <AuthProvider>
+            <div className="min-h-screen bg-background">
+              <Suspense fallback={<div className="h-16 border-b bg-card" />}>
+                <Navigation />
+              </Suspense>
+              <main className="container mx-auto px-4 py-6">
+                {children}
+              </main>
+            </div>
+          </AuthProvider>
         </ThemeProvider>
       </body>
     </html>
@@ -1,10 +1,15 @@
 'use client'
 
-import { Suspense, useState, useEffect } from 'react'
+import { Suspense, useState, useEffect, useCallback } from 'react'
 import { useSearchParams } from 'next/navigation'
 import { format, subDays } from 'date-fns'
 import { FilterBar } from '@/components/filter-bar'
-import { urlParamsToFilters } from '@/lib/url-params'
+import { ExportButton } from '@/components/export-button'
+import { LeadDetailDrawer } from '@/components/lead-detail-drawer'
+import { FilterChips, type FilterChip } from '@/components/filter-chips'
+import { LeadFilterControls, getLeadFilterChips } from '@/components/lead-filters'
+import { PIIValue, PIIRevealButton } from '@/components/pii-value'
+import { urlParamsToFilters, DEFAULT_PAGE_SIZE } from '@/lib/url-params'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import {
@@ -23,25 +28,45 @@ import {
   SelectValue,
 } from '@/components/ui/select'
 import { getLeads } from '@/lib/api-client'
+import { getErrorMessage, isAbortError } from '@/lib/api-error'
 import { formatDateTime } from '@/lib/utils'
-import type { Filters, LeadsResponse, Lead } from '@/lib/types'
-import { ChevronLeft, ChevronRight, Phone, FileText, ExternalLink } from 'lucide-react'
+import { useFiltersTimezone } from '@/lib/use-timezone'
+import { useDefaultView } from '@/lib/use-default-view'
+import { useCan } from '@/lib/use-access'
+import { fetchAllPages, getExportFilename, LEAD_EXPORT_COLUMNS, type ExportFormat, type ExportProgress } from '@/lib/export'
+import type { Filters, LeadsResponse, Lead, LeadFilters, LeadSortField, LeadType } from '@/lib/types'
+import { ChevronLeft, ChevronRight, Phone, FileText, ExternalLink, ArrowUp, ArrowDown } from 'lucide-react'
 
 function LeadsContent() {
   const searchParams = useSearchParams()
 
   const [filters, setFilters] = useState<Filters>(() => {
-    return urlParamsToFilters(searchParams, '58')
+    return urlParamsToFilters(searchParams)
   })
+  const { timeZone, ready: timezoneReady } = useFiltersTimezone(filters, setFilters)
+  const ready = useDefaultView(searchParams, setFilters) && timezoneReady
+  const canExport = useCan(filters.brand, 'export')
 
-  const [leadType, setLeadType] = useState<'all' | 'call' | 'form'>('all')
+  const leadType = filters.leadType || 'all'
+  const pageSize = filters.pageSize || DEFAULT_PAGE_SIZE
   const [currentPage, setCurrentPage] = useState(0)
-  const [pageSize, setPageSize] = useState(50)
   const [data, setData] = useState<LeadsResponse | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
+  const [selectedLead, setSelectedLead] = useState<Lead | null>(null)
+
+  const leadFilters = filters.leadFilters || {}
+
+  const setLeadFilters = useCallback((next: LeadFilters) => {
+    const applied = Object.values(next).some((value) => value !== undefined)
+    setFilters((current) => ({ ...current, leadFilters: applied ? next : undefined }))
+    setCurrentPage(0)
+  }, [])
 
   useEffect(() => {
+    if (!ready) return
+    const controller = new AbortController()
+
     const fetchData = async () => {
       if (!filters.dateRange.from || !filters.dateRange.to) return
 
@@ -51,28 +76,97 @@ function LeadsContent() {
       try {
         const response = await getLeads({
           brand: filters.brand,
+          location: filters.location,
+          market: filters.market,
           start: format(filters.dateRange.from, 'yyyy-MM-dd'),
           end: format(filters.dateRange.to, 'yyyy-MM-dd'),
-          type: leadType === 'all' ? undefined : leadType,
+          type: filters.leadType,
           limit: pageSize,
           offset: currentPage * pageSize,
-        })
+          ...filters.leadFilters,
+        }, { signal: controller.signal, onRevalidate: setData })
 
         setData(response)
       } catch (err) {
-        setError(err instanceof Error ? err.message : 'Failed to fetch leads')
+        if (isAbortError(err)) return
+        setError(getErrorMessage(err, 'Failed to fetch leads'))
       } finally {
-        setLoading(false)
+        if (!controller.signal.aborted) setLoading(false)
       }
     }
 
     fetchData()
-  }, [filters, leadType, currentPage, pageSize])
+    // Cancel the request when filters change so a stale response can't win
+    return () => controller.abort()
+  }, [ready, filters, currentPage, pageSize])
 
   const leads = data?.leads || []
   const pagination = data?.pagination
   const totalPages = pagination ? Math.ceil(pagination.total / pageSize) : 0
 
+  const loadAllLeads = (
+    exportFormat: ExportFormat,
+    onProgress: (progress: ExportProgress) => void,
+    signal: AbortSignal
+  ) => {
+    if (!filters.dateRange.from || !filters.dateRange.to) return Promise.resolve([])
+
+    const start = format(filters.dateRange.from, 'yyyy-MM-dd')
+    const end = format(filters.dateRange.to, 'yyyy-MM-dd')
+
+    return fetchAllPages<Lead>(
+      async (limit, offset) => {
+        const response = await getLeads({
+          brand: filters.brand,
+          location: filters.location,
+          market: filters.market,
+          start,
+          end,
+          type: filters.leadType,
+          limit,
+          offset,
+          export: exportFormat,
+          ...filters.leadFilters,
+        }, { signal })
+        return {
+          items: response.leads,
+          total: response.pagination.total,
+          hasMore: response.pagination.has_more,
+        }
+      },
+      onProgress,
+      signal
+    )
+  }
+
+  const handleSort = (field: LeadSortField) => {
+    const currentSort = leadFilters.sort || 'timestamp'
+    const currentOrder = leadFilters.order || 'desc'
+    setLeadFilters({
+      ...leadFilters,
+      sort: field,
+      order: currentSort === field && currentOrder === 'desc' ? 'asc' : 'desc',
+    })
+  }
+
+  const SortIcon = ({ field }: { field: LeadSortField }) => {
+    if ((leadFilters.sort || 'timestamp') !== field) return null
+    return leadFilters.order === 'asc'
+      ? <ArrowUp className="h-4 w-4 inline ml-1" />
+      : <ArrowDown className="h-4 w-4 inline ml-1" />
+  }
+
+  const chips: FilterChip[] = [
+    ...(filters.location || filters.market
+      ? [{
+          key: 'location',
+          label: filters.location ? `Location: ${filters.location}` : `Market: ${filters.market}`,
+          onRemove: () => setFilters({ ...filters, location: undefined, market: undefined }),
+        }]
+      : []),
+    ...getLeadFilterChips(leadFilters, setLeadFilters),
+  ]
+
   const handlePreviousPage = () => {
     if (currentPage > 0) {
       setCurrentPage(currentPage - 1)
@@ -96,13 +190,15 @@ function LeadsContent() {
 
       <FilterBar filters={filters} onChange={setFilters} />
 
-      <div className="flex items-center gap-4">
+      <div className="flex flex-wrap items-center gap-4">
+        <LeadFilterControls value={leadFilters} onChange={setLeadFilters} />
+
         <div className="flex items-center gap-2">
           <span className="text-sm font-medium">Lead Type:</span>
           <Select
             value={leadType}
             onValueChange={(value) => {
-              setLeadType(value as typeof leadType)
+              setFilters({ ...filters, leadType: value === 'all' ? undefined : (value as LeadType) })
               setCurrentPage(0)
             }}
           >
@@ -122,7 +218,7 @@ function LeadsContent() {
           <Select
             value={String(pageSize)}
             onValueChange={(value) => {
-              setPageSize(Number(value))
+              setFilters({ ...filters, pageSize: Number(value) })
               setCurrentPage(0)
             }}
           >
@@ -136,8 +232,28 @@ function LeadsContent() {
             </SelectContent>
           </Select>
         </div>
+
+        {canExport && (
+          <div className="ml-auto">
+            <ExportButton
+              columns={LEAD_EXPORT_COLUMNS}
+              loadRows={loadAllLeads}
+              getFilename={(exportFormat) => getExportFilename('leads', filters, exportFormat)}
+              sheetName="Leads"
+              disabled={loading || !pagination?.total}
+            />
+          </div>
+        )}
       </div>
 
+      <FilterChips
+        chips={chips}
+        onClearAll={() => {
+          setFilters({ ...filters, location: undefined, market: undefined, leadFilters: undefined })
+          setCurrentPage(0)
+        }}
+      />
+
       <Card>
         <CardHeader>
           <CardTitle>
@@ -172,17 +288,26 @@ function LeadsContent() {
                 <TableHeader>
                   <TableRow>
                     <TableHead>Type</TableHead>
-                    <TableHead>Date</TableHead>
+                    <TableHead className="cursor-pointer hover:bg-muted/80" onClick={() => handleSort('timestamp')}>
+                      Date <SortIcon field="timestamp" />
+                    </TableHead>
                     <TableHead>Contact</TableHead>
-                    <TableHead>Source</TableHead>
+                    <TableHead className="cursor-pointer hover:bg-muted/80" onClick={() => handleSort('source')}>
+                      Source <SortIcon field="source" />
+                    </TableHead>
                     <TableHead>Campaign</TableHead>
                     <TableHead>Location</TableHead>
                     <TableHead>Click ID</TableHead>
+                    <TableHead className="w-[50px]"><span className="sr-only">Details</span></TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
                   {leads.map((lead: Lead) => (
-                    <TableRow key={lead.id}>
+                    <TableRow
+                      key={lead.id}
+                      className="cursor-pointer"
+                      onClick={() => setSelectedLead(lead)}
+                    >
                       <TableCell>
                         <div className="flex items-center gap-2">
                           {lead.type === 'call' ? (
@@ -194,16 +319,19 @@ function LeadsContent() {
                         </div>
                       </TableCell>
                       <TableCell className="text-sm">
-                        {formatDateTime(lead.timestamp)}
+                        {formatDateTime(lead.timestamp, timeZone)}
                       </TableCell>
                       <TableCell>
                         <div className="space-y-1">
                           {lead.name && (
-                            <div className="font-medium">{lead.name}</div>
+                            <div className="flex items-center gap-1 font-medium">
+                              <PIIValue field="name" value={lead.name} token={lead.pii_token} />
+                              <PIIRevealButton token={lead.pii_token} />
+                            </div>
                           )}
                           {lead.phone && (
                             <div className="text-sm text-muted-foreground">
-                              {lead.phone}
+                              <PIIValue field="phone" value={lead.phone} token={lead.pii_token} />
                             </div>
                           )}
                         </div>
@@ -240,6 +368,20 @@ function LeadsContent() {
                           {!lead.gclid && !lead.fbclid && !lead.msclkid && '-'}
                         </div>
                       </TableCell>
+                      <TableCell>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8"
+                          title="View lead details"
+                          onClick={(e) => {
+                            e.stopPropagation()
+                            setSelectedLead(lead)
+                          }}
+                        >
+                          <ExternalLink className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
                     </TableRow>
                   ))}
                 </TableBody>
@@ -279,6 +421,12 @@ function LeadsContent() {
           )}
         </CardContent>
       </Card>
+
+      <LeadDetailDrawer
+        lead={selectedLead}
+        lookforwardDays={filters.lookforwardDays}
+        onClose={() => setSelectedLead(null)}
+      />
     </div>
   )
 }
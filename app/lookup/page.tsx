@@ -5,8 +5,11 @@ import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/com
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
+import { PIIValue } from '@/components/pii-value'
 import { lookupCallRail } from '@/lib/api-client'
+import { getErrorMessage } from '@/lib/api-error'
 import { formatDateTime } from '@/lib/utils'
+import { useTimezone } from '@/lib/use-timezone'
 import type { CallRailLookupResponse } from '@/lib/types'
 import { Phone, Search, AlertCircle, CheckCircle, ExternalLink } from 'lucide-react'
 
@@ -14,6 +17,8 @@ export default function LookupPage() {
   const [phoneNumber, setPhoneNumber] = useState('')
   const [loading, setLoading] = useState(false)
   const [result, setResult] = useState<CallRailLookupResponse | null>(null)
+  // Calls aren't tied to a selected brand; use the user's timezone or the default
+  const timeZone = useTimezone()
 
   const handleLookup = async (e: React.FormEvent) => {
     e.preventDefault()
@@ -29,7 +34,7 @@ export default function LookupPage() {
     } catch (err) {
       setResult({
         success: false,
-        error: err instanceof Error ? err.message : 'Failed to lookup phone number',
+        error: getErrorMessage(err, 'Failed to lookup phone number'),
       })
     } finally {
       setLoading(false)
@@ -123,13 +128,16 @@ export default function LookupPage() {
                     <div className="space-y-1">
                       <p className="text-sm text-muted-foreground">Date & Time</p>
                       <p className="text-sm">
-                        {formatDateTime(result.data.call.created_at)}
+                        {formatDateTime(result.data.call.created_at, timeZone)}
                       </p>
                     </div>
                     <div className="space-y-1">
                       <p className="text-sm text-muted-foreground">Customer Phone</p>
                       <p className="font-mono text-sm">
-                        {formatPhoneNumber(result.data.call.customer_phone_number)}
+                        <PIIValue
+                          field="phone"
+                          value={formatPhoneNumber(result.data.call.customer_phone_number)}
+                        />
                       </p>
                     </div>
                     <div className="space-y-1">
@@ -141,7 +149,9 @@ export default function LookupPage() {
                     {result.data.call.customer_name && (
                       <div className="space-y-1">
                         <p className="text-sm text-muted-foreground">Customer Name</p>
-                        <p className="text-sm">{result.data.call.customer_name}</p>
+                        <p className="text-sm">
+                          <PIIValue field="name" value={result.data.call.customer_name} />
+                        </p>
                       </div>
                     )}
                     <div className="space-y-1">
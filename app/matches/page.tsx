@@ -0,0 +1,334 @@
+'use client'
+
+import { Suspense, useState, useEffect } from 'react'
+import { useSearchParams } from 'next/navigation'
+import { format } from 'date-fns'
+import { FilterBar } from '@/components/filter-bar'
+import { MetricCard } from '@/components/metric-card'
+import { PIIValue, PIIRevealButton } from '@/components/pii-value'
+import { urlParamsToFilters } from '@/lib/url-params'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { getLeadsWithAppointments } from '@/lib/api-client'
+import { getErrorMessage, isAbortError } from '@/lib/api-error'
+import { getMatchType, LOOKFORWARD_OPTIONS, MATCH_TYPE_LABELS } from '@/lib/matching'
+import { formatDateTime, formatPercent } from '@/lib/utils'
+import { useFiltersTimezone } from '@/lib/use-timezone'
+import { useDefaultView } from '@/lib/use-default-view'
+import type { Filters, LeadsWithAppointmentsResponse, LeadWithAppointment } from '@/lib/types'
+import { ChevronLeft, ChevronRight, Phone, FileText, Link2, Link2Off, Users, Target } from 'lucide-react'
+
+type MatchFilter = 'all' | 'matched' | 'unmatched'
+
+const DEFAULT_LOOKFORWARD_DAYS = 30
+const PAGE_SIZE = 50
+
+function MatchesContent() {
+  const searchParams = useSearchParams()
+
+  const [filters, setFilters] = useState<Filters>(() => {
+    return urlParamsToFilters(searchParams)
+  })
+  const { timeZone, ready: timezoneReady } = useFiltersTimezone(filters, setFilters)
+  const ready = useDefaultView(searchParams, setFilters) && timezoneReady
+
+  const [matchFilter, setMatchFilter] = useState<MatchFilter>('all')
+  const [currentPage, setCurrentPage] = useState(0)
+  const [data, setData] = useState<LeadsWithAppointmentsResponse | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const lookforwardDays = filters.lookforwardDays ?? DEFAULT_LOOKFORWARD_DAYS
+
+  useEffect(() => {
+    if (!ready) return
+    const controller = new AbortController()
+
+    const fetchData = async () => {
+      if (!filters.dateRange.from || !filters.dateRange.to) return
+
+      setLoading(true)
+      setError(null)
+
+      try {
+        const response = await getLeadsWithAppointments({
+          brand: filters.brand,
+          location: filters.location,
+          market: filters.market,
+          start: format(filters.dateRange.from, 'yyyy-MM-dd'),
+          end: format(filters.dateRange.to, 'yyyy-MM-dd'),
+          lookforward_days: lookforwardDays,
+        }, { signal: controller.signal })
+
+        setData(response)
+        setCurrentPage(0)
+      } catch (err) {
+        if (isAbortError(err)) return
+        setError(getErrorMessage(err, 'Failed to fetch matches'))
+      } finally {
+        if (!controller.signal.aborted) setLoading(false)
+      }
+    }
+
+    fetchData()
+    return () => controller.abort()
+  }, [ready, filters, lookforwardDays])
+
+  const matches = (data?.data.matches || []).filter((match) => {
+    if (matchFilter === 'matched') return match.matched
+    if (matchFilter === 'unmatched') return !match.matched
+    return true
+  })
+  const summary = data?.data.summary
+  const totalPages = Math.ceil(matches.length / PAGE_SIZE)
+  const pageMatches = matches.slice(currentPage * PAGE_SIZE, (currentPage + 1) * PAGE_SIZE)
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Lead Matches</h1>
+        <p className="text-muted-foreground">
+          Leads paired with the ServiceTitan appointments they booked
+        </p>
+      </div>
+
+      <FilterBar filters={filters} onChange={setFilters} />
+
+      <div className="flex items-center gap-4">
+        <div className="flex items-center gap-2">
+          <span className="text-sm font-medium">Show:</span>
+          <Select
+            value={matchFilter}
+            onValueChange={(value) => {
+              setMatchFilter(value as MatchFilter)
+              setCurrentPage(0)
+            }}
+          >
+            <SelectTrigger className="w-[170px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Leads</SelectItem>
+              <SelectItem value="matched">Matched Only</SelectItem>
+              <SelectItem value="unmatched">Unmatched Only</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <span className="text-sm font-medium">Lookforward:</span>
+          <Select
+            value={String(lookforwardDays)}
+            onValueChange={(value) => setFilters({ ...filters, lookforwardDays: Number(value) })}
+          >
+            <SelectTrigger className="w-[120px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(LOOKFORWARD_OPTIONS.includes(lookforwardDays)
+                ? LOOKFORWARD_OPTIONS
+                : [...LOOKFORWARD_OPTIONS, lookforwardDays].sort((a, b) => a - b)
+              ).map((days) => (
+                <SelectItem key={days} value={String(days)}>
+                  {days} days
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {summary && (
+        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+          <MetricCard
+            title="Total Leads"
+            value={summary.total_leads.toLocaleString()}
+            description={`${summary.total_appointments.toLocaleString()} appointments in window`}
+            icon={<Users className="h-4 w-4 text-muted-foreground" />}
+          />
+          <MetricCard
+            title="Matched Leads"
+            value={summary.matched_leads.toLocaleString()}
+            icon={<Link2 className="h-4 w-4 text-muted-foreground" />}
+          />
+          <MetricCard
+            title="Unmatched Leads"
+            value={summary.unmatched_leads.toLocaleString()}
+            description="Never booked"
+            icon={<Link2Off className="h-4 w-4 text-muted-foreground" />}
+          />
+          <MetricCard
+            title="Conversion Rate"
+            value={formatPercent(summary.conversion_rate)}
+            description={`Within ${lookforwardDays} days`}
+            icon={<Target className="h-4 w-4 text-muted-foreground" />}
+          />
+        </div>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>
+            {data ? `${matches.length.toLocaleString()} Leads` : 'Leads'}
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {loading && (
+            <div className="text-center py-12">
+              <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+              <p className="mt-2 text-sm text-muted-foreground">Loading matches...</p>
+            </div>
+          )}
+
+          {error && (
+            <div className="text-center py-12">
+              <p className="text-destructive">Error: {error}</p>
+            </div>
+          )}
+
+          {!loading && !error && matches.length === 0 && (
+            <div className="text-center py-12">
+              <p className="text-muted-foreground">No leads found</p>
+            </div>
+          )}
+
+          {!loading && !error && matches.length > 0 && (
+            <>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Lead</TableHead>
+                    <TableHead>Contact</TableHead>
+                    <TableHead>Source</TableHead>
+                    <TableHead>Appointment</TableHead>
+                    <TableHead>Matched By</TableHead>
+                    <TableHead className="text-right">Score</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {pageMatches.map((match: LeadWithAppointment) => {
+                    const matchType = getMatchType(match)
+                    return (
+                      <TableRow key={match.lead.id}>
+                        <TableCell>
+                          <div className="flex items-center gap-2">
+                            {match.lead.type === 'call' ? (
+                              <Phone className="h-4 w-4 text-blue-500" />
+                            ) : (
+                              <FileText className="h-4 w-4 text-green-500" />
+                            )}
+                            <span className="text-sm">{formatDateTime(match.lead.timestamp, timeZone)}</span>
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <div className="space-y-1">
+                            {match.lead.name && (
+                              <div className="flex items-center gap-1 font-medium">
+                                <PIIValue field="name" value={match.lead.name} token={match.lead.pii_token} />
+                                <PIIRevealButton token={match.lead.pii_token} />
+                              </div>
+                            )}
+                            {match.lead.phone && (
+                              <div className="text-sm text-muted-foreground">
+                                <PIIValue field="phone" value={match.lead.phone} token={match.lead.pii_token} />
+                              </div>
+                            )}
+                            {match.lead.email && (
+                              <div className="text-xs text-muted-foreground truncate max-w-[200px]">
+                                <PIIValue field="email" value={match.lead.email} token={match.lead.pii_token} />
+                              </div>
+                            )}
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-sm">
+                          {match.lead.utm_source || match.lead.source_name || match.lead.source || '-'}
+                        </TableCell>
+                        <TableCell>
+                          {match.appointment ? (
+                            <div className="space-y-1">
+                              <div className="font-mono text-sm">{match.appointment.job_number}</div>
+                              <div className="text-xs text-muted-foreground">
+                                {formatDateTime(match.appointment.created_on, timeZone)}
+                                {match.appointment.job_status && ` · ${match.appointment.job_status}`}
+                              </div>
+                            </div>
+                          ) : (
+                            <span className="text-sm text-muted-foreground">Not booked</span>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-sm">
+                          {matchType ? MATCH_TYPE_LABELS[matchType] : '-'}
+                        </TableCell>
+                        <TableCell className="text-right text-sm">
+                          {match.match_score !== undefined ? match.match_score.toFixed(2) : '-'}
+                        </TableCell>
+                      </TableRow>
+                    )
+                  })}
+                </TableBody>
+              </Table>
+
+              <div className="flex items-center justify-between mt-4">
+                <div className="text-sm text-muted-foreground">
+                  Showing {currentPage * PAGE_SIZE + 1} to{' '}
+                  {Math.min((currentPage + 1) * PAGE_SIZE, matches.length)} of{' '}
+                  {matches.length.toLocaleString()} leads
+                </div>
+                <div className="flex items-center gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setCurrentPage(currentPage - 1)}
+                    disabled={currentPage === 0}
+                  >
+                    <ChevronLeft className="h-4 w-4 mr-1" />
+                    Previous
+                  </Button>
+                  <div className="text-sm">
+                    Page {currentPage + 1} of {totalPages}
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setCurrentPage(currentPage + 1)}
+                    disabled={currentPage >= totalPages - 1}
+                  >
+                    Next
+                    <ChevronRight className="h-4 w-4 ml-1" />
+                  </Button>
+                </div>
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
+
+export default function MatchesPage() {
+  return (
+    <Suspense fallback={
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    }>
+      <MatchesContent />
+    </Suspense>
+  )
+}
@@ -0,0 +1,35 @@
+'use client'
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { useAuth } from '@/components/auth/AuthProvider'
+import { ShieldAlert } from 'lucide-react'
+
+/**
+ * No Access Page - shown by the middleware to signed-in users without any brand grants
+ */
+export default function NoAccessPage() {
+  const { user, signOut } = useAuth()
+
+  return (
+    <div className="flex items-center justify-center min-h-[400px]">
+      <Card className="w-full max-w-md">
+        <CardHeader className="space-y-4">
+          <div className="flex items-center justify-center">
+            <ShieldAlert className="h-8 w-8 text-muted-foreground" />
+          </div>
+          <CardTitle className="text-center">No brands available</CardTitle>
+          <CardDescription className="text-center">
+            {user?.email ? `${user.email} has` : 'Your account has'} not been given access to any
+            brands yet. Ask an administrator to grant you access.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="text-center">
+          <Button variant="outline" onClick={signOut}>
+            Sign out
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -5,53 +5,116 @@ import { useSearchParams, useRouter } from 'next/navigation'
 import { format } from 'date-fns'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { FilterBar } from '@/components/filter-bar'
+import { MetricCard } from '@/components/metric-card'
+import { TrendIndicator } from '@/components/trend-indicator'
+import { TrendCharts } from '@/components/trend-chart'
+import { PortfolioRollup } from '@/components/portfolio-rollup'
 import { getMetricsSummary } from '@/lib/api-client'
-import { urlParamsToFilters } from '@/lib/url-params'
-import type { Filters, MetricsSummaryResponse, ChannelStats } from '@/lib/types'
+import { getErrorMessage, isAbortError } from '@/lib/api-error'
+import { urlParamsToFilters, isPortfolioSelection } from '@/lib/url-params'
+import { useFiltersTimezone } from '@/lib/use-timezone'
+import { useDefaultView } from '@/lib/use-default-view'
+import { COMPARISON_OPTIONS, getComparisonRange, percentChange, rateChange } from '@/lib/comparison'
+import type { Filters, MetricsSummaryResponse, ChannelStats, TrendGranularity } from '@/lib/types'
 import { Phone, FileText, Calendar, TrendingUp, Users, Target, ArrowUp, ArrowDown } from 'lucide-react'
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, PieChart, Pie, Cell } from 'recharts'
 
 function DashboardContent() {
   const searchParams = useSearchParams()
   const router = useRouter()
-  const [filters, setFilters] = useState<Filters>(() => urlParamsToFilters(searchParams, '58'))
+  const [filters, setFilters] = useState<Filters>(() => urlParamsToFilters(searchParams))
+  const { ready: timezoneReady } = useFiltersTimezone(filters, setFilters)
+  const ready = useDefaultView(searchParams, setFilters) && timezoneReady
   const [data, setData] = useState<MetricsSummaryResponse | null>(null)
+  const [comparisonData, setComparisonData] = useState<MetricsSummaryResponse | null>(null)
   const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [granularity, setGranularity] = useState<TrendGranularity>('day')
   const [sortBy, setSortBy] = useState<'leads' | 'conversions' | 'rate'>('leads')
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc')
 
   useEffect(() => {
-    const newFilters = urlParamsToFilters(searchParams, '58')
+    const newFilters = urlParamsToFilters(searchParams)
     setFilters(newFilters)
   }, [searchParams])
 
   useEffect(() => {
+    if (!ready) return
+    const controller = new AbortController()
+
     const fetchData = async () => {
       if (!filters.dateRange.from || !filters.dateRange.to) return
+      // The portfolio roll-up fetches its own per-brand summaries
+      if (isPortfolioSelection(filters)) return
 
       setLoading(true)
+      setError(null)
       try {
-        const response = await getMetricsSummary({
-          brand: filters.brand,
-          start: format(filters.dateRange.from, 'yyyy-MM-dd'),
-          end: format(filters.dateRange.to, 'yyyy-MM-dd'),
-          include_trend: false,
-        })
+        const comparisonRange = getComparisonRange(filters.dateRange, filters.compare || 'none')
+        const [response, comparisonResponse] = await Promise.all([
+          getMetricsSummary({
+            brand: filters.brand,
+            location: filters.location,
+            market: filters.market,
+            start: format(filters.dateRange.from, 'yyyy-MM-dd'),
+            end: format(filters.dateRange.to, 'yyyy-MM-dd'),
+            include_trend: true,
+            trend_granularity: granularity,
+          }, { signal: controller.signal, onRevalidate: setData }),
+          comparisonRange?.from && comparisonRange.to
+            ? getMetricsSummary({
+                brand: filters.brand,
+                location: filters.location,
+                market: filters.market,
+                start: format(comparisonRange.from, 'yyyy-MM-dd'),
+                end: format(comparisonRange.to, 'yyyy-MM-dd'),
+                include_trend: false,
+              }, { signal: controller.signal, onRevalidate: setComparisonData }).catch((error) => {
+                if (isAbortError(error)) throw error
+                // The comparison is supplementary; keep the main view usable
+                console.error('Failed to fetch comparison metrics:', error)
+                return null
+              })
+            : Promise.resolve(null),
+        ])
         setData(response)
+        setComparisonData(comparisonResponse)
       } catch (error) {
+        if (isAbortError(error)) return
         console.error('Failed to fetch metrics:', error)
+        setData(null)
+        setError(getErrorMessage(error, 'Failed to fetch metrics'))
       } finally {
-        setLoading(false)
+        if (!controller.signal.aborted) setLoading(false)
       }
     }
 
     fetchData()
-  }, [filters])
+    // Cancel in-flight requests when filters change so a stale response can't win
+    return () => controller.abort()
+  }, [ready, filters, granularity])
+
+  if (isPortfolioSelection(filters)) {
+    return (
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Dashboard</h1>
+          <p className="text-muted-foreground">
+            Portfolio roll-up across the selected brands
+          </p>
+        </div>
+
+        <FilterBar filters={filters} onChange={setFilters} allowMultipleBrands />
+
+        {ready && <PortfolioRollup filters={filters} />}
+      </div>
+    )
+  }
 
   if (loading) {
     return (
       <div className="space-y-6">
-        <FilterBar filters={filters} onChange={setFilters} />
+        <FilterBar filters={filters} onChange={setFilters} showComparison allowMultipleBrands />
         <div className="flex items-center justify-center h-64">
           <div className="text-muted-foreground">Loading...</div>
         </div>
@@ -62,15 +125,22 @@ function DashboardContent() {
   if (!data) {
     return (
       <div className="space-y-6">
-        <FilterBar filters={filters} onChange={setFilters} />
+        <FilterBar filters={filters} onChange={setFilters} showComparison allowMultipleBrands />
         <div className="flex items-center justify-center h-64">
-          <div className="text-muted-foreground">No data available</div>
+          {error ? (
+            <div className="text-destructive">Error: {error}</div>
+          ) : (
+            <div className="text-muted-foreground">No data available</div>
+          )}
         </div>
       </div>
     )
   }
 
   const { summary, breakdown } = data
+  const previous = comparisonData?.summary
+  const previousChannels = comparisonData?.breakdown.by_channel
+  const comparisonLabel = COMPARISON_OPTIONS.find((option) => option.value === filters.compare)?.label
 
   // Prepare channel data for sorting and display
   const channelData = Object.entries(breakdown.by_channel).map(([name, stats]) => ({
@@ -79,6 +149,11 @@ function DashboardContent() {
     conversions: stats.with_appointment,
     rate: parseFloat(stats.conversion_rate),
     rateDisplay: stats.conversion_rate,
+    leadsChange: previousChannels ? percentChange(stats.total, previousChannels[name]?.total ?? 0) : undefined,
+    conversionsChange: previousChannels
+      ? percentChange(stats.with_appointment, previousChannels[name]?.with_appointment ?? 0)
+      : undefined,
+    rateChange: previousChannels ? rateChange(stats.conversion_rate, previousChannels[name]?.conversion_rate) : undefined,
   }))
 
   // Sort channel data
@@ -101,9 +176,9 @@ function DashboardContent() {
 
   // Form category data
   const formCategories = [
-    { name: 'Website Forms', ...summary.form_leads_by_category.website_forms },
-    { name: 'Affiliate Forms', ...summary.form_leads_by_category.affiliate_forms },
-    { name: 'Meta Leads', ...summary.form_leads_by_category.meta_leads },
+    { name: 'Website Forms', ...summary.form_leads_by_category.website_forms, previous: previous?.form_leads_by_category.website_forms },
+    { name: 'Affiliate Forms', ...summary.form_leads_by_category.affiliate_forms, previous: previous?.form_leads_by_category.affiliate_forms },
+    { name: 'Meta Leads', ...summary.form_leads_by_category.meta_leads, previous: previous?.form_leads_by_category.meta_leads },
   ]
 
   const handleSort = (column: 'leads' | 'conversions' | 'rate') => {
@@ -126,72 +201,61 @@ function DashboardContent() {
         <h1 className="text-3xl font-bold tracking-tight">Dashboard</h1>
         <p className="text-muted-foreground">
           Marketing performance overview
+          {previous && comparisonLabel && ` · compared to ${comparisonLabel.toLowerCase()}`}
         </p>
       </div>
 
-      <FilterBar filters={filters} onChange={setFilters} />
+      <FilterBar filters={filters} onChange={setFilters} showComparison allowMultipleBrands />
 
       {/* Key Metrics */}
       <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
-        <Card>
-          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Total Leads</CardTitle>
-            <Users className="h-4 w-4 text-muted-foreground" />
-          </CardHeader>
-          <CardContent>
-            <div className="text-2xl font-bold">{summary.total_leads.toLocaleString()}</div>
-            <p className="text-xs text-muted-foreground mt-1">
-              {summary.call_leads.toLocaleString()} calls · {summary.form_leads.toLocaleString()} forms
-            </p>
-          </CardContent>
-        </Card>
-
-        <Card>
-          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Appointments</CardTitle>
-            <Calendar className="h-4 w-4 text-muted-foreground" />
-          </CardHeader>
-          <CardContent>
-            <div className="text-2xl font-bold">{summary.leads_with_appointments.toLocaleString()}</div>
-            <p className="text-xs text-muted-foreground mt-1">
-              {summary.total_appointments_created_in_range.toLocaleString()} created in range
-            </p>
-          </CardContent>
-        </Card>
-
-        <Card>
-          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Conversion Rate</CardTitle>
-            <Target className="h-4 w-4 text-muted-foreground" />
-          </CardHeader>
-          <CardContent>
-            <div className="text-2xl font-bold">{summary.conversion_rates.overall}</div>
-            <p className="text-xs text-muted-foreground mt-1">
-              Calls: {summary.conversion_rates.calls_only} · Forms: {summary.conversion_rates.forms_only}
-            </p>
-          </CardContent>
-        </Card>
-
-        <Card>
-          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Avg Days to Appt</CardTitle>
-            <TrendingUp className="h-4 w-4 text-muted-foreground" />
-          </CardHeader>
-          <CardContent>
-            <div className="text-2xl font-bold">{summary.avg_days_to_appointment}</div>
-            <p className="text-xs text-muted-foreground mt-1">
-              First time: {summary.conversion_rates.first_time_calls_only}
-            </p>
-          </CardContent>
-        </Card>
+        <MetricCard
+          title="Total Leads"
+          value={summary.total_leads.toLocaleString()}
+          trend={previous && percentChange(summary.total_leads, previous.total_leads)}
+          description={`${summary.call_leads.toLocaleString()} calls · ${summary.form_leads.toLocaleString()} forms`}
+          icon={<Users className="h-4 w-4 text-muted-foreground" />}
+        />
+        <MetricCard
+          title="Appointments"
+          value={summary.leads_with_appointments.toLocaleString()}
+          trend={previous && percentChange(summary.leads_with_appointments, previous.leads_with_appointments)}
+          description={`${summary.total_appointments_created_in_range.toLocaleString()} created in range`}
+          icon={<Calendar className="h-4 w-4 text-muted-foreground" />}
+        />
+        <MetricCard
+          title="Conversion Rate"
+          value={summary.conversion_rates.overall}
+          trend={previous && rateChange(summary.conversion_rates.overall, previous.conversion_rates.overall)}
+          description={`Calls: ${summary.conversion_rates.calls_only} · Forms: ${summary.conversion_rates.forms_only}`}
+          icon={<Target className="h-4 w-4 text-muted-foreground" />}
+        />
+        <MetricCard
+          title="Avg Days to Appt"
+          value={summary.avg_days_to_appointment}
+          trend={previous && rateChange(summary.avg_days_to_appointment, previous.avg_days_to_appointment)}
+          inverseTrend
+          description={`First time: ${summary.conversion_rates.first_time_calls_only}`}
+          icon={<TrendingUp className="h-4 w-4 text-muted-foreground" />}
+        />
       </div>
 
+      {/* Trends */}
+      <TrendCharts
+        trend={data.trend}
+        granularity={granularity}
+        onGranularityChange={setGranularity}
+      />
+
       {/* Lead Type Breakdown */}
       <div className="grid gap-4 md:grid-cols-2">
         <Card>
           <CardHeader>
             <CardTitle>Call Leads Breakdown</CardTitle>
-            <CardDescription>{summary.call_leads.toLocaleString()} total calls</CardDescription>
+            <CardDescription className="flex items-center gap-2">
+              {summary.call_leads.toLocaleString()} total calls
+              {previous && <TrendIndicator value={percentChange(summary.call_leads, previous.call_leads)} />}
+            </CardDescription>
           </CardHeader>
           <CardContent>
             <div className="space-y-4">
@@ -201,7 +265,10 @@ function DashboardContent() {
                   <span className="text-sm font-medium">First Time Calls</span>
                 </div>
                 <div className="text-right">
-                  <div className="font-bold">{summary.first_time_calls.toLocaleString()}</div>
+                  <div className="flex items-center justify-end gap-2">
+                    {previous && <TrendIndicator value={percentChange(summary.first_time_calls, previous.first_time_calls)} />}
+                    <div className="font-bold">{summary.first_time_calls.toLocaleString()}</div>
+                  </div>
                   <div className="text-xs text-muted-foreground">
                     {summary.first_time_calls_with_appointments} appts ({summary.conversion_rates.first_time_calls_only})
                   </div>
@@ -213,7 +280,10 @@ function DashboardContent() {
                   <span className="text-sm font-medium">Repeat Calls</span>
                 </div>
                 <div className="text-right">
-                  <div className="font-bold">{summary.repeat_calls.toLocaleString()}</div>
+                  <div className="flex items-center justify-end gap-2">
+                    {previous && <TrendIndicator value={percentChange(summary.repeat_calls, previous.repeat_calls)} />}
+                    <div className="font-bold">{summary.repeat_calls.toLocaleString()}</div>
+                  </div>
                   <div className="text-xs text-muted-foreground">
                     {summary.call_leads_with_appointments - summary.first_time_calls_with_appointments} appts
                   </div>
@@ -226,7 +296,10 @@ function DashboardContent() {
         <Card>
           <CardHeader>
             <CardTitle>Form Leads Breakdown</CardTitle>
-            <CardDescription>{summary.form_leads.toLocaleString()} total forms</CardDescription>
+            <CardDescription className="flex items-center gap-2">
+              {summary.form_leads.toLocaleString()} total forms
+              {previous && <TrendIndicator value={percentChange(summary.form_leads, previous.form_leads)} />}
+            </CardDescription>
           </CardHeader>
           <CardContent>
             <div className="space-y-4">
@@ -237,7 +310,10 @@ function DashboardContent() {
                     <span className="text-sm font-medium">{category.name}</span>
                   </div>
                   <div className="text-right">
-                    <div className="font-bold">{category.total.toLocaleString()}</div>
+                    <div className="flex items-center justify-end gap-2">
+                      {category.previous && <TrendIndicator value={percentChange(category.total, category.previous.total)} />}
+                      <div className="font-bold">{category.total.toLocaleString()}</div>
+                    </div>
                     <div className="text-xs text-muted-foreground">
                       {category.with_appointment} appts ({category.conversion_rate})
                     </div>
@@ -325,12 +401,19 @@ function DashboardContent() {
                 {sortedChannelData.map((channel) => (
                   <tr key={channel.name} className="border-b hover:bg-muted/50">
                     <td className="p-4 font-medium">{channel.name}</td>
-                    <td className="p-4 text-right">{channel.leads.toLocaleString()}</td>
-                    <td className="p-4 text-right">{channel.conversions.toLocaleString()}</td>
+                    <td className="p-4 text-right">
+                      {channel.leads.toLocaleString()}
+                      {previousChannels && <TrendIndicator value={channel.leadsChange} className="ml-2" />}
+                    </td>
+                    <td className="p-4 text-right">
+                      {channel.conversions.toLocaleString()}
+                      {previousChannels && <TrendIndicator value={channel.conversionsChange} className="ml-2" />}
+                    </td>
                     <td className="p-4 text-right">
                       <span className={`font-medium ${channel.rate >= 30 ? 'text-green-600' : channel.rate >= 20 ? 'text-blue-600' : 'text-muted-foreground'}`}>
                         {channel.rateDisplay}
                       </span>
+                      {previousChannels && <TrendIndicator value={channel.rateChange} className="ml-2" />}
                     </td>
                   </tr>
                 ))}
@@ -1,22 +1,37 @@
 'use client'
 
 import * as React from 'react'
-import { format } from 'date-fns'
+import { endOfDay, format, startOfDay } from 'date-fns'
 import Datepicker from 'react-tailwindcss-datepicker'
 import { DateRange } from '@/lib/types'
-import { DATE_PRESETS, findMatchingPreset } from '@/lib/date-presets'
+import { DATE_PRESETS, DATE_PRESET_GROUPS, findMatchingPreset } from '@/lib/date-presets'
+import { zonedNow } from '@/lib/timezone'
 import { cn } from '@/lib/utils'
-import { Button } from '@/components/ui/button'
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
 
 interface AdvancedDateRangePickerProps {
   value: DateRange
-  onChange: (range: DateRange) => void
+  /** Preset the range was picked from, if any */
+  preset?: string
+  onChange: (range: DateRange, preset?: string) => void
+  /** Presets count days in this timezone */
+  timeZone: string
   className?: string
 }
 
 export function AdvancedDateRangePicker({
   value,
+  preset: selectedPreset,
   onChange,
+  timeZone,
   className
 }: AdvancedDateRangePickerProps) {
   const [dateValue, setDateValue] = React.useState({
@@ -34,8 +49,8 @@ export function AdvancedDateRangePicker({
   const handlePresetClick = (presetValue: string) => {
     const preset = DATE_PRESETS.find(p => p.value === presetValue)
     if (preset) {
-      const range = preset.getRange()
-      onChange(range)
+      const range = preset.getRange(zonedNow(timeZone))
+      onChange(range, preset.value)
     }
   }
 
@@ -43,13 +58,13 @@ export function AdvancedDateRangePicker({
     if (newValue?.startDate && newValue?.endDate) {
       setDateValue(newValue)
       onChange({
-        from: new Date(newValue.startDate),
-        to: new Date(newValue.endDate),
+        from: startOfDay(new Date(newValue.startDate)),
+        to: endOfDay(new Date(newValue.endDate)),
       })
     }
   }
 
-  const matchedPreset = findMatchingPreset(value)
+  const matchedPreset = findMatchingPreset(value, zonedNow(timeZone), selectedPreset)
 
   return (
     <div className={cn('flex items-center gap-2', className)}>
@@ -67,20 +82,24 @@ export function AdvancedDateRangePicker({
         />
       </div>
 
-      {/* Preset Buttons */}
-      <div className="flex items-center gap-1">
-        {DATE_PRESETS.map((preset) => (
-          <Button
-            key={preset.value}
-            variant={matchedPreset?.value === preset.value ? 'default' : 'outline'}
-            size="sm"
-            className="h-9 text-xs"
-            onClick={() => handlePresetClick(preset.value)}
-          >
-            {preset.label}
-          </Button>
-        ))}
-      </div>
+      {/* Presets */}
+      <Select value={matchedPreset?.value ?? ''} onValueChange={handlePresetClick}>
+        <SelectTrigger className="w-[160px]" aria-label="Date preset">
+          <SelectValue placeholder="Custom range" />
+        </SelectTrigger>
+        <SelectContent>
+          {DATE_PRESET_GROUPS.map((group) => (
+            <SelectGroup key={group.value}>
+              <SelectLabel>{group.label}</SelectLabel>
+              {DATE_PRESETS.filter((preset) => preset.group === group.value).map((preset) => (
+                <SelectItem key={preset.value} value={preset.value}>
+                  {preset.label}
+                </SelectItem>
+              ))}
+            </SelectGroup>
+          ))}
+        </SelectContent>
+      </Select>
     </div>
   )
 }
@@ -0,0 +1,102 @@
+'use client'
+
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell } from 'recharts'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { STAGE_LABELS, type BusinessUnitStats, type StatusCounts, type StatusStage } from '@/lib/appointment-status'
+import { formatPercent } from '@/lib/utils'
+
+const STAGE_COLORS: Record<StatusStage, string> = {
+  scheduled: '#3b82f6',
+  completed: '#8b5cf6',
+  sold: '#10b981',
+  canceled: '#ef4444',
+}
+
+const FUNNEL_STAGES: StatusStage[] = ['scheduled', 'completed', 'sold', 'canceled']
+
+interface AppointmentStatusAnalyticsProps {
+  counts: StatusCounts
+  businessUnits: BusinessUnitStats[]
+}
+
+export function AppointmentStatusAnalytics({ counts, businessUnits }: AppointmentStatusAnalyticsProps) {
+  const funnelData = FUNNEL_STAGES.map((stage) => ({
+    stage: STAGE_LABELS[stage],
+    count: counts.stages[stage],
+    color: STAGE_COLORS[stage],
+    share: counts.total > 0 ? (counts.stages[stage] / counts.total) * 100 : 0,
+  }))
+
+  return (
+    <div className="grid gap-4 md:grid-cols-2">
+      <Card>
+        <CardHeader>
+          <CardTitle>Status Funnel</CardTitle>
+          <CardDescription>Scheduled → completed → sold, with cancellations</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ResponsiveContainer width="100%" height={260}>
+            <BarChart data={funnelData} layout="vertical">
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis type="number" />
+              <YAxis dataKey="stage" type="category" width={90} />
+              <Tooltip
+                formatter={(value: number, _name, item) =>
+                  [`${value.toLocaleString()} (${formatPercent(item.payload.share)})`, 'Appointments']
+                }
+              />
+              <Bar dataKey="count">
+                {funnelData.map((entry) => (
+                  <Cell key={entry.stage} fill={entry.color} />
+                ))}
+              </Bar>
+            </BarChart>
+          </ResponsiveContainer>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>By Business Unit</CardTitle>
+          <CardDescription>ServiceTitan business units resolved to brand locations</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {businessUnits.length === 0 ? (
+            <p className="text-center text-sm text-muted-foreground py-12">No appointments</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Business Unit</TableHead>
+                  <TableHead className="text-right">Total</TableHead>
+                  <TableHead className="text-right">Completed</TableHead>
+                  <TableHead className="text-right">Sold</TableHead>
+                  <TableHead className="text-right">Canceled</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {businessUnits.map((unit) => (
+                  <TableRow key={unit.id || 'unassigned'}>
+                    <TableCell className="font-medium">{unit.name}</TableCell>
+                    <TableCell className="text-right">{unit.total.toLocaleString()}</TableCell>
+                    <TableCell className="text-right">{unit.completed.toLocaleString()}</TableCell>
+                    <TableCell className="text-right">{unit.sold.toLocaleString()}</TableCell>
+                    <TableCell className="text-right">{unit.canceled.toLocaleString()}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
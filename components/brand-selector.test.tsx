@@ -0,0 +1,132 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { cleanup, render, screen } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { BrandSelector } from './brand-selector'
+import { getBrands } from '@/lib/api-client'
+import { ALL_BRANDS } from '@/lib/url-params'
+import { MOCK_BRANDS } from '@/lib/mock-fixtures'
+
+vi.mock('@/lib/api-client', () => ({
+  getBrands: vi.fn(),
+}))
+
+const getBrandsMock = vi.mocked(getBrands)
+
+describe('BrandSelector', () => {
+  beforeEach(() => {
+    getBrandsMock.mockResolvedValue({ access: 'public', brands: MOCK_BRANDS })
+  })
+
+  afterEach(cleanup)
+
+  it('shows the selected brand once brands load', async () => {
+    render(<BrandSelector value="64" onChange={() => {}} />)
+
+    expect(screen.getByText('Loading brands...')).toBeTruthy()
+    expect(await screen.findByText('The Patch Boys')).toBeTruthy()
+    expect(getBrandsMock).toHaveBeenCalledWith(true, { signal: expect.any(AbortSignal) })
+  })
+
+  it('shows an error when brands fail to load', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    getBrandsMock.mockRejectedValue(new Error('Unable to reach the reporting API'))
+
+    render(<BrandSelector value="58" onChange={() => {}} />)
+
+    expect(await screen.findByText('Failed to load brands')).toBeTruthy()
+  })
+
+  it('moves a selection the user has no access to onto their first brand', async () => {
+    getBrandsMock.mockResolvedValue({ access: 'public', brands: MOCK_BRANDS.slice(1) })
+    const onChange = vi.fn()
+
+    render(<BrandSelector value="58" onChange={onChange} />)
+
+    await vi.waitFor(() => expect(onChange).toHaveBeenCalledWith(MOCK_BRANDS[1].shortcode))
+  })
+
+  it('leaves an accessible selection alone', async () => {
+    const onChange = vi.fn()
+
+    render(<BrandSelector value="64" onChange={onChange} />)
+
+    await screen.findByText('The Patch Boys')
+    expect(onChange).not.toHaveBeenCalled()
+  })
+
+  it('aborts the brands request on unmount', () => {
+    getBrandsMock.mockReturnValue(new Promise(() => {}))
+
+    const { unmount } = render(<BrandSelector value="58" onChange={() => {}} />)
+    unmount()
+
+    const [, options] = getBrandsMock.mock.calls[0]
+    expect(options?.signal?.aborted).toBe(true)
+  })
+
+  describe('multiple', () => {
+    async function open(value: string[], label: string) {
+      const user = userEvent.setup()
+      const onChange = vi.fn()
+      render(<BrandSelector multiple value={value} onChange={onChange} />)
+      await user.click(await screen.findByRole('button', { name: label }))
+      return { user, onChange }
+    }
+
+    it('drops brands the user has no access to', async () => {
+      getBrandsMock.mockResolvedValue({ access: 'public', brands: MOCK_BRANDS.slice(1) })
+      const onChange = vi.fn()
+
+      render(<BrandSelector multiple value={['58', '64']} onChange={onChange} />)
+
+      await vi.waitFor(() => expect(onChange).toHaveBeenCalledWith(['64']))
+    })
+
+    it('labels the trigger by selection', async () => {
+      render(<BrandSelector multiple value={['58', '64']} onChange={() => {}} />)
+
+      expect(await screen.findByRole('button', { name: '2 brands' })).toBeTruthy()
+    })
+
+    it('adds a brand to the selection', async () => {
+      const { user, onChange } = await open(['58'], 'Valu Home Centers')
+
+      await user.click(screen.getByRole('checkbox', { name: 'The Patch Boys' }))
+
+      expect(onChange).toHaveBeenCalledWith(['58', '64'])
+    })
+
+    it('collapses a full selection to all brands', async () => {
+      const { user, onChange } = await open(['58', '64'], '2 brands')
+
+      await user.click(screen.getByRole('checkbox', { name: 'Budget Blinds' }))
+
+      expect(onChange).toHaveBeenCalledWith([ALL_BRANDS])
+    })
+
+    it('expands all brands when one is unchecked', async () => {
+      const { user, onChange } = await open([ALL_BRANDS], 'All brands')
+
+      await user.click(screen.getByRole('checkbox', { name: 'Valu Home Centers' }))
+
+      expect(onChange).toHaveBeenCalledWith(['64', '65'])
+    })
+
+    it('never empties the selection', async () => {
+      const { user, onChange } = await open(['58'], 'Valu Home Centers')
+
+      await user.click(screen.getByRole('checkbox', { name: 'Valu Home Centers' }))
+
+      expect(onChange).not.toHaveBeenCalled()
+    })
+
+    it('falls back to the first brand when all brands is unchecked', async () => {
+      const { user, onChange } = await open([ALL_BRANDS], 'All brands')
+
+      await user.click(screen.getByRole('checkbox', { name: 'All brands' }))
+
+      expect(onChange).toHaveBeenCalledWith(['58'])
+    })
+  })
+})
@@ -2,6 +2,8 @@
 
 import { useEffect, useState } from 'react'
 import { getBrands } from '@/lib/api-client'
+import { isAbortError } from '@/lib/api-error'
+import { ALL_BRANDS } from '@/lib/url-params'
 import type { BrandConfig } from '@/lib/types'
 import {
   Select,
@@ -10,36 +12,64 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select'
-import { AlertCircle, Loader2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { AlertCircle, ChevronDown, Loader2 } from 'lucide-react'
 
-interface BrandSelectorProps {
-  value: string
-  onChange: (brand: string) => void
-}
+type BrandSelectorProps =
+  | {
+      multiple?: false
+      value: string
+      onChange: (brand: string) => void
+    }
+  | {
+      multiple: true
+      value: string[]
+      onChange: (brands: string[]) => void
+    }
 
-export function BrandSelector({ value, onChange }: BrandSelectorProps) {
+export function BrandSelector(props: BrandSelectorProps) {
   const [brands, setBrands] = useState<BrandConfig[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
 
   useEffect(() => {
+    const controller = new AbortController()
+
     const fetchBrands = async () => {
       try {
         setLoading(true)
         setError(null)
-        const response = await getBrands()
+        const response = await getBrands(true, { signal: controller.signal })
         setBrands(response.brands)
       } catch (err) {
+        if (isAbortError(err)) return
         setError('Failed to load brands')
         console.error('Error fetching brands:', err)
       } finally {
-        setLoading(false)
+        if (!controller.signal.aborted) setLoading(false)
       }
     }
 
     fetchBrands()
+    return () => controller.abort()
   }, [])
 
+  // The brands API only lists brands the user has access to, so move a
+  // selection from an old link or saved view onto brands they can see
+  const { multiple, value, onChange } = props
+  useEffect(() => {
+    if (brands.length === 0) return
+    const known = (shortcode: string) => brands.some((brand) => brand.shortcode === shortcode)
+
+    if (!multiple) {
+      if (!known(value)) onChange(brands[0].shortcode)
+    } else if (!value.includes(ALL_BRANDS) && !value.every(known)) {
+      const allowed = value.filter(known)
+      onChange(allowed.length > 0 ? allowed : [brands[0].shortcode])
+    }
+  }, [brands, multiple, value, onChange])
+
   if (error) {
     return (
       <div className="flex items-center gap-2 text-sm text-destructive">
@@ -49,8 +79,19 @@ export function BrandSelector({ value, onChange }: BrandSelectorProps) {
     )
   }
 
+  if (props.multiple) {
+    return (
+      <MultiBrandSelect
+        brands={brands}
+        loading={loading}
+        value={props.value}
+        onChange={props.onChange}
+      />
+    )
+  }
+
   return (
-    <Select value={value} onValueChange={onChange} disabled={loading}>
+    <Select value={props.value} onValueChange={props.onChange} disabled={loading}>
       <SelectTrigger className="w-[250px]">
         {loading ? (
           <div className="flex items-center gap-2">
@@ -71,3 +112,90 @@ export function BrandSelector({ value, onChange }: BrandSelectorProps) {
     </Select>
   )
 }
+
+interface MultiBrandSelectProps {
+  brands: BrandConfig[]
+  loading: boolean
+  value: string[]
+  onChange: (brands: string[]) => void
+}
+
+function MultiBrandSelect({ brands, loading, value, onChange }: MultiBrandSelectProps) {
+  const allSelected = value.includes(ALL_BRANDS)
+
+  const isChecked = (shortcode: string) => allSelected || value.includes(shortcode)
+
+  const toggleBrand = (shortcode: string) => {
+    const current = allSelected ? brands.map((brand) => brand.shortcode) : value
+    const next = current.includes(shortcode)
+      ? current.filter((code) => code !== shortcode)
+      : [...current, shortcode]
+
+    // Keep at least one brand selected
+    if (next.length === 0) return
+    onChange(next.length === brands.length ? [ALL_BRANDS] : next)
+  }
+
+  const toggleAll = () => {
+    if (allSelected) {
+      // Fall back to the first brand so the selection is never empty
+      if (brands.length > 0) onChange([brands[0].shortcode])
+    } else {
+      onChange([ALL_BRANDS])
+    }
+  }
+
+  const label = () => {
+    if (allSelected) return 'All brands'
+    if (value.length === 1) {
+      return brands.find((brand) => brand.shortcode === value[0])?.full_name || value[0]
+    }
+    return `${value.length} brands`
+  }
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" className="w-[250px] justify-between font-normal" disabled={loading}>
+          {loading ? (
+            <div className="flex items-center gap-2">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              <span>Loading brands...</span>
+            </div>
+          ) : (
+            <span className="truncate">{label()}</span>
+          )}
+          <ChevronDown className="h-4 w-4 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[250px] p-2" align="start">
+        <label className="flex items-center gap-2 rounded-sm px-2 py-1.5 text-sm font-medium hover:bg-accent cursor-pointer">
+          <input
+            type="checkbox"
+            className="rounded border-input"
+            checked={allSelected}
+            onChange={toggleAll}
+          />
+          All brands
+        </label>
+        <div className="my-1 h-px bg-muted" />
+        <div className="max-h-72 overflow-y-auto">
+          {brands.map((brand) => (
+            <label
+              key={brand.shortcode}
+              className="flex items-center gap-2 rounded-sm px-2 py-1.5 text-sm hover:bg-accent cursor-pointer"
+            >
+              <input
+                type="checkbox"
+                className="rounded border-input"
+                checked={isChecked(brand.shortcode)}
+                onChange={() => toggleBrand(brand.shortcode)}
+              />
+              {brand.full_name}
+            </label>
+          ))}
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
@@ -0,0 +1,119 @@
+'use client'
+
+import { useRef, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import {
+  downloadBlob,
+  toCSV,
+  toXLSX,
+  type ExportColumn,
+  type ExportFormat,
+  type ExportProgress,
+} from '@/lib/export'
+import { getErrorMessage, isAbortError } from '@/lib/api-error'
+import { Download, FileSpreadsheet, FileText, Loader2, X } from 'lucide-react'
+
+interface ExportButtonProps<T> {
+  columns: ExportColumn<T>[]
+  // Loads every row for the current filters as an export of `exportFormat`,
+  // which the /api proxy records, reporting progress as it goes
+  loadRows: (
+    exportFormat: ExportFormat,
+    onProgress: (progress: ExportProgress) => void,
+    signal: AbortSignal
+  ) => Promise<T[]>
+  getFilename: (format: ExportFormat) => string
+  sheetName: string
+  disabled?: boolean
+}
+
+export function ExportButton<T>({
+  columns,
+  loadRows,
+  getFilename,
+  sheetName,
+  disabled,
+}: ExportButtonProps<T>) {
+  const [open, setOpen] = useState(false)
+  const [progress, setProgress] = useState<ExportProgress | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const abortRef = useRef<AbortController | null>(null)
+
+  const exporting = progress !== null
+
+  const handleExport = async (exportFormat: ExportFormat) => {
+    const controller = new AbortController()
+    abortRef.current = controller
+    setError(null)
+    setProgress({ loaded: 0, total: 0 })
+
+    try {
+      const rows = await loadRows(exportFormat, setProgress, controller.signal)
+      const blob = exportFormat === 'csv'
+        ? toCSV(rows, columns)
+        : await toXLSX(rows, columns, sheetName)
+      downloadBlob(blob, getFilename(exportFormat))
+      setOpen(false)
+    } catch (err) {
+      if (!isAbortError(err)) {
+        console.error('Export failed:', err)
+        setError(getErrorMessage(err, 'Export failed'))
+      }
+    } finally {
+      abortRef.current = null
+      setProgress(null)
+    }
+  }
+
+  const handleCancel = () => {
+    abortRef.current?.abort()
+  }
+
+  return (
+    <Popover open={open} onOpenChange={(next) => !exporting && setOpen(next)}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" disabled={disabled}>
+          {exporting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+          Export
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64" align="end">
+        {exporting ? (
+          <div className="space-y-3">
+            <div className="text-sm font-medium">Exporting...</div>
+            <div className="h-2 w-full rounded-full bg-muted overflow-hidden">
+              <div
+                className="h-full bg-primary transition-all"
+                style={{ width: `${progress.total ? Math.min(100, (progress.loaded / progress.total) * 100) : 0}%` }}
+              />
+            </div>
+            <div className="flex items-center justify-between">
+              <span className="text-xs text-muted-foreground">
+                {progress.loaded.toLocaleString()}
+                {progress.total > 0 && ` of ${progress.total.toLocaleString()}`} rows
+              </span>
+              <Button variant="ghost" size="sm" onClick={handleCancel}>
+                <X className="h-4 w-4" />
+                Cancel
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            <div className="text-sm font-medium">Export all rows</div>
+            <Button variant="outline" size="sm" className="w-full justify-start" onClick={() => handleExport('csv')}>
+              <FileText className="h-4 w-4" />
+              CSV (.csv)
+            </Button>
+            <Button variant="outline" size="sm" className="w-full justify-start" onClick={() => handleExport('xlsx')}>
+              <FileSpreadsheet className="h-4 w-4" />
+              Excel (.xlsx)
+            </Button>
+            {error && <p className="text-xs text-destructive">{error}</p>}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  )
+}
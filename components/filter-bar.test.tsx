@@ -0,0 +1,204 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { cleanup, render, screen } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { endOfDay, startOfDay } from 'date-fns'
+import { FilterBar } from './filter-bar'
+import { createSavedView, getBrands, getSavedViews } from '@/lib/api-client'
+import { invalidateQueries } from '@/lib/query-cache'
+import { MOCK_BRANDS } from '@/lib/mock-fixtures'
+import { findMatchingPreset } from '@/lib/date-presets'
+import type { Filters, SavedView } from '@/lib/types'
+
+const replace = vi.fn()
+const push = vi.fn()
+
+vi.mock('next/navigation', () => ({
+  useRouter: () => ({ replace, push }),
+  useSearchParams: () => new URLSearchParams(),
+  usePathname: () => '/leads',
+}))
+
+vi.mock('@/lib/api-client', () => ({
+  getBrands: vi.fn(),
+  getSavedViews: vi.fn(),
+  createSavedView: vi.fn(),
+  updateSavedView: vi.fn(),
+  deleteSavedView: vi.fn(),
+}))
+
+vi.mock('@/lib/query-cache', () => ({
+  invalidateQueries: vi.fn(),
+}))
+
+function savedView(overrides: Partial<SavedView>): SavedView {
+  return {
+    id: 'view-1',
+    name: 'Patch Boys calls',
+    page: '/leads',
+    query: 'brand=64&preset=last-7-days&type=call',
+    is_default: false,
+    created_at: '2025-10-01T00:00:00Z',
+    updated_at: '2025-10-01T00:00:00Z',
+    ...overrides,
+  }
+}
+
+const filters: Filters = {
+  brand: '58',
+  dateRange: {
+    from: startOfDay(new Date(2025, 9, 1)),
+    to: endOfDay(new Date(2025, 9, 31)),
+  },
+  compare: 'none',
+}
+
+describe('FilterBar', () => {
+  beforeEach(() => {
+    replace.mockReset()
+    push.mockReset()
+    vi.mocked(getBrands).mockResolvedValue({ access: 'public', brands: MOCK_BRANDS })
+    vi.mocked(getSavedViews).mockResolvedValue({ views: [] })
+  })
+
+  afterEach(() => {
+    cleanup()
+    window.localStorage.clear()
+  })
+
+  it('keeps the URL in sync with the filters', async () => {
+    const { rerender } = render(<FilterBar filters={filters} onChange={() => {}} />)
+    await screen.findByText('Valu Home Centers')
+
+    expect(replace).toHaveBeenLastCalledWith('/?brand=58&start=2025-10-01&end=2025-10-31', { scroll: false })
+
+    rerender(<FilterBar filters={{ ...filters, brand: '64' }} onChange={() => {}} />)
+    expect(replace).toHaveBeenLastCalledWith('/?brand=64&start=2025-10-01&end=2025-10-31', { scroll: false })
+  })
+
+  it('refreshes by dropping cached reporting data and re-emitting the filters', async () => {
+    const user = userEvent.setup()
+    const onChange = vi.fn()
+    render(<FilterBar filters={filters} onChange={onChange} />)
+
+    await user.click(screen.getByTitle('Refresh data'))
+
+    expect(invalidateQueries).toHaveBeenCalledWith('/reporting/')
+    expect(onChange).toHaveBeenCalledWith(filters)
+    expect(onChange.mock.calls[0][0]).not.toBe(filters)
+  })
+
+  it('resets to the default brand, last 30 days and no comparison', async () => {
+    const user = userEvent.setup()
+    const onChange = vi.fn()
+    render(
+      <FilterBar
+        filters={{ ...filters, brand: '64', location: 'loc-1', compare: 'previous_year' }}
+        onChange={onChange}
+      />
+    )
+
+    await user.click(screen.getByTitle('Reset filters'))
+
+    const reset: Filters = onChange.mock.calls[0][0]
+    expect(reset).toEqual({ brand: '58', dateRange: expect.any(Object), compare: 'none' })
+    expect(findMatchingPreset(reset.dateRange)?.value).toBe('last-30-days')
+  })
+
+  it('resets to the default saved view when there is one', async () => {
+    window.localStorage.setItem('reporting-default-view', 'brand=64&preset=last-7-days&type=call')
+    const user = userEvent.setup()
+    const onChange = vi.fn()
+    render(<FilterBar filters={filters} onChange={onChange} />)
+
+    await user.click(screen.getByTitle('Reset filters'))
+
+    const reset: Filters = onChange.mock.calls[0][0]
+    expect(reset).toMatchObject({ brand: '64', preset: 'last-7-days', leadType: 'call' })
+  })
+
+  it('saves the current filters as a view for this page', async () => {
+    const user = userEvent.setup()
+    vi.mocked(createSavedView).mockImplementation(async (input) => ({
+      view: savedView({ ...input, is_default: input.is_default ?? false }),
+    }))
+    render(<FilterBar filters={{ ...filters, leadType: 'form' }} onChange={() => {}} />)
+
+    await user.click(screen.getByTitle('Saved views'))
+    await screen.findByText('No saved views yet')
+    await user.type(screen.getByLabelText('Save current filters'), '  October forms ')
+    await user.click(screen.getByRole('checkbox', { name: 'Open this view by default' }))
+    await user.click(screen.getByRole('button', { name: 'Save View' }))
+
+    expect(createSavedView).toHaveBeenCalledWith({
+      name: 'October forms',
+      page: '/leads',
+      query: 'brand=58&start=2025-10-01&end=2025-10-31&type=form',
+      is_default: true,
+    })
+    expect(await screen.findByText('October forms')).toBeTruthy()
+    expect(window.localStorage.getItem('reporting-default-view')).toBe(
+      'brand=58&start=2025-10-01&end=2025-10-31&type=form'
+    )
+  })
+
+  it('applies a view in place on its own page and navigates to other pages', async () => {
+    const user = userEvent.setup()
+    const onChange = vi.fn()
+    vi.mocked(getSavedViews).mockResolvedValue({
+      views: [
+        savedView({}),
+        savedView({ id: 'view-2', name: 'Channel mix', page: '/attribution', query: 'brand=58&group_by=source' }),
+      ],
+    })
+    render(<FilterBar filters={filters} onChange={onChange} />)
+
+    await user.click(screen.getByTitle('Saved views'))
+    await user.click(await screen.findByText('Patch Boys calls'))
+
+    expect(onChange).toHaveBeenCalledWith(
+      expect.objectContaining({ brand: '64', preset: 'last-7-days', leadType: 'call' })
+    )
+
+    await user.click(screen.getByTitle('Saved views'))
+    await user.click(await screen.findByText('Channel mix'))
+
+    expect(push).toHaveBeenCalledWith('/attribution?brand=58&group_by=source')
+  })
+
+  it('only shows the comparison picker when enabled', () => {
+    const { rerender } = render(<FilterBar filters={filters} onChange={() => {}} />)
+    expect(screen.queryByText('Compare:')).toBeNull()
+
+    rerender(<FilterBar filters={filters} onChange={() => {}} showComparison />)
+    expect(screen.getByText('Compare:')).toBeTruthy()
+  })
+
+  it('hides the location picker for a portfolio selection', async () => {
+    render(
+      <FilterBar filters={{ ...filters, brands: ['58', '64'] }} onChange={() => {}} allowMultipleBrands />
+    )
+
+    expect(await screen.findByRole('button', { name: '2 brands' })).toBeTruthy()
+    expect(screen.queryByText('Location:')).toBeNull()
+  })
+
+  it('clears the location when several brands are selected', async () => {
+    const user = userEvent.setup()
+    const onChange = vi.fn()
+    render(
+      <FilterBar filters={{ ...filters, location: 'loc-1' }} onChange={onChange} allowMultipleBrands />
+    )
+
+    await user.click(await screen.findByRole('button', { name: 'Valu Home Centers' }))
+    await user.click(screen.getByRole('checkbox', { name: 'The Patch Boys' }))
+
+    expect(onChange).toHaveBeenCalledWith({
+      ...filters,
+      brand: '58',
+      brands: ['58', '64'],
+      location: undefined,
+      market: undefined,
+    })
+  })
+})
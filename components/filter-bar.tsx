@@ -4,33 +4,65 @@ import { useRouter, useSearchParams } from 'next/navigation'
 import { useEffect } from 'react'
 import { AdvancedDateRangePicker } from './advanced-date-range-picker'
 import { BrandSelector } from './brand-selector'
-import { Filters } from '@/lib/types'
-import { updateURL } from '@/lib/url-params'
+import { LocationSelector } from './location-selector'
+import { SavedViewsMenu } from './saved-views-menu'
+import { Filters, ComparisonMode } from '@/lib/types'
+import { updateURL, ALL_BRANDS, isPortfolioSelection, urlParamsToFilters } from '@/lib/url-params'
+import { COMPARISON_OPTIONS } from '@/lib/comparison'
+import { invalidateQueries } from '@/lib/query-cache'
+import { useTimezone } from '@/lib/use-timezone'
 import { Button } from './ui/button'
-import { Share2, RotateCcw } from 'lucide-react'
-import { subDays } from 'date-fns'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select'
+import { Share2, RotateCcw, RefreshCw } from 'lucide-react'
 
 interface FilterBarProps {
   filters: Filters
   onChange: (filters: Filters) => void
+  showComparison?: boolean
+  allowMultipleBrands?: boolean
 }
 
-export function FilterBar({ filters, onChange }: FilterBarProps) {
+export function FilterBar({
+  filters,
+  onChange,
+  showComparison = false,
+  allowMultipleBrands = false,
+}: FilterBarProps) {
   const router = useRouter()
   const searchParams = useSearchParams()
+  const timeZone = useTimezone(filters.brand)
 
   // Update URL when filters change
   useEffect(() => {
     updateURL(filters, router)
   }, [filters, router])
 
+  // Back to the user's default view, or the app defaults without one
   const handleReset = () => {
+    onChange(urlParamsToFilters(new URLSearchParams()))
+  }
+
+  // Drop cached reporting data; a new filters object makes the page refetch
+  const handleRefresh = () => {
+    invalidateQueries('/reporting/')
+    onChange({ ...filters })
+  }
+
+  const handleBrandsChange = (brands: string[]) => {
+    const primary = brands.find((shortcode) => shortcode !== ALL_BRANDS) || filters.brand
     onChange({
-      brand: '58',
-      dateRange: {
-        from: subDays(new Date(), 30),
-        to: new Date(),
-      },
+      ...filters,
+      brand: primary,
+      brands: brands.length === 1 && brands[0] !== ALL_BRANDS ? undefined : brands,
+      // Locations belong to a brand, so a new selection clears them
+      location: undefined,
+      market: undefined,
     })
   }
 
@@ -50,20 +82,69 @@ export function FilterBar({ filters, onChange }: FilterBarProps) {
       <div className="flex items-center gap-4 flex-1">
         <div className="flex items-center gap-2">
           <span className="text-sm font-medium">Brand:</span>
-          <BrandSelector
-            value={filters.brand}
-            onChange={(brand) => onChange({ ...filters, brand })}
-          />
+          {allowMultipleBrands ? (
+            <BrandSelector
+              multiple
+              value={filters.brands || [filters.brand]}
+              onChange={handleBrandsChange}
+            />
+          ) : (
+            <BrandSelector
+              value={filters.brand}
+              onChange={(brand) =>
+                onChange({ ...filters, brand, brands: undefined, location: undefined, market: undefined })
+              }
+            />
+          )}
         </div>
+        {!isPortfolioSelection(filters) && (
+          <LocationSelector
+            brand={filters.brand}
+            location={filters.location}
+            market={filters.market}
+            onChange={({ location, market }) => onChange({ ...filters, location, market })}
+          />
+        )}
         <div className="flex items-center gap-2">
           <span className="text-sm font-medium">Date Range:</span>
           <AdvancedDateRangePicker
             value={filters.dateRange}
-            onChange={(dateRange) => onChange({ ...filters, dateRange })}
+            preset={filters.preset}
+            onChange={(dateRange, preset) => onChange({ ...filters, dateRange, preset })}
+            timeZone={timeZone}
           />
         </div>
+        {showComparison && (
+          <div className="flex items-center gap-2">
+            <span className="text-sm font-medium">Compare:</span>
+            <Select
+              value={filters.compare || 'none'}
+              onValueChange={(compare) => onChange({ ...filters, compare: compare as ComparisonMode })}
+            >
+              <SelectTrigger className="w-[200px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {COMPARISON_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
       </div>
       <div className="flex items-center gap-2">
+        <SavedViewsMenu filters={filters} onChange={onChange} />
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handleRefresh}
+          title="Refresh data"
+        >
+          <RefreshCw className="h-4 w-4" />
+        </Button>
         <Button
           variant="outline"
           size="sm"
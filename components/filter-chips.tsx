@@ -0,0 +1,43 @@
+import { Button } from '@/components/ui/button'
+import { X } from 'lucide-react'
+
+export interface FilterChip {
+  key: string
+  label: string
+  onRemove: () => void
+}
+
+interface FilterChipsProps {
+  chips: FilterChip[]
+  onClearAll?: () => void
+}
+
+export function FilterChips({ chips, onClearAll }: FilterChipsProps) {
+  if (chips.length === 0) return null
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {chips.map((chip) => (
+        <span
+          key={chip.key}
+          className="inline-flex items-center gap-1 rounded-full border bg-muted/50 pl-3 pr-1 py-0.5 text-xs"
+        >
+          {chip.label}
+          <button
+            type="button"
+            onClick={chip.onRemove}
+            className="rounded-full p-0.5 hover:bg-accent"
+            aria-label={`Remove filter ${chip.label}`}
+          >
+            <X className="h-3 w-3" />
+          </button>
+        </span>
+      ))}
+      {onClearAll && chips.length > 1 && (
+        <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={onClearAll}>
+          Clear all
+        </Button>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,297 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { format, parseISO } from 'date-fns'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { PIIValue, PIIRevealButton } from '@/components/pii-value'
+import { getLeadsWithAppointments, lookupCallRail } from '@/lib/api-client'
+import { getErrorMessage, isAbortError } from '@/lib/api-error'
+import { getMatchType, MATCH_TYPE_LABELS } from '@/lib/matching'
+import { zonedNow } from '@/lib/timezone'
+import { useTimezone } from '@/lib/use-timezone'
+import { formatDateTime } from '@/lib/utils'
+import type { CallRailLookupResponse, Lead, LeadWithAppointment } from '@/lib/types'
+import { Phone, FileText, ExternalLink, Loader2 } from 'lucide-react'
+
+const CLICK_ID_FIELDS: { key: keyof Lead; label: string }[] = [
+  { key: 'gclid', label: 'Google Click ID (GCLID)' },
+  { key: 'gbraid', label: 'Google App Click ID (GBRAID)' },
+  { key: 'wbraid', label: 'Google Web Click ID (WBRAID)' },
+  { key: 'msclkid', label: 'Microsoft Click ID (MSCLKID)' },
+  { key: 'fbclid', label: 'Facebook Click ID (FBCLID)' },
+]
+
+interface LeadDetailDrawerProps {
+  lead: Lead | null
+  lookforwardDays?: number
+  onClose: () => void
+}
+
+function DetailField({
+  label,
+  value,
+  mono = false,
+  pii,
+}: {
+  label: string
+  value?: string | number | boolean | null
+  mono?: boolean
+  // Contact field to show through PIIValue, with the record's pii_token
+  pii?: { field: string; token?: string }
+}) {
+  if (value === undefined || value === null || value === '') return null
+
+  return (
+    <div className="space-y-1">
+      <p className="text-sm text-muted-foreground">{label}</p>
+      <p className={mono ? 'font-mono text-xs break-all' : 'text-sm'}>
+        {pii && typeof value === 'string' ? (
+          <PIIValue field={pii.field} value={value} token={pii.token} />
+        ) : typeof value === 'boolean' ? (
+          value ? 'Yes' : 'No'
+        ) : (
+          value
+        )}
+      </p>
+    </div>
+  )
+}
+
+function DetailLink({ label, href }: { label: string; href?: string }) {
+  if (!href) return null
+
+  return (
+    <div className="space-y-1 md:col-span-2">
+      <p className="text-sm text-muted-foreground">{label}</p>
+      <a
+        href={href}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="text-sm text-primary hover:underline flex items-center gap-1 break-all"
+      >
+        {href}
+        <ExternalLink className="h-3 w-3 shrink-0" />
+      </a>
+    </div>
+  )
+}
+
+export function LeadDetailDrawer({ lead, lookforwardDays, onClose }: LeadDetailDrawerProps) {
+  // Dates follow the lead's brand, so its day matches the brand's reports
+  const timeZone = useTimezone(lead?.brand)
+  const leadDay = lead ? format(zonedNow(timeZone, parseISO(lead.timestamp)), 'yyyy-MM-dd') : undefined
+  const [callRail, setCallRail] = useState<CallRailLookupResponse | null>(null)
+  const [callRailLoading, setCallRailLoading] = useState(false)
+  const [match, setMatch] = useState<LeadWithAppointment | null>(null)
+  const [matchLoading, setMatchLoading] = useState(false)
+
+  // CallRail attribution for call leads; a masked phone can't be looked up
+  useEffect(() => {
+    setCallRail(null)
+    if (!lead || lead.type !== 'call' || !lead.phone || lead.pii_token) return
+
+    const controller = new AbortController()
+    setCallRailLoading(true)
+    lookupCallRail({ phoneNumber: lead.phone }, { signal: controller.signal })
+      .then(setCallRail)
+      .catch((err) => {
+        if (isAbortError(err)) return
+        setCallRail({
+          success: false,
+          error: getErrorMessage(err, 'Failed to lookup phone number'),
+        })
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setCallRailLoading(false)
+      })
+
+    return () => controller.abort()
+  }, [lead])
+
+  // Matched ServiceTitan appointment, looked up for the lead's own day in the brand's timezone
+  useEffect(() => {
+    setMatch(null)
+    if (!lead || !leadDay) return
+
+    const controller = new AbortController()
+    setMatchLoading(true)
+    getLeadsWithAppointments({
+      brand: lead.brand,
+      start: leadDay,
+      end: leadDay,
+      lookforward_days: lookforwardDays,
+    }, { signal: controller.signal })
+      .then((response) => {
+        setMatch(response.data.matches.find((m) => m.lead.id === lead.id) || null)
+      })
+      .catch((err) => {
+        if (isAbortError(err)) return
+        console.error('Failed to fetch lead match:', err)
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setMatchLoading(false)
+      })
+
+    return () => controller.abort()
+  }, [lead, leadDay, lookforwardDays])
+
+  const attribution = callRail?.success ? callRail.data?.attribution : undefined
+  const appointment = match?.matched ? match.appointment : undefined
+  const matchType = match ? getMatchType(match) : undefined
+  const hasClickIds = lead ? CLICK_ID_FIELDS.some(({ key }) => lead[key]) : false
+
+  return (
+    <Dialog open={lead !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="left-auto right-0 top-0 h-full max-w-xl translate-x-0 translate-y-0 overflow-y-auto content-start sm:rounded-none">
+        {lead && (
+          <>
+            <DialogHeader>
+              <DialogTitle className="flex items-center gap-2">
+                {lead.type === 'call' ? (
+                  <Phone className="h-5 w-5 text-blue-500" />
+                ) : (
+                  <FileText className="h-5 w-5 text-green-500" />
+                )}
+                {lead.name ? (
+                  <PIIValue field="name" value={lead.name} token={lead.pii_token} />
+                ) : lead.phone ? (
+                  <PIIValue field="phone" value={lead.phone} token={lead.pii_token} />
+                ) : lead.email ? (
+                  <PIIValue field="email" value={lead.email} token={lead.pii_token} />
+                ) : (
+                  'Lead'
+                )}
+                <PIIRevealButton token={lead.pii_token} />
+              </DialogTitle>
+              <DialogDescription>
+                {lead.type === 'call' ? 'Call' : 'Form'} lead · {formatDateTime(lead.timestamp, timeZone)}
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-6">
+              {/* Lead Details */}
+              <div>
+                <h3 className="font-semibold text-lg mb-3">Lead Details</h3>
+                <div className="grid gap-4 md:grid-cols-2">
+                  <DetailField label="Lead ID" value={lead.id} mono />
+                  <DetailField label="Brand" value={lead.brand} />
+                  <DetailField label="Name" value={lead.name} pii={{ field: 'name', token: lead.pii_token }} />
+                  <DetailField label="Phone" value={lead.phone} pii={{ field: 'phone', token: lead.pii_token }} />
+                  <DetailField label="Email" value={lead.email} pii={{ field: 'email', token: lead.pii_token }} />
+                  <DetailField label="First Call" value={lead.first_call} />
+                  <DetailField label="Location" value={lead.location} />
+                  <DetailField label="Zip Code" value={lead.zip_code} />
+                </div>
+              </div>
+
+              {/* Source */}
+              <div>
+                <h3 className="font-semibold text-lg mb-3">Source</h3>
+                <div className="grid gap-4 md:grid-cols-2">
+                  <DetailField label="Source" value={lead.source} />
+                  <DetailField label="Source Name" value={lead.source_name} />
+                  <DetailField label="UTM Source" value={lead.utm_source} />
+                  <DetailField label="UTM Medium" value={lead.utm_medium} />
+                  <DetailField label="UTM Campaign" value={lead.utm_campaign} />
+                </div>
+              </div>
+
+              {/* Click IDs */}
+              <div>
+                <h3 className="font-semibold text-lg mb-3">Click IDs</h3>
+                {hasClickIds ? (
+                  <div className="grid gap-4">
+                    {CLICK_ID_FIELDS.map(({ key, label }) => (
+                      <DetailField key={key} label={label} value={lead[key] as string | undefined} mono />
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-sm text-muted-foreground">No click IDs captured</p>
+                )}
+              </div>
+
+              {/* CallRail Attribution */}
+              {lead.type === 'call' && (
+                <div>
+                  <h3 className="font-semibold text-lg mb-3">CallRail Attribution</h3>
+                  {callRailLoading ? (
+                    <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                      Looking up call...
+                    </div>
+                  ) : callRail?.success && callRail.data ? (
+                    <div className="grid gap-4 md:grid-cols-2">
+                      <DetailField label="Tracking Number" value={callRail.data.call.tracking_phone_number} />
+                      <DetailField label="Tracking Source" value={callRail.data.call.formatted_tracking_source} />
+                      <DetailField label="Answered" value={callRail.data.call.answered} />
+                      <DetailField label="Duration" value={`${callRail.data.call.duration}s`} />
+                      <DetailField label="UTM Source" value={attribution?.utm_source} />
+                      <DetailField label="UTM Medium" value={attribution?.utm_medium} />
+                      <DetailField label="UTM Campaign" value={attribution?.utm_campaign} />
+                      <DetailField label="UTM Content" value={attribution?.utm_content} />
+                      <DetailField label="UTM Term" value={attribution?.utm_term} />
+                      <DetailField label="Google Click ID" value={attribution?.gclid} mono />
+                      <DetailField label="Facebook Click ID" value={attribution?.fbclid} mono />
+                      <DetailField label="Microsoft Click ID" value={attribution?.msclkid} mono />
+                      <DetailLink label="Landing Page" href={attribution?.landing_page_url} />
+                      <DetailLink label="Referrer" href={attribution?.referring_url} />
+                    </div>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">
+                      {callRail?.error || callRail?.message || 'No CallRail data for this number'}
+                    </p>
+                  )}
+                </div>
+              )}
+
+              {/* ServiceTitan Appointment */}
+              <div>
+                <h3 className="flex items-center gap-2 font-semibold text-lg mb-3">
+                  ServiceTitan Appointment
+                  <PIIRevealButton token={appointment?.pii_token} />
+                </h3>
+                {matchLoading ? (
+                  <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                    Finding appointment...
+                  </div>
+                ) : appointment ? (
+                  <div className="grid gap-4 md:grid-cols-2">
+                    <DetailField label="Job Number" value={appointment.job_number} mono />
+                    <DetailField label="Created" value={formatDateTime(appointment.created_on, timeZone)} />
+                    <DetailField label="Job Status" value={appointment.job_status} />
+                    <DetailField
+                      label="Customer"
+                      value={appointment.customer_name}
+                      pii={{ field: 'customer_name', token: appointment.pii_token }}
+                    />
+                    <DetailField label="Customer ID" value={appointment.customer_id} mono />
+                    <DetailField label="Matched By" value={matchType && MATCH_TYPE_LABELS[matchType]} />
+                    <DetailField label="Match Score" value={match?.match_score?.toFixed(2)} />
+                    <DetailField
+                      label="Address"
+                      value={appointment.address}
+                      pii={{ field: 'address', token: appointment.pii_token }}
+                    />
+                    <DetailField
+                      label="City"
+                      value={[appointment.city, appointment.state, appointment.zip].filter(Boolean).join(', ')}
+                    />
+                  </div>
+                ) : (
+                  <p className="text-sm text-muted-foreground">No matched appointment</p>
+                )}
+              </div>
+            </div>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
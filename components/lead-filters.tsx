@@ -0,0 +1,198 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import type { FilterChip } from '@/components/filter-chips'
+import type { LeadFilters } from '@/lib/types'
+import { Filter, Search } from 'lucide-react'
+
+const ANY = 'any'
+
+type TextFilterKey = 'utm_source' | 'utm_medium' | 'utm_campaign' | 'zip_code'
+
+const TEXT_FILTERS: { key: TextFilterKey; label: string }[] = [
+  { key: 'utm_source', label: 'UTM Source' },
+  { key: 'utm_medium', label: 'UTM Medium' },
+  { key: 'utm_campaign', label: 'UTM Campaign' },
+  { key: 'zip_code', label: 'Zip Code' },
+]
+
+interface LeadFilterControlsProps {
+  value: LeadFilters
+  onChange: (value: LeadFilters) => void
+}
+
+function booleanToSelect(value?: boolean): string {
+  return value === undefined ? ANY : String(value)
+}
+
+function selectToBoolean(value: string): boolean | undefined {
+  return value === ANY ? undefined : value === 'true'
+}
+
+export function LeadFilterControls({ value, onChange }: LeadFilterControlsProps) {
+  const [search, setSearch] = useState(value.search || '')
+  const [draft, setDraft] = useState<LeadFilters>(value)
+  const [open, setOpen] = useState(false)
+
+  // Keep local inputs in sync when filters change elsewhere (chips, URL)
+  useEffect(() => {
+    setSearch(value.search || '')
+  }, [value.search])
+
+  useEffect(() => {
+    if (open) setDraft(value)
+  }, [open, value])
+
+  // Debounce free-text search so typing doesn't fire a request per keystroke
+  useEffect(() => {
+    const trimmed = search.trim()
+    if (trimmed === (value.search || '')) return
+
+    const timeout = setTimeout(() => {
+      onChange({ ...value, search: trimmed || undefined })
+    }, 400)
+    return () => clearTimeout(timeout)
+  }, [search, value, onChange])
+
+  const activeCount = [
+    ...TEXT_FILTERS.map(({ key }) => value[key]),
+    value.first_call,
+    value.has_click_id,
+  ].filter((v) => v !== undefined).length
+
+  const handleApply = () => {
+    const next: LeadFilters = { ...value }
+    for (const { key } of TEXT_FILTERS) {
+      next[key] = draft[key]?.trim() || undefined
+    }
+    next.first_call = draft.first_call
+    next.has_click_id = draft.has_click_id
+    onChange(next)
+    setOpen(false)
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+        <Input
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search name, phone, email"
+          className="w-[260px] pl-9"
+        />
+      </div>
+
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button variant="outline" size="sm" className="h-10">
+            <Filter className="h-4 w-4" />
+            Filters
+            {activeCount > 0 && (
+              <span className="rounded-full bg-primary px-1.5 text-xs text-primary-foreground">
+                {activeCount}
+              </span>
+            )}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-80" align="start">
+          <div className="grid gap-3">
+            {TEXT_FILTERS.map(({ key, label }) => (
+              <div key={key} className="grid gap-1.5">
+                <Label htmlFor={`lead-filter-${key}`}>{label}</Label>
+                <Input
+                  id={`lead-filter-${key}`}
+                  value={draft[key] || ''}
+                  onChange={(e) => setDraft({ ...draft, [key]: e.target.value })}
+                />
+              </div>
+            ))}
+            <div className="grid gap-1.5">
+              <Label>First Call</Label>
+              <Select
+                value={booleanToSelect(draft.first_call)}
+                onValueChange={(v) => setDraft({ ...draft, first_call: selectToBoolean(v) })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>Any</SelectItem>
+                  <SelectItem value="true">First-time calls</SelectItem>
+                  <SelectItem value="false">Repeat calls</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid gap-1.5">
+              <Label>Click ID</Label>
+              <Select
+                value={booleanToSelect(draft.has_click_id)}
+                onValueChange={(v) => setDraft({ ...draft, has_click_id: selectToBoolean(v) })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>Any</SelectItem>
+                  <SelectItem value="true">Has a click ID</SelectItem>
+                  <SelectItem value="false">No click ID</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <Button size="sm" onClick={handleApply}>
+              Apply Filters
+            </Button>
+          </div>
+        </PopoverContent>
+      </Popover>
+    </div>
+  )
+}
+
+/**
+ * Chips describing the applied lead filters, each removable on its own
+ */
+export function getLeadFilterChips(
+  value: LeadFilters,
+  onChange: (value: LeadFilters) => void
+): FilterChip[] {
+  const remove = (key: keyof LeadFilters) => () => onChange({ ...value, [key]: undefined })
+  const chips: FilterChip[] = []
+
+  if (value.search) {
+    chips.push({ key: 'search', label: `Search: ${value.search}`, onRemove: remove('search') })
+  }
+  for (const { key, label } of TEXT_FILTERS) {
+    const filterValue = value[key]
+    if (filterValue) {
+      chips.push({ key, label: `${label}: ${filterValue}`, onRemove: remove(key) })
+    }
+  }
+  if (value.first_call !== undefined) {
+    chips.push({
+      key: 'first_call',
+      label: value.first_call ? 'First-time calls' : 'Repeat calls',
+      onRemove: remove('first_call'),
+    })
+  }
+  if (value.has_click_id !== undefined) {
+    chips.push({
+      key: 'has_click_id',
+      label: value.has_click_id ? 'Has click ID' : 'No click ID',
+      onRemove: remove('has_click_id'),
+    })
+  }
+
+  return chips
+}
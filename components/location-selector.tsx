@@ -0,0 +1,120 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { getBrands } from '@/lib/api-client'
+import { isAbortError } from '@/lib/api-error'
+import type { BrandLocation } from '@/lib/types'
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectSeparator,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+
+const ALL_LOCATIONS = '__all__'
+
+interface LocationSelectorProps {
+  brand: string
+  location?: string
+  market?: string
+  onChange: (selection: { location?: string; market?: string }) => void
+}
+
+export function LocationSelector({ brand, location, market, onChange }: LocationSelectorProps) {
+  const [locations, setLocations] = useState<BrandLocation[]>([])
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    const controller = new AbortController()
+
+    const fetchLocations = async () => {
+      try {
+        setLoading(true)
+        const response = await getBrands(true, { signal: controller.signal })
+        const config = response.brands.find((b) => b.shortcode === brand)
+        setLocations(config?.locations || [])
+      } catch (err) {
+        if (isAbortError(err)) return
+        console.error('Error fetching locations:', err)
+        setLocations([])
+      } finally {
+        if (!controller.signal.aborted) setLoading(false)
+      }
+    }
+
+    fetchLocations()
+    return () => controller.abort()
+  }, [brand])
+
+  // Group locations under their market, markets sorted alphabetically
+  const markets = Array.from(new Set(locations.map((loc) => loc.market).filter(Boolean))).sort()
+
+  const value = location
+    ? `location:${location}`
+    : market
+      ? `market:${market}`
+      : ALL_LOCATIONS
+
+  const handleChange = (next: string) => {
+    if (next.startsWith('location:')) {
+      onChange({ location: next.slice('location:'.length) })
+    } else if (next.startsWith('market:')) {
+      onChange({ market: next.slice('market:'.length) })
+    } else {
+      onChange({})
+    }
+  }
+
+  if (!loading && locations.length === 0 && !location && !market) {
+    return null
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      <span className="text-sm font-medium">Location:</span>
+      <Select value={value} onValueChange={handleChange} disabled={loading}>
+        <SelectTrigger className="w-[220px]">
+          <SelectValue placeholder="All locations" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALL_LOCATIONS}>All locations</SelectItem>
+          {/* Keep a URL-provided selection visible even if the brand no longer lists it */}
+          {location && !locations.some((loc) => loc.location_name === location) && (
+            <SelectItem value={`location:${location}`}>{location}</SelectItem>
+          )}
+          {market && !markets.includes(market) && (
+            <SelectItem value={`market:${market}`}>{market} (market)</SelectItem>
+          )}
+          {locations
+            .filter((loc) => !loc.market)
+            .map((loc) => (
+              <SelectItem key={loc.location_name} value={`location:${loc.location_name}`}>
+                {loc.location_name}
+              </SelectItem>
+            ))}
+          {markets.map((marketName) => (
+            <SelectGroup key={marketName}>
+              <SelectSeparator />
+              <SelectLabel>{marketName}</SelectLabel>
+              <SelectItem value={`market:${marketName}`}>All of {marketName}</SelectItem>
+              {locations
+                .filter((loc) => loc.market === marketName)
+                .map((loc) => (
+                  <SelectItem key={loc.location_name} value={`location:${loc.location_name}`}>
+                    {loc.location_name}
+                    <span className="ml-1 text-xs text-muted-foreground">
+                      {loc.city}, {loc.state}
+                    </span>
+                  </SelectItem>
+                ))}
+            </SelectGroup>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  )
+}
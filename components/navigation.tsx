@@ -1,12 +1,35 @@
 "use client";
 
+import { useEffect, useState } from "react";
+import Image from "next/image";
 import Link from "next/link";
-import { usePathname, useSearchParams, useRouter } from "next/navigation";
+import { usePathname, useSearchParams } from "next/navigation";
 import { cn } from "@/lib/utils";
 import { ThemeToggle } from "@/components/theme-toggle";
+import { PresentationModeToggle } from "@/components/presentation-mode-toggle";
+import { TimezoneSelector } from "@/components/timezone-selector";
 import { Button } from "@/components/ui/button";
-import { createBrowserClient } from "@supabase/ssr";
-import { LayoutDashboard, LogOut } from "lucide-react";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { useAuth } from "@/components/auth/AuthProvider";
+import { getNavigationQuery } from "@/lib/url-params";
+import { EVERY_BRAND } from "@/lib/access";
+import { useCan } from "@/lib/use-access";
+import {
+  LayoutDashboard,
+  LogOut,
+  Users,
+  Calendar,
+  Link2,
+  PieChart,
+  Search,
+  ScrollText,
+  Menu,
+  X,
+} from "lucide-react";
 
 const navItems = [
   {
@@ -14,65 +37,106 @@ const navItems = [
     label: "Dashboard",
     icon: LayoutDashboard,
   },
+  {
+    href: "/leads",
+    label: "Leads",
+    icon: Users,
+  },
+  {
+    href: "/appointments",
+    label: "Appointments",
+    icon: Calendar,
+  },
+  {
+    href: "/matches",
+    label: "Matches",
+    icon: Link2,
+  },
+  {
+    href: "/attribution",
+    label: "Attribution",
+    icon: PieChart,
+  },
+  {
+    href: "/lookup",
+    label: "Lookup",
+    icon: Search,
+  },
+  {
+    href: "/audit",
+    label: "Audit Log",
+    icon: ScrollText,
+  },
 ];
 
+/**
+ * A nav item is active on its own route and any nested route beneath it
+ * The Dashboard only matches exactly, otherwise it would match everything
+ */
+function isActivePath(pathname: string, href: string): boolean {
+  if (href === "/") return pathname === "/";
+  return pathname === href || pathname.startsWith(`${href}/`);
+}
+
+function getInitials(name: string): string {
+  const parts = name.split(/[\s@._-]+/).filter(Boolean);
+  return parts
+    .slice(0, 2)
+    .map((part) => part[0].toUpperCase())
+    .join("");
+}
+
 export function Navigation() {
   const pathname = usePathname();
   const searchParams = useSearchParams();
-  const router = useRouter();
-
-  // Preserve current filters when navigating
-  const queryString = searchParams.toString();
-  const preservedQuery = queryString ? `?${queryString}` : "";
-
-  const handleLogout = async () => {
-    const authDomain =
-      process.env.NEXT_PUBLIC_AUTH_DOMAIN ||
-      "https://auth.vanterrafoundations.com";
-    const supabase = createBrowserClient(
-      process.env.NEXT_PUBLIC_SUPABASE_URL!,
-      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
-    );
-
-    try {
-      // 1. Clear local storage first
-      if (typeof window !== "undefined") {
-        localStorage.clear();
-        sessionStorage.clear();
-      }
+  const { user, signOut } = useAuth();
+  const [mobileOpen, setMobileOpen] = useState(false);
+  // Phone lookup searches every brand, so it needs PII access to all of them
+  const canLookup = useCan(EVERY_BRAND, "view_pii");
+  const canAudit = useCan(EVERY_BRAND, "view_audit_log");
+  const visibleItems = navItems.filter(
+    (item) =>
+      (item.href !== "/lookup" || canLookup) &&
+      (item.href !== "/audit" || canAudit),
+  );
 
-      // 2. Call local logout endpoint to clear reporting app cookies
-      try {
-        await fetch("/api/logout", {
-          method: "POST",
-          credentials: "include",
-        });
-      } catch (error) {
-        console.error("Local logout failed:", error);
-      }
+  // Close the mobile menu after navigating
+  useEffect(() => {
+    setMobileOpen(false);
+  }, [pathname]);
 
-      // 3. Try to clear wildcard cookies via auth domain
-      try {
-        await fetch(`${authDomain}/api/logout`, {
-          method: "POST",
-          credentials: "include",
-          mode: "no-cors", // Prevent CORS errors
-        });
-      } catch (error) {
-        console.log("Wildcard cookie clear attempted");
-      }
+  const displayName =
+    (user?.user_metadata?.full_name as string | undefined) ||
+    (user?.user_metadata?.name as string | undefined) ||
+    user?.email ||
+    "";
+  const avatarUrl = user?.user_metadata?.avatar_url as string | undefined;
 
-      // 4. Sign out from Supabase client
-      await supabase.auth.signOut();
+  const renderLinks = (mobile: boolean) =>
+    visibleItems.map((item) => {
+      const Icon = item.icon;
+      const isActive = isActivePath(pathname, item.href);
+      // Preserve current filters when navigating
+      const href = `${item.href}${getNavigationQuery(searchParams, item.href)}`;
 
-      // 5. Full page redirect to auth domain to complete logout
-      window.location.href = `${authDomain}/login?redirected_from=reporting`;
-    } catch (error) {
-      console.error("Logout failed:", error);
-      // Still redirect even if logout fails
-      window.location.href = `${authDomain}/login`;
-    }
-  };
+      return (
+        <Link
+          key={item.href}
+          href={href}
+          aria-current={isActive ? "page" : undefined}
+          className={cn(
+            "flex items-center gap-2 px-4 py-2 rounded-md text-sm font-medium transition-colors",
+            mobile && "w-full",
+            isActive
+              ? "bg-primary text-primary-foreground"
+              : "text-muted-foreground hover:text-foreground hover:bg-accent",
+          )}
+        >
+          <Icon className="h-4 w-4" />
+          {item.label}
+        </Link>
+      );
+    });
 
   return (
     <nav className="border-b bg-card">
@@ -83,38 +147,87 @@ export function Navigation() {
               <LayoutDashboard className="h-6 w-6" />
               <span className="font-bold text-lg">Vanterra Reporting</span>
             </div>
-            <div className="flex gap-1">
-              {navItems.map((item) => {
-                const Icon = item.icon;
-                const isActive = pathname === item.href;
-                const href = `${item.href}${preservedQuery}`;
-
-                return (
-                  <Link
-                    key={item.href}
-                    href={href}
-                    className={cn(
-                      "flex items-center gap-2 px-4 py-2 rounded-md text-sm font-medium transition-colors",
-                      isActive
-                        ? "bg-primary text-primary-foreground"
-                        : "text-muted-foreground hover:text-foreground hover:bg-accent",
-                    )}
-                  >
-                    <Icon className="h-4 w-4" />
-                    {item.label}
-                  </Link>
-                );
-              })}
-            </div>
+            <div className="hidden lg:flex gap-1">{renderLinks(false)}</div>
           </div>
           <div className="flex items-center gap-2">
+            <PresentationModeToggle />
             <ThemeToggle />
-            <Button variant="ghost" size="sm" onClick={handleLogout}>
-              <LogOut className="h-4 w-4 mr-2" />
-              Logout
+            {user ? (
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="rounded-full"
+                    title={displayName}
+                  >
+                    {avatarUrl ? (
+                      // The avatar host depends on the SSO provider, so skip the optimizer
+                      <Image
+                        src={avatarUrl}
+                        alt=""
+                        width={32}
+                        height={32}
+                        unoptimized
+                        className="h-8 w-8 rounded-full"
+                      />
+                    ) : (
+                      <span className="flex h-8 w-8 items-center justify-center rounded-full bg-primary text-xs font-semibold text-primary-foreground">
+                        {getInitials(displayName)}
+                      </span>
+                    )}
+                    <span className="sr-only">Open profile menu</span>
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-64 p-2" align="end">
+                  <div className="px-2 py-1.5">
+                    <div className="text-sm font-medium truncate">
+                      {displayName}
+                    </div>
+                    {user.email && user.email !== displayName && (
+                      <div className="text-xs text-muted-foreground truncate">
+                        {user.email}
+                      </div>
+                    )}
+                  </div>
+                  <div className="my-1 h-px bg-muted" />
+                  <TimezoneSelector />
+                  <div className="my-1 h-px bg-muted" />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="w-full justify-start"
+                    onClick={signOut}
+                  >
+                    <LogOut className="h-4 w-4" />
+                    Logout
+                  </Button>
+                </PopoverContent>
+              </Popover>
+            ) : (
+              <Button variant="ghost" size="sm" onClick={signOut}>
+                <LogOut className="h-4 w-4 mr-2" />
+                Logout
+              </Button>
+            )}
+            <Button
+              variant="ghost"
+              size="icon"
+              className="lg:hidden"
+              onClick={() => setMobileOpen((open) => !open)}
+              aria-expanded={mobileOpen}
+              aria-controls="mobile-nav"
+            >
+              {mobileOpen ? <X className="h-5 w-5" /> : <Menu className="h-5 w-5" />}
+              <span className="sr-only">Toggle navigation menu</span>
             </Button>
           </div>
         </div>
+        {mobileOpen && (
+          <div id="mobile-nav" className="lg:hidden flex flex-col gap-1 pb-4">
+            {renderLinks(true)}
+          </div>
+        )}
       </div>
     </nav>
   );
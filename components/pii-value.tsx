@@ -0,0 +1,63 @@
+'use client'
+
+import { Eye, Loader2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { getPIIKind, maskPII } from '@/lib/pii'
+import { usePresentationMode, useRevealedPII } from '@/lib/use-pii'
+import { cn } from '@/lib/utils'
+
+interface PIIValueProps {
+  field: string
+  value?: string
+  // The row's pii_token when the server masked it
+  token?: string
+}
+
+/**
+ * A contact field as this user may see it: masked by the server until
+ * revealed, and always masked in presentation mode
+ */
+export function PIIValue({ field, value, token }: PIIValueProps) {
+  const presenting = usePresentationMode()
+  const { values } = useRevealedPII(token)
+
+  if (!value) return null
+  if (presenting) {
+    // Server-masked values are already safe to show
+    return <>{token ? value : maskPII(getPIIKind(field), value)}</>
+  }
+  return <>{values?.[field] ?? value}</>
+}
+
+interface PIIRevealButtonProps {
+  token?: string
+  className?: string
+}
+
+/**
+ * Reveals every masked field of a row; each reveal is logged server side
+ */
+export function PIIRevealButton({ token, className }: PIIRevealButtonProps) {
+  const presenting = usePresentationMode()
+  const { values, reveal, revealing, error } = useRevealedPII(token)
+
+  if (!token || values || presenting) return null
+
+  return (
+    <Button
+      variant="ghost"
+      size="icon"
+      className={cn('h-6 w-6', error && 'text-destructive', className)}
+      title={error ?? 'Reveal contact details (logged)'}
+      disabled={revealing}
+      onClick={(e) => {
+        // Rows open the lead drawer on click
+        e.stopPropagation()
+        reveal()
+      }}
+    >
+      {revealing ? <Loader2 className="animate-spin" /> : <Eye />}
+      <span className="sr-only">Reveal contact details</span>
+    </Button>
+  )
+}
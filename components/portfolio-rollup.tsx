@@ -0,0 +1,205 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { format } from 'date-fns'
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { MetricCard } from '@/components/metric-card'
+import {
+  aggregateSummaries,
+  conversionRate,
+  getPortfolioSummaries,
+  type BrandSummary,
+} from '@/lib/portfolio'
+import { getErrorMessage, isAbortError } from '@/lib/api-error'
+import { formatPercent } from '@/lib/utils'
+import type { Filters } from '@/lib/types'
+import { Calendar, Target, Users, Building2, AlertCircle } from 'lucide-react'
+
+interface PortfolioRollupProps {
+  filters: Filters
+}
+
+export function PortfolioRollup({ filters }: PortfolioRollupProps) {
+  const [rows, setRows] = useState<BrandSummary[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const controller = new AbortController()
+
+    const fetchData = async () => {
+      if (!filters.dateRange.from || !filters.dateRange.to || !filters.brands) return
+
+      setLoading(true)
+      setError(null)
+      try {
+        const response = await getPortfolioSummaries({
+          brands: filters.brands,
+          start: format(filters.dateRange.from, 'yyyy-MM-dd'),
+          end: format(filters.dateRange.to, 'yyyy-MM-dd'),
+        }, { signal: controller.signal })
+        setRows(response)
+      } catch (err) {
+        if (isAbortError(err)) return
+        setError(getErrorMessage(err, 'Failed to fetch portfolio metrics'))
+      } finally {
+        if (!controller.signal.aborted) setLoading(false)
+      }
+    }
+
+    fetchData()
+    return () => controller.abort()
+  }, [filters])
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-muted-foreground">Loading portfolio...</div>
+      </div>
+    )
+  }
+
+  if (error) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-destructive">Error: {error}</div>
+      </div>
+    )
+  }
+
+  const loaded = rows.filter((row) => row.summary !== null)
+  const totals = aggregateSummaries(loaded.map((row) => row.summary!))
+
+  const brandRows = loaded
+    .map((row) => {
+      const summary = row.summary!
+      return {
+        brand: row.brand,
+        name: row.name,
+        leads: summary.total_leads,
+        calls: summary.call_leads,
+        forms: summary.form_leads,
+        appointments: summary.leads_with_appointments,
+        rate: conversionRate(summary.leads_with_appointments, summary.total_leads),
+        callsRate: conversionRate(summary.call_leads_with_appointments, summary.call_leads),
+        formsRate: conversionRate(summary.form_leads_with_appointments, summary.form_leads),
+      }
+    })
+    .sort((a, b) => b.leads - a.leads)
+
+  const failed = rows.filter((row) => row.summary === null)
+
+  return (
+    <div className="space-y-6">
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+        <MetricCard
+          title="Brands"
+          value={loaded.length}
+          description={failed.length > 0 ? `${failed.length} failed to load` : 'In this roll-up'}
+          icon={<Building2 className="h-4 w-4 text-muted-foreground" />}
+        />
+        <MetricCard
+          title="Total Leads"
+          value={totals.total_leads.toLocaleString()}
+          description={`${totals.call_leads.toLocaleString()} calls · ${totals.form_leads.toLocaleString()} forms`}
+          icon={<Users className="h-4 w-4 text-muted-foreground" />}
+        />
+        <MetricCard
+          title="Appointments"
+          value={totals.leads_with_appointments.toLocaleString()}
+          description={`${totals.total_appointments_created_in_range.toLocaleString()} created in range`}
+          icon={<Calendar className="h-4 w-4 text-muted-foreground" />}
+        />
+        <MetricCard
+          title="Conversion Rate"
+          value={formatPercent(totals.conversion_rate)}
+          description={`Calls: ${formatPercent(totals.calls_conversion_rate)} · Forms: ${formatPercent(totals.forms_conversion_rate)}`}
+          icon={<Target className="h-4 w-4 text-muted-foreground" />}
+        />
+      </div>
+
+      {failed.length > 0 && (
+        <div className="flex items-center gap-2 text-sm text-destructive">
+          <AlertCircle className="h-4 w-4" />
+          <span>
+            Excluded from totals: {failed.map((row) => row.name).join(', ')}
+          </span>
+        </div>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Leads & Appointments by Brand</CardTitle>
+          <CardDescription>Volume across the selected brands</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ResponsiveContainer width="100%" height={300}>
+            <BarChart data={brandRows}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="name" tick={{ fontSize: 12 }} />
+              <YAxis />
+              <Tooltip />
+              <Legend />
+              <Bar dataKey="leads" name="Leads" fill="#3b82f6" />
+              <Bar dataKey="appointments" name="Appointments" fill="#10b981" />
+            </BarChart>
+          </ResponsiveContainer>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Brand Comparison</CardTitle>
+          <CardDescription>Conversion rates side by side</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="rounded-md border">
+            <table className="w-full text-sm">
+              <thead className="bg-muted/50">
+                <tr className="border-b">
+                  <th className="text-left p-4 font-medium">Brand</th>
+                  <th className="text-right p-4 font-medium">Leads</th>
+                  <th className="text-right p-4 font-medium">Calls</th>
+                  <th className="text-right p-4 font-medium">Forms</th>
+                  <th className="text-right p-4 font-medium">Appointments</th>
+                  <th className="text-right p-4 font-medium">Conversion Rate</th>
+                  <th className="text-right p-4 font-medium">Calls Rate</th>
+                  <th className="text-right p-4 font-medium">Forms Rate</th>
+                </tr>
+              </thead>
+              <tbody>
+                {brandRows.map((row) => (
+                  <tr key={row.brand} className="border-b hover:bg-muted/50">
+                    <td className="p-4 font-medium">{row.name}</td>
+                    <td className="p-4 text-right">{row.leads.toLocaleString()}</td>
+                    <td className="p-4 text-right">{row.calls.toLocaleString()}</td>
+                    <td className="p-4 text-right">{row.forms.toLocaleString()}</td>
+                    <td className="p-4 text-right">{row.appointments.toLocaleString()}</td>
+                    <td className="p-4 text-right">
+                      <span className={`font-medium ${row.rate >= 30 ? 'text-green-600' : row.rate >= 20 ? 'text-blue-600' : 'text-muted-foreground'}`}>
+                        {formatPercent(row.rate)}
+                      </span>
+                    </td>
+                    <td className="p-4 text-right">{formatPercent(row.callsRate)}</td>
+                    <td className="p-4 text-right">{formatPercent(row.formsRate)}</td>
+                  </tr>
+                ))}
+                <tr className="bg-muted/30 font-medium">
+                  <td className="p-4">Portfolio</td>
+                  <td className="p-4 text-right">{totals.total_leads.toLocaleString()}</td>
+                  <td className="p-4 text-right">{totals.call_leads.toLocaleString()}</td>
+                  <td className="p-4 text-right">{totals.form_leads.toLocaleString()}</td>
+                  <td className="p-4 text-right">{totals.leads_with_appointments.toLocaleString()}</td>
+                  <td className="p-4 text-right">{formatPercent(totals.conversion_rate)}</td>
+                  <td className="p-4 text-right">{formatPercent(totals.calls_conversion_rate)}</td>
+                  <td className="p-4 text-right">{formatPercent(totals.forms_conversion_rate)}</td>
+                </tr>
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,27 @@
+'use client'
+
+import { Presentation } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { setPresentationMode } from '@/lib/pii'
+import { usePresentationMode } from '@/lib/use-pii'
+
+/**
+ * Masks customer contact details everywhere, for screen-sharing
+ */
+export function PresentationModeToggle() {
+  const presenting = usePresentationMode()
+  const label = presenting ? 'Turn off presentation mode' : 'Turn on presentation mode'
+
+  return (
+    <Button
+      variant={presenting ? 'secondary' : 'ghost'}
+      size="icon"
+      title={label}
+      aria-pressed={presenting}
+      onClick={() => setPresentationMode(!presenting)}
+    >
+      <Presentation className="h-[1.2rem] w-[1.2rem]" />
+      <span className="sr-only">{label}</span>
+    </Button>
+  )
+}
@@ -0,0 +1,221 @@
+'use client'
+
+import { usePathname, useRouter } from 'next/navigation'
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import {
+  createSavedView,
+  deleteSavedView,
+  getSavedViews,
+  updateSavedView,
+} from '@/lib/api-client'
+import { getErrorMessage, isAbortError } from '@/lib/api-error'
+import {
+  MAX_VIEW_NAME_LENGTH,
+  SAVED_VIEW_PAGES,
+  getSavedViewURL,
+  isSavedViewPage,
+  rememberDefaultView,
+} from '@/lib/saved-views'
+import type { Filters, SavedView } from '@/lib/types'
+import { filtersToURLParams, urlParamsToFilters } from '@/lib/url-params'
+import { cn } from '@/lib/utils'
+import { Bookmark, Loader2, Star, Trash2 } from 'lucide-react'
+
+interface SavedViewsMenuProps {
+  filters: Filters
+  onChange: (filters: Filters) => void
+}
+
+/**
+ * The user's saved filter combinations: apply, save the current filters, pick a default
+ */
+export function SavedViewsMenu({ filters, onChange }: SavedViewsMenuProps) {
+  const router = useRouter()
+  const pathname = usePathname()
+  const [open, setOpen] = useState(false)
+  const [views, setViews] = useState<SavedView[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [name, setName] = useState('')
+  const [makeDefault, setMakeDefault] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Loaded on mount too, so the remembered default view stays current
+  useEffect(() => {
+    const controller = new AbortController()
+
+    const fetchViews = async () => {
+      try {
+        setLoading(true)
+        const response = await getSavedViews({ signal: controller.signal })
+        setViews(response.views)
+      } catch (err) {
+        if (isAbortError(err)) return
+        console.error('Error fetching saved views:', err)
+        setError(getErrorMessage(err, 'Failed to load saved views'))
+      } finally {
+        if (!controller.signal.aborted) setLoading(false)
+      }
+    }
+
+    fetchViews()
+    return () => controller.abort()
+  }, [])
+
+  const updateViews = (next: SavedView[]) => {
+    const sorted = [...next].sort((a, b) => a.name.localeCompare(b.name))
+    setViews(sorted)
+    rememberDefaultView(sorted)
+  }
+
+  // Only one view can be the default, so mirror the server clearing the others
+  const withView = (view: SavedView) =>
+    views
+      .filter((v) => v.id !== view.id)
+      .map((v) => (view.is_default ? { ...v, is_default: false } : v))
+      .concat(view)
+
+  const handleApply = (view: SavedView) => {
+    setOpen(false)
+    if (view.page === pathname) {
+      onChange(urlParamsToFilters(new URLSearchParams(view.query)))
+    } else {
+      router.push(getSavedViewURL(view))
+    }
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+    setError(null)
+    try {
+      const { view } = await createSavedView({
+        name: name.trim(),
+        page: pathname,
+        query: filtersToURLParams(filters).toString(),
+        is_default: makeDefault,
+      })
+      updateViews(withView(view))
+      setName('')
+      setMakeDefault(false)
+    } catch (err) {
+      console.error('Error saving view:', err)
+      setError(getErrorMessage(err, 'Failed to save view'))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleToggleDefault = async (view: SavedView) => {
+    setError(null)
+    try {
+      const response = await updateSavedView(view.id, { is_default: !view.is_default })
+      updateViews(withView(response.view))
+    } catch (err) {
+      console.error('Error updating view:', err)
+      setError(getErrorMessage(err, 'Failed to update view'))
+    }
+  }
+
+  const handleDelete = async (view: SavedView) => {
+    setError(null)
+    try {
+      await deleteSavedView(view.id)
+      updateViews(views.filter((v) => v.id !== view.id))
+    } catch (err) {
+      console.error('Error deleting view:', err)
+      setError(getErrorMessage(err, 'Failed to delete view'))
+    }
+  }
+
+  const canSave = isSavedViewPage(pathname) && name.trim().length > 0 && !saving
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" title="Saved views">
+          <Bookmark className="h-4 w-4" />
+          Views
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80" align="end">
+        <div className="space-y-3">
+          <div className="text-sm font-medium">Saved views</div>
+          {loading ? (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Loading views...
+            </div>
+          ) : views.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No saved views yet</p>
+          ) : (
+            <ul className="max-h-64 space-y-1 overflow-y-auto">
+              {views.map((view) => (
+                <li key={view.id} className="flex items-center gap-1">
+                  <button
+                    type="button"
+                    className="flex-1 truncate rounded px-2 py-1 text-left text-sm hover:bg-accent"
+                    onClick={() => handleApply(view)}
+                  >
+                    {view.name}
+                    {view.page !== pathname && (
+                      <span className="ml-1 text-xs text-muted-foreground">
+                        {SAVED_VIEW_PAGES[view.page] || view.page}
+                      </span>
+                    )}
+                  </button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleToggleDefault(view)}
+                    title={view.is_default ? 'Remove as default view' : 'Make default view'}
+                  >
+                    <Star className={cn('h-4 w-4', view.is_default && 'fill-current text-yellow-500')} />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleDelete(view)}
+                    title={`Delete ${view.name}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {isSavedViewPage(pathname) && (
+            <div className="grid gap-2 border-t pt-3">
+              <Label htmlFor="saved-view-name">Save current filters</Label>
+              <Input
+                id="saved-view-name"
+                value={name}
+                maxLength={MAX_VIEW_NAME_LENGTH}
+                onChange={(e) => setName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && canSave && handleSave()}
+                placeholder="View name"
+              />
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={makeDefault}
+                  onChange={(e) => setMakeDefault(e.target.checked)}
+                />
+                Open this view by default
+              </label>
+              <Button size="sm" onClick={handleSave} disabled={!canSave}>
+                {saving && <Loader2 className="h-4 w-4 animate-spin" />}
+                Save View
+              </Button>
+            </div>
+          )}
+          {error && <p className="text-xs text-destructive">{error}</p>}
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
@@ -0,0 +1,53 @@
+'use client'
+
+import { useSyncExternalStore } from 'react'
+import {
+  TIMEZONE_OPTIONS,
+  getUserTimezone,
+  setUserTimezone,
+  subscribeTimezones,
+} from '@/lib/timezone'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+
+// Select value for "no pinned timezone"
+const FOLLOW_BRAND = 'brand'
+
+/**
+ * Per-user timezone preference; by default dates follow each brand's timezone
+ */
+export function TimezoneSelector() {
+  const userTimezone = useSyncExternalStore(subscribeTimezones, getUserTimezone, () => null)
+  const browserTimezone = Intl.DateTimeFormat().resolvedOptions().timeZone
+
+  const options = TIMEZONE_OPTIONS.some((option) => option.value === browserTimezone)
+    ? TIMEZONE_OPTIONS
+    : [...TIMEZONE_OPTIONS, { value: browserTimezone, label: `${browserTimezone} (this device)` }]
+
+  return (
+    <div className="space-y-1 px-2 py-1.5">
+      <span className="text-xs font-medium text-muted-foreground">Timezone</span>
+      <Select
+        value={userTimezone || FOLLOW_BRAND}
+        onValueChange={(value) => setUserTimezone(value === FOLLOW_BRAND ? null : value)}
+      >
+        <SelectTrigger className="h-8 w-full text-sm">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={FOLLOW_BRAND}>Brand&apos;s timezone</SelectItem>
+          {options.map((option) => (
+            <SelectItem key={option.value} value={option.value}>
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  )
+}
@@ -0,0 +1,127 @@
+'use client'
+
+import { format, parseISO } from 'date-fns'
+import {
+  AreaChart,
+  Area,
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from 'recharts'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import type { MetricsTrend, TrendGranularity } from '@/lib/types'
+
+export const TREND_GRANULARITIES: { label: string; value: TrendGranularity }[] = [
+  { label: 'Daily', value: 'day' },
+  { label: 'Weekly', value: 'week' },
+  { label: 'Monthly', value: 'month' },
+]
+
+const PERIOD_FORMATS: Record<TrendGranularity, string> = {
+  day: 'MMM d',
+  week: "'Wk of' MMM d",
+  month: 'MMM yyyy',
+}
+
+interface TrendChartsProps {
+  trend: MetricsTrend | null
+  granularity: TrendGranularity
+  onGranularityChange: (granularity: TrendGranularity) => void
+}
+
+export function TrendCharts({ trend, granularity, onGranularityChange }: TrendChartsProps) {
+  const chartData = (trend?.data || []).map((point) => ({
+    period: format(parseISO(point.period_start), PERIOD_FORMATS[trend?.granularity || granularity]),
+    leads: point.total_leads,
+    calls: point.call_leads,
+    forms: point.form_leads,
+    appointments: point.leads_with_appointments,
+    rate: parseFloat(point.conversion_rate) || 0,
+  }))
+
+  const granularitySelect = (
+    <Select value={granularity} onValueChange={(value) => onGranularityChange(value as TrendGranularity)}>
+      <SelectTrigger className="w-[130px]">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {TREND_GRANULARITIES.map((option) => (
+          <SelectItem key={option.value} value={option.value}>
+            {option.label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+
+  return (
+    <div className="grid gap-4 md:grid-cols-2">
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle>Leads & Appointments</CardTitle>
+            <CardDescription>Volume over time</CardDescription>
+          </div>
+          {granularitySelect}
+        </CardHeader>
+        <CardContent>
+          {chartData.length === 0 ? (
+            <div className="flex items-center justify-center h-[300px] text-sm text-muted-foreground">
+              No trend data available
+            </div>
+          ) : (
+            <ResponsiveContainer width="100%" height={300}>
+              <AreaChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="period" tick={{ fontSize: 12 }} />
+                <YAxis />
+                <Tooltip />
+                <Legend />
+                <Area type="monotone" dataKey="calls" name="Calls" stackId="leads" stroke="#3b82f6" fill="#3b82f6" fillOpacity={0.3} />
+                <Area type="monotone" dataKey="forms" name="Forms" stackId="leads" stroke="#8b5cf6" fill="#8b5cf6" fillOpacity={0.3} />
+                <Area type="monotone" dataKey="appointments" name="Appointments" stroke="#10b981" fill="#10b981" fillOpacity={0.2} />
+              </AreaChart>
+            </ResponsiveContainer>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Conversion Rate Trend</CardTitle>
+          <CardDescription>Leads with appointments per period</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {chartData.length === 0 ? (
+            <div className="flex items-center justify-center h-[300px] text-sm text-muted-foreground">
+              No trend data available
+            </div>
+          ) : (
+            <ResponsiveContainer width="100%" height={300}>
+              <LineChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="period" tick={{ fontSize: 12 }} />
+                <YAxis unit="%" />
+                <Tooltip formatter={(value: number) => `${value.toFixed(1)}%`} />
+                <Legend />
+                <Line type="monotone" dataKey="rate" name="Conversion Rate" stroke="#f59e0b" strokeWidth={2} dot={false} />
+              </LineChart>
+            </ResponsiveContainer>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,36 @@
+import { TrendingUp, TrendingDown, Minus } from 'lucide-react'
+import { cn } from '@/lib/utils'
+
+interface TrendIndicatorProps {
+  value?: number
+  // Set when a decrease is the good direction (e.g. days to appointment)
+  inverse?: boolean
+  className?: string
+}
+
+export function TrendIndicator({ value, inverse = false, className }: TrendIndicatorProps) {
+  if (value === undefined || value === null || !isFinite(value)) return null
+
+  const rounded = Math.round(value * 10) / 10
+  const isGood = inverse ? rounded < 0 : rounded > 0
+  const isBad = inverse ? rounded > 0 : rounded < 0
+
+  const getTrendIcon = () => {
+    if (rounded > 0) return <TrendingUp className="h-4 w-4" />
+    if (rounded < 0) return <TrendingDown className="h-4 w-4" />
+    return <Minus className="h-4 w-4" />
+  }
+
+  const getTrendColor = () => {
+    if (isGood) return 'text-green-500'
+    if (isBad) return 'text-red-500'
+    return 'text-gray-500'
+  }
+
+  return (
+    <div className={cn('inline-flex items-center gap-1 text-xs', getTrendColor(), className)}>
+      {getTrendIcon()}
+      <span>{Math.abs(rounded).toFixed(1)}%</span>
+    </div>
+  )
+}
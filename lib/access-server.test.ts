@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest'
+import { EVERY_BRAND, type UserAccess } from './access'
+import { checkProxyAccess, filterResponseBody, needsResponseFilter } from './access-server'
+import { MOCK_BRANDS } from './mock-fixtures'
+
+const partner: UserAccess = {
+  grants: [
+    { brand: '58', role: 'analyst' },
+    { brand: '64', role: 'viewer' },
+  ],
+}
+
+const params = (query: string) => new URLSearchParams(query)
+
+describe('checkProxyAccess', () => {
+  it('allows reporting requests for granted brands only', () => {
+    expect(checkProxyAccess(partner, ['reporting', 'leads'], params('brand=58'))).toBeNull()
+    expect(checkProxyAccess(partner, ['reporting', 'leads'], params('brand=65'))).toMatch(/access/)
+    expect(checkProxyAccess(partner, ['reporting', 'leads'], params(''))).toBe('A brand is required')
+  })
+
+  it('leaves exports to roles that can export the brand', () => {
+    expect(checkProxyAccess(partner, ['reporting', 'leads'], params('brand=58&export=csv'))).toBeNull()
+    expect(checkProxyAccess(partner, ['reporting', 'leads'], params('brand=64&export=csv'))).toMatch(/analyst/)
+    expect(checkProxyAccess(partner, ['reporting', 'leads'], params('brand=64'))).toBeNull()
+  })
+
+  it('refuses users without any grants', () => {
+    expect(checkProxyAccess({ grants: [] }, ['brands'], params(''))).toMatch(/any brands/)
+  })
+
+  it('checks single brand lookups but leaves lists to the response filter', () => {
+    expect(checkProxyAccess(partner, ['brands', '65'], params(''))).toMatch(/access/)
+    expect(checkProxyAccess(partner, ['brands'], params(''))).toBeNull()
+    expect(checkProxyAccess(partner, ['brands', 'by-domain', 'example.com'], params(''))).toBeNull()
+  })
+
+  it('keeps phone lookup to analysts on every brand', () => {
+    const path = ['reporting', 'callrail', 'lookup']
+    expect(checkProxyAccess(partner, path, params(''))).toMatch(/every brand/)
+    expect(checkProxyAccess({ grants: [{ brand: EVERY_BRAND, role: 'analyst' }] }, path, params(''))).toBeNull()
+  })
+})
+
+describe('filterResponseBody', () => {
+  const filter = (path: string[], body: unknown, query = '') =>
+    filterResponseBody(partner, 'user-1', path, params(query), body)
+
+  it('lists only granted brands', async () => {
+    const body = await filter(['brands'], { access: 'public', brands: MOCK_BRANDS })
+
+    expect((body as { brands: { shortcode: string }[] }).brands.map((b) => b.shortcode)).toEqual(['58', '64'])
+  })
+
+  it('refuses a domain lookup that resolves to another brand', async () => {
+    const brand = MOCK_BRANDS.find((b) => b.shortcode === '65')
+    expect(await filter(['brands', 'by-domain', 'x.com'], { access: 'public', brand })).toBeNull()
+  })
+
+  it('masks personal details for viewers', async () => {
+    const leadsPath = ['reporting', 'leads']
+    expect(needsResponseFilter(partner, leadsPath, params('brand=64'))).toBe(true)
+    expect(needsResponseFilter(partner, leadsPath, params('brand=58'))).toBe(false)
+    expect(needsResponseFilter(partner, ['reporting', 'metrics', 'summary'], params('brand=64'))).toBe(false)
+
+    const lead = { id: '1', type: 'call', name: 'Ann Lee', phone: '6785550119', email: 'ann@x.com', utm_source: 'google' }
+    const appointment = { id: 2, job_number: 'J2', customer_name: 'Ann Lee', phone: '6785550119', city: 'Buffalo' }
+
+    const leads = (await filter(leadsPath, { leads: [lead] }, 'brand=64')) as { leads: Record<string, unknown>[] }
+    expect(leads.leads[0]).toEqual({
+      id: '1',
+      type: 'call',
+      name: 'A. L.',
+      phone: '(678) ***-**19',
+      email: 'a***@x***.com',
+      utm_source: 'google',
+      pii_token: expect.any(String),
+    })
+
+    const matches = (await filter(
+      ['reporting', 'leads-with-appointments'],
+      { data: { matches: [{ lead, appointment, matched: true, match_type: 'phone' }, { lead, matched: false }] } },
+      'brand=64'
+    )) as { data: { matches: Record<string, Record<string, unknown>>[] } }
+    expect(matches.data.matches[0].appointment).toMatchObject({ customer_name: 'A. L.', city: 'Buffalo' })
+    expect(matches.data.matches[0].match_type).toBe('phone')
+    expect(matches.data.matches[1]).not.toHaveProperty('appointment')
+  })
+})
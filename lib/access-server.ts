@@ -0,0 +1,137 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createSupabaseServerClient } from '@/lib/supabase'
+import { RATE_LIMITS, getRateLimitIdentifier, withRateLimit } from '@/lib/rate-limit'
+import { MOCK_USER_ID, getMockAccess, isMockApiEnabled } from '@/lib/mock-api'
+import {
+  EVERY_BRAND,
+  canAccessBrand,
+  filterAccessibleBrands,
+  getBrandRole,
+  hasPermission,
+  loadUserAccess,
+  type UserAccess,
+} from '@/lib/access'
+import { EXPORT_PARAM } from '@/lib/export'
+import { maskPIIResponse } from '@/lib/pii-server'
+import { isRecord } from '@/lib/utils'
+
+/**
+ * Server side of per-brand access control: applying grants to /api proxy
+ * requests and responses
+ */
+
+// Reporting endpoints whose rows carry names, phones and emails
+const PII_ENDPOINTS = ['leads', 'appointments', 'leads-with-appointments']
+
+export const NO_BRAND_ACCESS = 'You do not have access to this brand'
+
+/**
+ * Why `access` may not make a proxy request for `path`, or null when it may
+ */
+export function checkProxyAccess(
+  access: UserAccess,
+  path: string[],
+  searchParams: URLSearchParams
+): string | null {
+  if (access.grants.length === 0) {
+    return 'You do not have access to any brands'
+  }
+
+  const [root, endpoint] = path
+
+  if (root === 'reporting' && endpoint === 'callrail') {
+    // Lookups search calls for every brand and return caller details
+    return hasPermission(getBrandRole(access, EVERY_BRAND), 'view_pii')
+      ? null
+      : 'Phone lookup requires analyst access to every brand'
+  }
+
+  if (root === 'reporting') {
+    const brand = searchParams.get('brand')
+    if (!brand) return 'A brand is required'
+    if (!canAccessBrand(access, brand)) return NO_BRAND_ACCESS
+    if (searchParams.has(EXPORT_PARAM) && !hasPermission(getBrandRole(access, brand), 'export')) {
+      return 'Exporting requires analyst access to this brand'
+    }
+    return null
+  }
+
+  if (root === 'brands' && endpoint && endpoint !== 'by-domain') {
+    return canAccessBrand(access, endpoint) ? null : NO_BRAND_ACCESS
+  }
+
+  return null
+}
+
+/**
+ * Whether a successful response for `path` has to be filtered before it reaches the browser
+ */
+export function needsResponseFilter(
+  access: UserAccess,
+  path: string[],
+  searchParams: URLSearchParams
+): boolean {
+  const [root, endpoint] = path
+  if (root === 'brands') return true
+  return (
+    root === 'reporting' &&
+    PII_ENDPOINTS.includes(endpoint) &&
+    !hasPermission(getBrandRole(access, searchParams.get('brand') || ''), 'view_pii')
+  )
+}
+
+/**
+ * Apply `access` to a successful JSON response: drop brands the user can't
+ * see and mask personal details for roles without `view_pii`
+ * Returns null when the response is off limits altogether
+ */
+export async function filterResponseBody(
+  access: UserAccess,
+  userId: string,
+  path: string[],
+  searchParams: URLSearchParams,
+  body: unknown
+): Promise<unknown | null> {
+  if (!isRecord(body)) return body
+
+  if (path[0] === 'brands') {
+    if (Array.isArray(body.brands)) {
+      return { ...body, brands: filterAccessibleBrands(access, body.brands) }
+    }
+    if (isRecord(body.brand) && typeof body.brand.shortcode === 'string') {
+      return canAccessBrand(access, body.brand.shortcode) ? body : null
+    }
+    return body
+  }
+
+  return maskPIIResponse(body, { userId, brand: searchParams.get('brand') || '' })
+}
+
+/**
+ * GET /api/access: the signed-in user's brand grants
+ */
+export async function handleAccessRequest(request: NextRequest) {
+  if (isMockApiEnabled()) {
+    return withRateLimit(getRateLimitIdentifier(request.headers, MOCK_USER_ID), RATE_LIMITS.API_REQUEST, async () =>
+      NextResponse.json(getMockAccess())
+    )
+  }
+
+  const supabase = await createSupabaseServerClient()
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  return withRateLimit(getRateLimitIdentifier(request.headers, user?.id), RATE_LIMITS.API_REQUEST, async () => {
+    if (!user) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 })
+    }
+
+    try {
+      return NextResponse.json(await loadUserAccess(supabase, user.id))
+    } catch (error) {
+      console.error('Error loading brand access:', error)
+      return NextResponse.json({ error: 'Failed to load brand access' }, { status: 500 })
+    }
+  })
+}
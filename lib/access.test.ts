@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest'
+import {
+  EVERY_BRAND,
+  can,
+  canAccessBrand,
+  filterAccessibleBrands,
+  getBrandRole,
+  hasPermission,
+  type UserAccess,
+} from './access'
+
+const partner: UserAccess = {
+  grants: [
+    { brand: '58', role: 'analyst' },
+    { brand: '64', role: 'viewer' },
+  ],
+}
+
+const staff: UserAccess = {
+  grants: [
+    { brand: EVERY_BRAND, role: 'viewer' },
+    { brand: '65', role: 'admin' },
+  ],
+}
+
+describe('getBrandRole', () => {
+  it('returns the role granted for a brand', () => {
+    expect(getBrandRole(partner, '58')).toBe('analyst')
+    expect(getBrandRole(partner, '64')).toBe('viewer')
+    expect(getBrandRole(partner, '65')).toBeNull()
+  })
+
+  it('applies a grant for every brand, keeping the higher role', () => {
+    expect(getBrandRole(staff, '58')).toBe('viewer')
+    expect(getBrandRole(staff, '65')).toBe('admin')
+    expect(getBrandRole(staff, EVERY_BRAND)).toBe('viewer')
+    expect(getBrandRole(partner, EVERY_BRAND)).toBeNull()
+  })
+})
+
+describe('permissions', () => {
+  it('lets analysts and admins see PII and export', () => {
+    expect(hasPermission('viewer', 'view_pii')).toBe(false)
+    expect(hasPermission('analyst', 'view_pii')).toBe(true)
+    expect(hasPermission('admin', 'export')).toBe(true)
+    expect(hasPermission(null, 'export')).toBe(false)
+  })
+
+  it('keeps the audit log to admins', () => {
+    expect(hasPermission('analyst', 'view_audit_log')).toBe(false)
+    expect(hasPermission('admin', 'view_audit_log')).toBe(true)
+  })
+
+  it('requires the permission on every brand in a selection', () => {
+    expect(can(partner, '58', 'export')).toBe(true)
+    expect(can(partner, ['58', '64'], 'export')).toBe(false)
+    expect(can(staff, ['65'], 'view_pii')).toBe(true)
+    expect(can(staff, [], 'view_pii')).toBe(false)
+  })
+})
+
+describe('brand filtering', () => {
+  const brands = [{ shortcode: '58' }, { shortcode: '64' }, { shortcode: '65' }]
+
+  it('keeps only granted brands', () => {
+    expect(filterAccessibleBrands(partner, brands).map((b) => b.shortcode)).toEqual(['58', '64'])
+    expect(filterAccessibleBrands(staff, brands)).toEqual(brands)
+    expect(canAccessBrand({ grants: [] }, '58')).toBe(false)
+  })
+})
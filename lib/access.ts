@@ -0,0 +1,100 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from '@/types/database'
+
+/**
+ * Per-brand access control
+ *
+ * Each user has grants in the Supabase `brand_access` table: a brand
+ * shortcode (or `*` for every brand) and a role. The /api proxy enforces
+ * them; the UI uses the same rules to hide what the server would refuse.
+ */
+
+export type Role = 'viewer' | 'analyst' | 'admin'
+
+export const ROLES: Role[] = ['viewer', 'analyst', 'admin']
+
+// Grant covering every brand, present and future
+export const EVERY_BRAND = '*'
+
+export interface BrandGrant {
+  brand: string
+  role: Role
+}
+
+export interface UserAccess {
+  grants: BrandGrant[]
+}
+
+export type Permission = 'view_pii' | 'export' | 'view_audit_log'
+
+// Least role holding each permission; viewers see aggregates and masked rows,
+// and can reveal a few rows at a time (RATE_LIMITS.PII_REVEAL), each one audited
+const PERMISSION_ROLES: Record<Permission, Role> = {
+  view_pii: 'analyst',
+  export: 'analyst',
+  view_audit_log: 'admin',
+}
+
+export const ROLE_LABELS: Record<Role, string> = {
+  viewer: 'Viewer',
+  analyst: 'Analyst',
+  admin: 'Admin',
+}
+
+export function isRole(value: unknown): value is Role {
+  return ROLES.includes(value as Role)
+}
+
+function higherRole(a: Role | null, b: Role): Role {
+  return a && ROLES.indexOf(a) >= ROLES.indexOf(b) ? a : b
+}
+
+/**
+ * The user's role for `brand`, or null without access
+ * Pass EVERY_BRAND to get the role granted across all brands
+ */
+export function getBrandRole(access: UserAccess, brand: string): Role | null {
+  return access.grants.reduce<Role | null>(
+    (role, grant) =>
+      grant.brand === brand || grant.brand === EVERY_BRAND ? higherRole(role, grant.role) : role,
+    null
+  )
+}
+
+export function canAccessBrand(access: UserAccess, brand: string): boolean {
+  return getBrandRole(access, brand) !== null
+}
+
+export function hasPermission(role: Role | null, permission: Permission): boolean {
+  return role !== null && ROLES.indexOf(role) >= ROLES.indexOf(PERMISSION_ROLES[permission])
+}
+
+/**
+ * Whether the user holds `permission` for every brand in `brands`
+ */
+export function can(access: UserAccess, brands: string | string[], permission: Permission): boolean {
+  const list = Array.isArray(brands) ? brands : [brands]
+  return list.length > 0 && list.every((brand) => hasPermission(getBrandRole(access, brand), permission))
+}
+
+export function filterAccessibleBrands<T extends { shortcode: string }>(
+  access: UserAccess,
+  brands: T[]
+): T[] {
+  return brands.filter((brand) => canAccessBrand(access, brand.shortcode))
+}
+
+/**
+ * Load `userId`'s grants; row level security only returns the signed-in user's own
+ */
+export async function loadUserAccess(
+  supabase: SupabaseClient<Database>,
+  userId: string
+): Promise<UserAccess> {
+  const { data, error } = await supabase
+    .from('brand_access')
+    .select('brand, role')
+    .eq('user_id', userId)
+  if (error) throw error
+  return { grants: data }
+}
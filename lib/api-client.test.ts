@@ -0,0 +1,196 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { getBrand, getBrands, lookupCallRail } from './api-client'
+import { ApiError, getErrorMessage, isAbortError } from './api-error'
+import { invalidateQueries } from './query-cache'
+import { MOCK_BRANDS } from './mock-fixtures'
+
+const brandResponse = { access: 'public', brand: MOCK_BRANDS[0] }
+
+function jsonResponse(body: unknown, init: ResponseInit = {}) {
+  return new Response(JSON.stringify(body), {
+    status: 200,
+    headers: { 'Content-Type': 'application/json' },
+    ...init,
+  })
+}
+
+// A fetch that never settles unless its signal aborts
+function hangingFetch(_url: RequestInfo | URL, init?: RequestInit) {
+  return new Promise<Response>((_, reject) => {
+    init?.signal?.addEventListener('abort', () => {
+      reject(new DOMException('The operation was aborted', 'AbortError'))
+    })
+  })
+}
+
+async function settle<T>(promise: Promise<T>) {
+  const result = promise.then(
+    (value) => ({ value, error: undefined }),
+    (error: unknown) => ({ value: undefined, error })
+  )
+  await vi.runAllTimersAsync()
+  return result
+}
+
+describe('fetchAPI', () => {
+  const fetchMock = vi.fn<typeof fetch>()
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.stubGlobal('fetch', fetchMock)
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    fetchMock.mockReset()
+    invalidateQueries()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('returns validated data from the proxy route', async () => {
+    fetchMock.mockResolvedValue(jsonResponse(brandResponse))
+
+    await expect(getBrand('58')).resolves.toEqual(brandResponse)
+    expect(fetchMock).toHaveBeenCalledWith('/api/brands/58', expect.objectContaining({
+      headers: { 'Content-Type': 'application/json' },
+    }))
+  })
+
+  it('surfaces the backend error message as an http ApiError', async () => {
+    fetchMock.mockResolvedValue(jsonResponse({ error: 'Brand not found' }, { status: 404 }))
+
+    const { error } = await settle(getBrand('99'))
+
+    expect(error).toBeInstanceOf(ApiError)
+    expect(error).toMatchObject({ kind: 'http', status: 404, endpoint: '/brands/99', message: 'Brand not found' })
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+  })
+
+  it('falls back to the status code when the error body is not JSON', async () => {
+    fetchMock.mockResolvedValue(new Response('Forbidden', { status: 403 }))
+
+    const { error } = await settle(getBrand('58'))
+
+    expect(error).toMatchObject({ kind: 'http', status: 403, message: 'API error: 403' })
+  })
+
+  it('reports a response that fails the schema as a contract error', async () => {
+    fetchMock.mockResolvedValue(jsonResponse({ access: 'public', brand: { shortcode: 58 } }))
+
+    const { error } = await settle(getBrand('58'))
+
+    expect(error).toBeInstanceOf(ApiError)
+    const apiError = error as ApiError
+    expect(apiError.isContractError).toBe(true)
+    expect(apiError.issues.map((issue) => issue.path.join('.'))).toContain('brand.shortcode')
+    expect(getErrorMessage(apiError, 'fallback')).toMatch(/backend contract changed: \/brands\/58/)
+  })
+
+  it('retries GET requests after a 5xx and returns the eventual success', async () => {
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse({ error: 'Bad gateway' }, { status: 502 }))
+      .mockResolvedValueOnce(jsonResponse(brandResponse))
+
+    const { value } = await settle(getBrand('58'))
+
+    expect(value).toEqual(brandResponse)
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+  })
+
+  it('gives up after the configured number of retries', async () => {
+    fetchMock.mockImplementation(async () => jsonResponse({ error: 'Unavailable' }, { status: 503 }))
+
+    const { error } = await settle(getBrand('58', { retries: 1 }))
+
+    expect(error).toMatchObject({ kind: 'http', status: 503 })
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+  })
+
+  it('does not retry a POST after a 5xx', async () => {
+    fetchMock.mockResolvedValue(jsonResponse({ error: 'Internal error' }, { status: 500 }))
+
+    const { error } = await settle(lookupCallRail({ phoneNumber: '5551234567' }))
+
+    expect(error).toMatchObject({ kind: 'http', status: 500 })
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+  })
+
+  it('waits for Retry-After before retrying a 429', async () => {
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse({ error: 'Slow down' }, { status: 429, headers: { 'Retry-After': '5' } }))
+      .mockResolvedValueOnce(jsonResponse(brandResponse))
+
+    const promise = getBrand('58')
+    await vi.advanceTimersByTimeAsync(4_999)
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+
+    await vi.advanceTimersByTimeAsync(1)
+    await expect(promise).resolves.toEqual(brandResponse)
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+  })
+
+  it('does not wait out an unreasonably long Retry-After', async () => {
+    fetchMock.mockResolvedValue(
+      jsonResponse({ error: 'Slow down' }, { status: 429, headers: { 'Retry-After': '3600' } })
+    )
+
+    const { error } = await settle(getBrand('58'))
+
+    expect(error).toMatchObject({ kind: 'http', status: 429, message: 'Slow down' })
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+  })
+
+  it('turns a failed fetch into a network error', async () => {
+    fetchMock.mockRejectedValue(new TypeError('Failed to fetch'))
+
+    const { error } = await settle(getBrand('58', { retries: 0 }))
+
+    expect(error).toMatchObject({ kind: 'network', status: 0, message: 'Unable to reach the reporting API' })
+  })
+
+  it('times out each attempt separately', async () => {
+    fetchMock.mockImplementation(hangingFetch)
+
+    const { error } = await settle(getBrand('58', { timeout: 2_000, retries: 1 }))
+
+    expect(error).toMatchObject({ kind: 'timeout', status: 0, message: 'Request timed out after 2s' })
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+  })
+
+  it('rejects with an AbortError when the caller aborts', async () => {
+    fetchMock.mockImplementation(hangingFetch)
+    const controller = new AbortController()
+
+    const promise = settle(getBrand('58', { signal: controller.signal }))
+    controller.abort()
+    const { error } = await promise
+
+    expect(isAbortError(error)).toBe(true)
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+  })
+
+  it('shares one request between concurrent cached calls', async () => {
+    fetchMock.mockResolvedValue(jsonResponse({ access: 'public', brands: MOCK_BRANDS }))
+
+    const [first, second] = await Promise.all([getBrands(), getBrands()])
+
+    expect(first).toBe(second)
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+  })
+
+  it('starts a new request when the previous one for the key was aborted', async () => {
+    fetchMock
+      .mockImplementationOnce(hangingFetch)
+      .mockResolvedValueOnce(jsonResponse({ access: 'public', brands: MOCK_BRANDS }))
+    const controller = new AbortController()
+
+    // A quick A -> B -> A change, or StrictMode mounting twice, asks again before the abort settles
+    const first = settle(getBrands(true, { signal: controller.signal }))
+    controller.abort()
+    const second = settle(getBrands())
+
+    expect(isAbortError((await first).error)).toBe(true)
+    expect((await second).value?.brands).toHaveLength(MOCK_BRANDS.length)
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+  })
+})
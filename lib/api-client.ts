@@ -8,75 +8,329 @@ import type {
   CallRailLookupResponse,
   BrandsResponse,
   BrandResponse,
+  TrendGranularity,
+  LeadFilters,
+  LeadType,
+  AttributionGroupBy,
+  SavedViewInput,
+  SavedViewsResponse,
+  SavedViewResponse,
+  PIIRevealResponse,
+  AuditLogQuery,
+  AuditLogResponse,
 } from './types'
+import type { UserAccess } from './access'
+import type { AppointmentSummaryResponse } from './appointment-status'
+import type { ZodType, ZodTypeDef } from 'zod'
+import { ApiError } from './api-error'
+import { cachedQuery, type CachePolicy, type QueryOptions } from './query-cache'
+import {
+  metricsSummarySchema,
+  attributionBreakdownSchema,
+  leadsSchema,
+  appointmentsSchema,
+  appointmentSummarySchema,
+  leadsWithAppointmentsSchema,
+  callRailLookupSchema,
+  brandsSchema,
+  brandSchema,
+  savedViewsSchema,
+  savedViewResponseSchema,
+  successSchema,
+  piiRevealSchema,
+  auditLogSchema,
+  userAccessSchema,
+} from './schemas'
+import { rememberDefaultView } from './saved-views'
+import { EXPORT_PARAM, type ExportFormat } from './export'
 
-const BASE_URL = process.env.NEXT_PUBLIC_API_BASE_URL || 'http://localhost:3000'
+// Requests go through the app's own proxy routes (app/api), which add the API key
+const BASE_URL = '/api'
 
-// Cache for brands data (1 hour TTL to match API cache)
-let brandsCache: { data: BrandsResponse; timestamp: number } | null = null
-const CACHE_TTL = 60 * 60 * 1000 // 1 hour in milliseconds
+// Reporting data is fresh for a minute, then served stale while it revalidates
+const REPORTING_CACHE: CachePolicy = { staleTime: 60 * 1000, maxAge: 10 * 60 * 1000 }
+// Brands data (1 hour TTL to match API cache)
+const BRANDS_CACHE: CachePolicy = { staleTime: 60 * 60 * 1000, maxAge: 60 * 60 * 1000 }
+// Brand grants rarely change; pick up new ones within a few minutes
+const ACCESS_CACHE: CachePolicy = { staleTime: 5 * 60 * 1000, maxAge: 60 * 60 * 1000 }
 
-async function fetchAPI<T>(endpoint: string, options?: RequestInit): Promise<T> {
+// Request tuning; the timeout applies to each attempt separately
+const DEFAULT_TIMEOUT = Number(process.env.NEXT_PUBLIC_API_TIMEOUT_MS) || 30_000
+const DEFAULT_RETRIES = 2
+const RETRY_BASE_DELAY = 500
+const MAX_RETRY_AFTER = 30_000
+
+export interface RequestOptions {
+  /** Cancels the request, e.g. from an effect cleanup */
+  signal?: AbortSignal
+  /** Milliseconds to wait for each attempt before giving up */
+  timeout?: number
+  /** Extra attempts after a network error, 5xx (GET only) or 429 */
+  retries?: number
+}
+
+/**
+ * Resolve after `ms`, rejecting early with an AbortError if `signal` fires
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('The operation was aborted', 'AbortError'))
+      return
+    }
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(new DOMException('The operation was aborted', 'AbortError'))
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+function backoffDelay(attempt: number): number {
+  return RETRY_BASE_DELAY * 2 ** attempt + Math.random() * RETRY_BASE_DELAY
+}
+
+/**
+ * Milliseconds to wait from a `Retry-After` header (delta-seconds or HTTP date)
+ */
+function parseRetryAfter(value: string | null): number | null {
+  if (!value) return null
+  const seconds = Number(value)
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000)
+  const date = Date.parse(value)
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now())
+}
+
+/**
+ * Single attempt: fetch and read the body, aborting after `timeout`
+ */
+async function sendRequest(
+  url: string,
+  init: RequestInit,
+  endpoint: string,
+  timeout: number,
+  signal?: AbortSignal
+): Promise<{ response: Response; body: unknown }> {
+  signal?.throwIfAborted()
+
+  const controller = new AbortController()
+  let timedOut = false
+  const timer = setTimeout(() => {
+    timedOut = true
+    controller.abort()
+  }, timeout)
+  const onAbort = () => controller.abort()
+  signal?.addEventListener('abort', onAbort, { once: true })
+
+  try {
+    const response = await fetch(url, { ...init, signal: controller.signal })
+    const text = await response.text()
+    let body: unknown
+    try {
+      body = text ? JSON.parse(text) : undefined
+    } catch {
+      body = undefined
+    }
+    return { response, body }
+  } catch (err) {
+    if (timedOut) {
+      throw new ApiError(`Request timed out after ${Math.round(timeout / 1000)}s`, {
+        kind: 'timeout',
+        status: 0,
+        endpoint,
+        cause: err,
+      })
+    }
+    if (signal?.aborted) throw err
+    throw new ApiError('Unable to reach the reporting API', {
+      kind: 'network',
+      status: 0,
+      endpoint,
+      cause: err,
+    })
+  } finally {
+    clearTimeout(timer)
+    signal?.removeEventListener('abort', onAbort)
+  }
+}
+
+async function fetchAPI<T>(
+  endpoint: string,
+  schema: ZodType<T, ZodTypeDef, unknown>,
+  init?: RequestInit,
+  options: RequestOptions = {}
+): Promise<T> {
   const url = `${BASE_URL}${endpoint}`
+  const { signal, timeout = DEFAULT_TIMEOUT, retries = DEFAULT_RETRIES } = options
+  // Only idempotent requests are safe to repeat after the server may have acted
+  const method = (init?.method || 'GET').toUpperCase()
+  const idempotent = method === 'GET' || method === 'HEAD'
 
-  const response = await fetch(url, {
-    ...options,
+  const requestInit: RequestInit = {
+    ...init,
     headers: {
       'Content-Type': 'application/json',
-      // Add API key when authentication is implemented:
-      // 'X-API-Key': process.env.API_KEY || '',
-      ...options?.headers,
+      ...init?.headers,
     },
-  })
+  }
+
+  for (let attempt = 0; ; attempt++) {
+    const canRetry = attempt < retries
+    let response: Response
+    let body: unknown
+
+    try {
+      ({ response, body } = await sendRequest(url, requestInit, endpoint, timeout, signal))
+    } catch (err) {
+      if (err instanceof ApiError && idempotent && canRetry) {
+        await sleep(backoffDelay(attempt), signal)
+        continue
+      }
+      throw err
+    }
 
-  if (!response.ok) {
-    const error = await response.json().catch(() => ({ error: 'Request failed' }))
-    throw new Error(error.error || `API error: ${response.status}`)
+    // A 429 was rejected before doing any work, so any method can be retried
+    if (response.status === 429 && canRetry) {
+      const retryAfter = parseRetryAfter(response.headers.get('Retry-After'))
+      if (retryAfter === null || retryAfter <= MAX_RETRY_AFTER) {
+        await sleep(retryAfter ?? backoffDelay(attempt), signal)
+        continue
+      }
+    }
+
+    if (response.status >= 500 && idempotent && canRetry) {
+      await sleep(backoffDelay(attempt), signal)
+      continue
+    }
+
+    if (!response.ok) {
+      const message =
+        body && typeof body === 'object' && 'error' in body && typeof body.error === 'string'
+          ? body.error
+          : `API error: ${response.status}`
+      throw new ApiError(message, {
+        kind: 'http',
+        status: response.status,
+        endpoint,
+      })
+    }
+
+    const result = schema.safeParse(body)
+    if (!result.success) {
+      console.error(`Unexpected response from ${endpoint}:`, result.error.issues)
+      throw new ApiError(`Unexpected response format from ${endpoint}`, {
+        kind: 'contract',
+        status: response.status,
+        endpoint,
+        issues: result.error.issues,
+      })
+    }
+
+    // Don't hand back a response the caller has already moved on from
+    signal?.throwIfAborted()
+    return result.data
   }
+}
+
+export type CachedRequestOptions<T> = RequestOptions & QueryOptions<T>
+
+/**
+ * `fetchAPI` through the shared query cache, keyed by endpoint
+ */
+function cachedFetchAPI<T>(
+  endpoint: string,
+  schema: ZodType<T, ZodTypeDef, unknown>,
+  policy: CachePolicy,
+  options: CachedRequestOptions<T> = {}
+): Promise<T> {
+  const { signal, force, onRevalidate, ...requestOptions } = options
+  return cachedQuery(
+    endpoint,
+    (querySignal) => fetchAPI(endpoint, schema, undefined, { ...requestOptions, signal: querySignal }),
+    policy,
+    { signal, force, onRevalidate }
+  )
+}
+
+/**
+ * Reporting data through the cache, except for exports: each one has to
+ * reach the proxy to be checked and recorded
+ */
+function reportingFetch<T>(
+  endpoint: string,
+  schema: ZodType<T, ZodTypeDef, unknown>,
+  exportFormat: ExportFormat | undefined,
+  options: CachedRequestOptions<T> = {}
+): Promise<T> {
+  if (!exportFormat) return cachedFetchAPI(endpoint, schema, REPORTING_CACHE, options)
+  const { signal, timeout, retries } = options
+  return fetchAPI(endpoint, schema, undefined, { signal, timeout, retries })
+}
 
-  return response.json()
+// Optional location/market narrowing shared by the reporting endpoints
+interface LocationParams {
+  location?: string
+  market?: string
 }
 
-export async function getMetricsSummary(params: {
+function locationSearchParams(params: LocationParams): Record<string, string> {
+  return {
+    ...(params.location && { location: params.location }),
+    ...(params.market && { market: params.market }),
+  }
+}
+
+export async function getMetricsSummary(params: LocationParams & {
   brand: string
   start: string
   end: string
   include_trend?: boolean
-}): Promise<MetricsSummaryResponse> {
+  trend_granularity?: TrendGranularity
+}, options?: CachedRequestOptions<MetricsSummaryResponse>): Promise<MetricsSummaryResponse> {
   const searchParams = new URLSearchParams({
     brand: params.brand,
     start: params.start,
     end: params.end,
     ...(params.include_trend !== undefined && { include_trend: String(params.include_trend) }),
+    ...(params.include_trend && params.trend_granularity && { trend_granularity: params.trend_granularity }),
+    ...locationSearchParams(params),
   })
 
-  return fetchAPI<MetricsSummaryResponse>(`/reporting/metrics/summary?${searchParams}`)
+  return cachedFetchAPI(`/reporting/metrics/summary?${searchParams}`, metricsSummarySchema, REPORTING_CACHE, options)
 }
 
-export async function getAttributionBreakdown(params: {
+export async function getAttributionBreakdown(params: LocationParams & {
   brand: string
   start: string
   end: string
-  group_by?: 'channel' | 'source' | 'campaign' | 'location' | 'click_id_type'
-}): Promise<AttributionBreakdownResponse> {
+  group_by?: AttributionGroupBy
+  export?: ExportFormat
+}, options?: CachedRequestOptions<AttributionBreakdownResponse>): Promise<AttributionBreakdownResponse> {
   const searchParams = new URLSearchParams({
     brand: params.brand,
     start: params.start,
     end: params.end,
     ...(params.group_by && { group_by: params.group_by }),
+    ...locationSearchParams(params),
+    ...(params.export && { [EXPORT_PARAM]: params.export }),
   })
 
-  return fetchAPI<AttributionBreakdownResponse>(`/reporting/attribution/breakdown?${searchParams}`)
+  return reportingFetch(`/reporting/attribution/breakdown?${searchParams}`, attributionBreakdownSchema, params.export, options)
 }
 
-export async function getLeads(params: {
+export async function getLeads(params: LocationParams & LeadFilters & {
   brand: string
   start: string
   end: string
-  type?: 'call' | 'form'
+  type?: LeadType
   limit?: number
   offset?: number
-}): Promise<LeadsResponse> {
+  export?: ExportFormat
+}, options?: CachedRequestOptions<LeadsResponse>): Promise<LeadsResponse> {
   const searchParams = new URLSearchParams({
     brand: params.brand,
     start: params.start,
@@ -84,79 +338,161 @@ export async function getLeads(params: {
     ...(params.type && { type: params.type }),
     ...(params.limit !== undefined && { limit: String(params.limit) }),
     ...(params.offset !== undefined && { offset: String(params.offset) }),
+    ...locationSearchParams(params),
+    ...(params.search && { search: params.search }),
+    ...(params.utm_source && { utm_source: params.utm_source }),
+    ...(params.utm_medium && { utm_medium: params.utm_medium }),
+    ...(params.utm_campaign && { utm_campaign: params.utm_campaign }),
+    ...(params.zip_code && { zip_code: params.zip_code }),
+    ...(params.first_call !== undefined && { first_call: String(params.first_call) }),
+    ...(params.has_click_id !== undefined && { has_click_id: String(params.has_click_id) }),
+    ...(params.sort && { sort: params.sort }),
+    ...(params.order && { order: params.order }),
+    ...(params.export && { [EXPORT_PARAM]: params.export }),
   })
 
-  return fetchAPI<LeadsResponse>(`/reporting/leads?${searchParams}`)
+  return reportingFetch(`/reporting/leads?${searchParams}`, leadsSchema, params.export, options)
 }
 
-export async function getAppointments(params: {
+export async function getAppointments(params: LocationParams & {
   brand: string
   start: string
   end: string
+  job_status?: string
   limit?: number
   offset?: number
-}): Promise<AppointmentsResponse> {
+  export?: ExportFormat
+}, options?: CachedRequestOptions<AppointmentsResponse>): Promise<AppointmentsResponse> {
   const searchParams = new URLSearchParams({
     brand: params.brand,
     start: params.start,
     end: params.end,
     ...(params.limit !== undefined && { limit: String(params.limit) }),
     ...(params.offset !== undefined && { offset: String(params.offset) }),
+    ...(params.job_status && { job_status: params.job_status }),
+    ...locationSearchParams(params),
+    ...(params.export && { [EXPORT_PARAM]: params.export }),
   })
 
-  return fetchAPI<AppointmentsResponse>(`/reporting/appointments?${searchParams}`)
+  return reportingFetch(`/reporting/appointments?${searchParams}`, appointmentsSchema, params.export, options)
 }
 
-export async function getLeadsWithAppointments(params: {
+/**
+ * Status and business unit counts for every appointment in range, totalled server-side
+ */
+export async function getAppointmentSummary(params: LocationParams & {
+  brand: string
+  start: string
+  end: string
+}, options?: CachedRequestOptions<AppointmentSummaryResponse>): Promise<AppointmentSummaryResponse> {
+  const searchParams = new URLSearchParams({
+    brand: params.brand,
+    start: params.start,
+    end: params.end,
+    ...locationSearchParams(params),
+  })
+
+  return cachedFetchAPI(`/reporting/appointments/summary?${searchParams}`, appointmentSummarySchema, REPORTING_CACHE, options)
+}
+
+export async function getLeadsWithAppointments(params: LocationParams & {
   brand: string
   start: string
   end: string
   lookforward_days?: number
-}): Promise<LeadsWithAppointmentsResponse> {
+}, options?: RequestOptions): Promise<LeadsWithAppointmentsResponse> {
   const searchParams = new URLSearchParams({
     brand: params.brand,
     start: params.start,
     end: params.end,
     ...(params.lookforward_days !== undefined && { lookforward_days: String(params.lookforward_days) }),
+    ...locationSearchParams(params),
   })
 
-  return fetchAPI<LeadsWithAppointmentsResponse>(`/reporting/leads-with-appointments?${searchParams}`)
+  return fetchAPI(`/reporting/leads-with-appointments?${searchParams}`, leadsWithAppointmentsSchema, undefined, options)
 }
 
 export async function lookupCallRail(
-  data: CallRailLookupRequest
+  data: CallRailLookupRequest,
+  options?: RequestOptions
 ): Promise<CallRailLookupResponse> {
-  return fetchAPI<CallRailLookupResponse>('/reporting/callrail/lookup', {
+  return fetchAPI('/reporting/callrail/lookup', callRailLookupSchema, {
     method: 'POST',
     body: JSON.stringify(data),
-  })
+  }, options)
 }
 
-export async function getBrands(useCache: boolean = true): Promise<BrandsResponse> {
-  // Check cache first
-  if (useCache && brandsCache) {
-    const age = Date.now() - brandsCache.timestamp
-    if (age < CACHE_TTL) {
-      return brandsCache.data
-    }
-  }
+export async function getBrands(useCache: boolean = true, options?: RequestOptions): Promise<BrandsResponse> {
+  return cachedFetchAPI('/brands', brandsSchema, BRANDS_CACHE, { ...options, force: !useCache })
+}
+
+export async function getBrand(shortcode: string, options?: RequestOptions): Promise<BrandResponse> {
+  return fetchAPI(`/brands/${shortcode}`, brandSchema, undefined, options)
+}
 
-  // Fetch from API
-  const data = await fetchAPI<BrandsResponse>('/brands')
+export async function getBrandByDomain(domain: string, options?: RequestOptions): Promise<BrandResponse> {
+  return fetchAPI(`/brands/by-domain/${encodeURIComponent(domain)}`, brandSchema, undefined, options)
+}
 
-  // Update cache
-  brandsCache = {
-    data,
-    timestamp: Date.now(),
-  }
+/**
+ * The signed-in user's brand grants and roles
+ */
+export async function getAccess(options?: CachedRequestOptions<UserAccess>): Promise<UserAccess> {
+  return cachedFetchAPI('/access', userAccessSchema, ACCESS_CACHE, options)
+}
+
+// Saved views are per user and change under the user's hands, so they bypass the query cache
+export async function getSavedViews(options?: RequestOptions): Promise<SavedViewsResponse> {
+  const response = await fetchAPI('/views', savedViewsSchema, undefined, options)
+  rememberDefaultView(response.views)
+  return response
+}
 
-  return data
+export async function createSavedView(
+  data: SavedViewInput,
+  options?: RequestOptions
+): Promise<SavedViewResponse> {
+  return fetchAPI('/views', savedViewResponseSchema, {
+    method: 'POST',
+    body: JSON.stringify(data),
+  }, options)
 }
 
-export async function getBrand(shortcode: string): Promise<BrandResponse> {
-  return fetchAPI<BrandResponse>(`/brands/${shortcode}`)
+export async function updateSavedView(
+  id: string,
+  data: Partial<SavedViewInput>,
+  options?: RequestOptions
+): Promise<SavedViewResponse> {
+  return fetchAPI(`/views/${encodeURIComponent(id)}`, savedViewResponseSchema, {
+    method: 'PATCH',
+    body: JSON.stringify(data),
+  }, options)
 }
 
-export async function getBrandByDomain(domain: string): Promise<BrandResponse> {
-  return fetchAPI<BrandResponse>(`/brands/by-domain/${encodeURIComponent(domain)}`)
+export async function deleteSavedView(id: string, options?: RequestOptions): Promise<{ success: boolean }> {
+  return fetchAPI(`/views/${encodeURIComponent(id)}`, successSchema, { method: 'DELETE' }, options)
+}
+
+// Each reveal is logged server side, so it's never cached
+export async function revealPII(token: string, options?: RequestOptions): Promise<PIIRevealResponse> {
+  return fetchAPI('/pii/reveal', piiRevealSchema, {
+    method: 'POST',
+    body: JSON.stringify({ token }),
+  }, options)
+}
+
+// The audit log is append-only and searched ad hoc, so it isn't cached
+export async function getAuditLog(params: AuditLogQuery, options?: RequestOptions): Promise<AuditLogResponse> {
+  const searchParams = new URLSearchParams({
+    ...(params.user && { user: params.user }),
+    ...(params.brand && { brand: params.brand }),
+    ...(params.action && { action: params.action }),
+    ...(params.from && { from: params.from }),
+    ...(params.to && { to: params.to }),
+    ...(params.tz && { tz: params.tz }),
+    ...(params.limit !== undefined && { limit: String(params.limit) }),
+    ...(params.offset !== undefined && { offset: String(params.offset) }),
+  })
+
+  return fetchAPI(`/audit?${searchParams}`, auditLogSchema, undefined, options)
 }
@@ -0,0 +1,49 @@
+import type { ZodIssue } from 'zod'
+
+export type ApiErrorKind = 'http' | 'network' | 'timeout' | 'contract'
+
+/**
+ * Error thrown by the API client for failed requests and unexpected responses
+ * `status` is 0 when the request never got a response
+ */
+export class ApiError extends Error {
+  readonly kind: ApiErrorKind
+  readonly status: number
+  readonly endpoint: string
+  readonly issues: ZodIssue[]
+
+  constructor(
+    message: string,
+    options: { kind: ApiErrorKind; status: number; endpoint: string; issues?: ZodIssue[]; cause?: unknown }
+  ) {
+    super(message, { cause: options.cause })
+    this.name = 'ApiError'
+    this.kind = options.kind
+    this.status = options.status
+    this.endpoint = options.endpoint
+    this.issues = options.issues ?? []
+  }
+
+  /** The response arrived but didn't match the expected schema */
+  get isContractError(): boolean {
+    return this.kind === 'contract'
+  }
+}
+
+/**
+ * True for the rejection of a request the caller cancelled via its AbortSignal
+ */
+export function isAbortError(err: unknown): boolean {
+  return err instanceof DOMException && err.name === 'AbortError'
+}
+
+/**
+ * Human-readable message for an error caught from the API client
+ */
+export function getErrorMessage(err: unknown, fallback: string): string {
+  if (err instanceof ApiError && err.isContractError) {
+    const path = err.endpoint.split('?')[0]
+    return `The backend contract changed: ${path} returned data in an unexpected format. Please report this to the data team.`
+  }
+  return err instanceof Error ? err.message : fallback
+}
@@ -0,0 +1,219 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { NextRequest } from 'next/server'
+import { proxyRequest } from './api-proxy'
+import { insertAuditEvent } from './audit'
+import { searchAuditLog } from './audit-server'
+import type { Role } from './access'
+import { createSupabaseServerClient } from './supabase'
+import { createMemoryRateLimitStore, setRateLimitStore } from './rate-limit'
+
+vi.mock('./supabase', () => ({
+  createSupabaseServerClient: vi.fn(),
+}))
+
+vi.mock('./audit', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./audit')>()),
+  insertAuditEvent: vi.fn(),
+}))
+
+const RANGE = 'brand=58&start=2025-01-01&end=2025-01-31'
+
+function request(url: string, method = 'GET') {
+  return new NextRequest(`http://localhost${url}`, {
+    method,
+    headers: { 'x-forwarded-for': '203.0.113.7' },
+    ...(method === 'POST' && { body: JSON.stringify({ phoneNumber: '5551234567' }) }),
+  })
+}
+
+function signInAs(role: Role) {
+  vi.mocked(createSupabaseServerClient).mockResolvedValue({
+    auth: { getUser: async () => ({ data: { user: { id: `proxy-${role}`, email: `${role}@example.com` } } }) },
+    from: () => ({
+      select: () => ({ eq: async () => ({ data: [{ brand: '58', role }], error: null }) }),
+    }),
+  } as unknown as Awaited<ReturnType<typeof createSupabaseServerClient>>)
+}
+
+describe('proxyRequest', () => {
+  beforeEach(() => {
+    vi.stubEnv('MOCK_API', 'false')
+  })
+
+  // Next decodes %2E%2E in catch-all params, so these arrive as `..`
+  it.each([
+    ['leads behind a dot segment', ['reporting', 'x', '..', 'leads'], '?brand=58', 'GET'],
+    ['a lookup behind a dot segment', ['reporting', 'x', '..', 'callrail', 'lookup'], '?brand=58', 'POST'],
+    ['another brand behind two', ['reporting', 'x', '..', '..', 'brands', '65'], '?brand=58', 'GET'],
+    ['a single dot', ['reporting', '.', 'leads'], '?brand=58', 'GET'],
+    ['an empty segment', ['reporting', '', 'leads'], '?brand=58', 'GET'],
+  ])('refuses %s before authenticating or forwarding', async (_, path, query, method) => {
+    const fetchSpy = vi.spyOn(globalThis, 'fetch')
+
+    const response = await proxyRequest(request(`/api/${path.join('/')}${query}`, method), path)
+
+    expect(response.status).toBe(400)
+    expect(createSupabaseServerClient).not.toHaveBeenCalled()
+    expect(fetchSpy).not.toHaveBeenCalled()
+  })
+
+  it('records an export and forwards it without the export param', async () => {
+    signInAs('analyst')
+    const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValue(Response.json({ leads: [] }))
+
+    const response = await proxyRequest(
+      request(`/api/reporting/leads?${RANGE}&limit=500&offset=0&export=csv`),
+      ['reporting', 'leads']
+    )
+
+    expect(response.status).toBe(200)
+    expect(insertAuditEvent).toHaveBeenCalledWith(
+      { id: 'proxy-analyst', email: 'analyst@example.com' },
+      expect.objectContaining({
+        action: 'export',
+        route: '/api/reporting/leads',
+        brands: ['58'],
+        start_date: '2025-01-01',
+        end_date: '2025-01-31',
+        details: { format: 'csv', endpoint: 'reporting/leads' },
+      })
+    )
+    const upstream = new URL(String(fetchSpy.mock.calls[0][0]))
+    expect(upstream.searchParams.has('export')).toBe(false)
+    expect(upstream.searchParams.get('limit')).toBe('500')
+  })
+
+  it('records an export once, with its first page', async () => {
+    signInAs('analyst')
+    vi.spyOn(globalThis, 'fetch').mockResolvedValue(Response.json({ leads: [] }))
+
+    await proxyRequest(request(`/api/reporting/leads?${RANGE}&limit=500&offset=500&export=csv`), ['reporting', 'leads'])
+
+    expect(insertAuditEvent).not.toHaveBeenCalled()
+  })
+
+  it('refuses exports to viewers and unknown formats', async () => {
+    signInAs('viewer')
+    const fetchSpy = vi.spyOn(globalThis, 'fetch')
+
+    const viewer = await proxyRequest(request(`/api/reporting/leads?${RANGE}&export=csv`), ['reporting', 'leads'])
+    const unknown = await proxyRequest(request(`/api/reporting/leads?${RANGE}&export=pdf`), ['reporting', 'leads'])
+
+    expect(viewer.status).toBe(403)
+    expect(unknown.status).toBe(400)
+    expect(fetchSpy).not.toHaveBeenCalled()
+  })
+
+  it('totals appointment statuses over every upstream page, without contact details', async () => {
+    signInAs('viewer')
+    const appointment = (id: number) => ({
+      id,
+      job_number: `J${id}`,
+      created_on: '2025-01-15T10:00:00Z',
+      customer_name: 'Ann Lee',
+      phone: '6785550119',
+      job_status: id % 2 ? 'Completed' : 'Scheduled',
+      business_unit_id: '7',
+    })
+    const fetchSpy = vi.spyOn(globalThis, 'fetch').mockImplementation(async (url) => {
+      const offset = Number(new URL(String(url)).searchParams.get('offset'))
+      const count = offset === 0 ? 500 : 200
+      return Response.json({
+        success: true,
+        brand: '58',
+        date_range: { start: '2025-01-01', end: '2025-01-31' },
+        pagination: { total: 700, limit: 500, offset, has_more: offset === 0 },
+        appointments: Array.from({ length: count }, (_, i) => appointment(offset + i)),
+      })
+    })
+
+    const response = await proxyRequest(
+      request(`/api/reporting/appointments/summary?${RANGE}`),
+      ['reporting', 'appointments', 'summary']
+    )
+    const body = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(body.counts).toMatchObject({ total: 700, byStatus: { Completed: 350, Scheduled: 350 } })
+    expect(body.business_units).toEqual([
+      { id: '7', name: 'Business Unit 7', total: 700, completed: 350, sold: 0, canceled: 0 },
+    ])
+    expect(body.statuses).toEqual(['Completed', 'Scheduled'])
+    expect(JSON.stringify(body)).not.toContain('5550119')
+    expect(fetchSpy.mock.calls.map(([url]) => new URL(String(url)).pathname)).toEqual([
+      '/reporting/appointments',
+      '/reporting/appointments',
+    ])
+  })
+
+  it('fits a fiscal year of appointments and its export under the limiter', async () => {
+    signInAs('analyst')
+    setRateLimitStore(createMemoryRateLimitStore())
+    vi.spyOn(globalThis, 'fetch').mockImplementation(async () =>
+      Response.json({
+        success: true,
+        brand: '58',
+        date_range: { start: '2024-02-01', end: '2025-01-31' },
+        pagination: { total: 0, limit: 500, offset: 0, has_more: false },
+        appointments: [],
+      })
+    )
+    const range = 'brand=58&start=2024-02-01&end=2025-01-31'
+    const statuses: number[] = []
+    const load = async (url: string, path: string[]) => {
+      statuses.push((await proxyRequest(request(url), path)).status)
+    }
+
+    // A busy brand's year: the table, its status analytics and a 25,000-row export
+    await load(`/api/reporting/appointments?${range}&limit=50&offset=0`, ['reporting', 'appointments'])
+    await load(`/api/reporting/appointments/summary?${range}`, ['reporting', 'appointments', 'summary'])
+    for (let offset = 0; offset < 25000; offset += 500) {
+      await load(
+        `/api/reporting/appointments?${range}&limit=500&offset=${offset}&export=csv`,
+        ['reporting', 'appointments']
+      )
+    }
+    for (let page = 1; page <= 10; page++) {
+      await load(`/api/reporting/appointments?${range}&limit=50&offset=${page * 50}`, ['reporting', 'appointments'])
+    }
+
+    expect(statuses).toHaveLength(62)
+    expect(statuses.every((status) => status === 200)).toBe(true)
+  })
+
+  it('serves nothing when the export cannot be recorded', async () => {
+    signInAs('analyst')
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    vi.mocked(insertAuditEvent).mockRejectedValue(new Error('insert failed'))
+    const fetchSpy = vi.spyOn(globalThis, 'fetch')
+
+    const response = await proxyRequest(request(`/api/reporting/leads?${RANGE}&export=xlsx`), ['reporting', 'leads'])
+
+    expect(response.status).toBe(503)
+    expect(fetchSpy).not.toHaveBeenCalled()
+  })
+})
+
+describe('proxyRequest (mock mode)', () => {
+  beforeEach(() => {
+    vi.stubEnv('MOCK_API', 'true')
+  })
+
+  it('still serves ordinary paths', async () => {
+    const response = await proxyRequest(request(`/api/reporting/leads?${RANGE}`), ['reporting', 'leads'])
+
+    expect(response.status).toBe(200)
+  })
+
+  it('keeps exports in the in-memory audit log', async () => {
+    await proxyRequest(request(`/api/reporting/appointments?${RANGE}&limit=500&export=xlsx`), ['reporting', 'appointments'])
+
+    const response = await searchAuditLog(new NextRequest('http://localhost/api/audit?action=export&limit=1'))
+    expect((await response.json()).entries[0]).toMatchObject({
+      action: 'export',
+      route: '/api/reporting/appointments',
+      brands: ['58'],
+      details: { format: 'xlsx', endpoint: 'reporting/appointments' },
+    })
+  })
+})
@@ -0,0 +1,347 @@
+import { NextRequest, NextResponse } from 'next/server'
+import type { User } from '@supabase/supabase-js'
+import { createSupabaseServerClient } from '@/lib/supabase'
+import { RATE_LIMITS, getRateLimitIdentifier, withRateLimit } from '@/lib/rate-limit'
+import { MOCK_USER_ID, getMockAccess, handleMockRequest, isMockApiEnabled } from '@/lib/mock-api'
+import {
+  NO_BRAND_ACCESS,
+  checkProxyAccess,
+  filterResponseBody,
+  needsResponseFilter,
+} from '@/lib/access-server'
+import { loadUserAccess, type UserAccess } from '@/lib/access'
+import { recordAuditEvent } from '@/lib/audit-server'
+import { AUDIT_ACTION_LABELS, getAuditScope, type AuditEvent, type AuditUser } from '@/lib/audit'
+import { EXPORT_PARAM, fetchAllPages, isExportFormat } from '@/lib/export'
+import { summarizeAppointments } from '@/lib/appointment-status'
+import { appointmentsSchema } from '@/lib/schemas'
+import type { Appointment } from '@/lib/types'
+import { isRecord } from '@/lib/utils'
+
+/**
+ * Server-side proxy to the reporting API
+ *
+ * The browser only talks to /api/*; this forwards to the backend with the
+ * server-only API key and the signed-in Supabase user attached, after
+ * checking the user's brand access (lib/access-server.ts)
+ */
+
+// NEXT_PUBLIC_API_BASE_URL is still honoured for deployments that predate the proxy
+const API_BASE_URL =
+  process.env.API_BASE_URL ||
+  process.env.NEXT_PUBLIC_API_BASE_URL ||
+  'http://localhost:3000'
+
+const UPSTREAM_TIMEOUT = 30 * 1000
+
+// Backend response headers worth passing back to the browser
+const FORWARDED_RESPONSE_HEADERS = ['content-type', 'cache-control', 'retry-after']
+
+// Answered here from every page of the appointments endpoint rather than forwarded
+const APPOINTMENTS_PATH = ['reporting', 'appointments']
+const APPOINTMENT_SUMMARY_PATH = [...APPOINTMENTS_PATH, 'summary']
+
+class UpstreamError extends Error {
+  constructor(readonly status: number) {
+    super(`Reporting API error: ${status}`)
+    this.name = 'UpstreamError'
+  }
+}
+
+function jsonError(error: string, status: number) {
+  return NextResponse.json({ error }, { status })
+}
+
+function upstreamFailure(error: unknown) {
+  if (error instanceof DOMException && error.name === 'TimeoutError') {
+    return jsonError('Reporting API timed out', 504)
+  }
+  console.error('Reporting API proxy error:', error)
+  return jsonError('Reporting API unavailable', 502)
+}
+
+// `new URL` resolves dot segments, so `x/../leads` would reach a different
+// endpoint than the access checks saw; Next decodes `%2E%2E` to `..` first
+function hasUnsafeSegment(path: string[]) {
+  return path.some((segment) => segment === '' || segment === '.' || segment === '..')
+}
+
+function isLookup(path: string[]) {
+  return path[0] === 'reporting' && path[1] === 'callrail'
+}
+
+function isAppointmentSummary(path: string[]) {
+  return path.join('/') === APPOINTMENT_SUMMARY_PATH.join('/')
+}
+
+function parseJSON(text?: string): unknown {
+  try {
+    return text ? JSON.parse(text) : undefined
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * The audit log entry a request needs, if any: phone lookups search every
+ * brand's calls, and exports take whole date ranges at once
+ * An export is recorded with its first page.
+ */
+function auditEventFor(request: NextRequest, path: string[], body: unknown): AuditEvent | null {
+  const { pathname, searchParams } = request.nextUrl
+
+  if (isLookup(path)) {
+    return {
+      action: 'lookup',
+      route: pathname,
+      target: isRecord(body) && typeof body.phoneNumber === 'string' ? body.phoneNumber : null,
+    }
+  }
+
+  const exportFormat = searchParams.get(EXPORT_PARAM)
+  if (isExportFormat(exportFormat) && !Number(searchParams.get('offset'))) {
+    const scope = getAuditScope(searchParams)
+    return {
+      action: 'export',
+      route: pathname,
+      ...scope,
+      details: { ...scope.details, format: exportFormat, endpoint: path.join('/') },
+    }
+  }
+
+  return null
+}
+
+/**
+ * Record the request in the audit log if it needs it; the error response
+ * when that fails, as the data isn't served unrecorded
+ */
+async function recordAccess(
+  request: NextRequest,
+  path: string[],
+  user: AuditUser,
+  body: unknown
+): Promise<NextResponse | null> {
+  const event = auditEventFor(request, path, body)
+  if (!event) return null
+
+  try {
+    await recordAuditEvent(user, event)
+    return null
+  } catch (error) {
+    console.error('Failed to write audit log:', error)
+    return jsonError(`The ${AUDIT_ACTION_LABELS[event.action].toLowerCase()} could not be recorded in the audit log`, 503)
+  }
+}
+
+/**
+ * Respond with `body` as filtered for the user's access, or 403 when it's off limits
+ */
+async function filteredResponse(
+  access: UserAccess,
+  userId: string,
+  request: NextRequest,
+  path: string[],
+  body: unknown,
+  init: { status: number; headers?: Headers }
+) {
+  const filtered = await filterResponseBody(access, userId, path, request.nextUrl.searchParams, body)
+  return filtered === null ? jsonError(NO_BRAND_ACCESS, 403) : NextResponse.json(filtered, init)
+}
+
+/**
+ * Status analytics over every appointment in range
+ * The pages are read here, so the browser makes one request and no contact
+ * details leave the server.
+ */
+async function appointmentSummary(
+  searchParams: URLSearchParams,
+  fetchPage: (search: string) => Promise<Response>
+) {
+  let appointments: Appointment[]
+  try {
+    appointments = await fetchAllPages<Appointment>(async (limit, offset) => {
+      const search = new URLSearchParams(searchParams)
+      search.set('limit', String(limit))
+      search.set('offset', String(offset))
+
+      const response = await fetchPage(`?${search}`)
+      if (!response.ok) throw new UpstreamError(response.status)
+      const page = appointmentsSchema.parse(await response.json())
+      return {
+        items: page.appointments,
+        total: page.pagination.total,
+        hasMore: page.pagination.has_more,
+      }
+    })
+  } catch (error) {
+    if (error instanceof UpstreamError) return jsonError(error.message, error.status)
+    return upstreamFailure(error)
+  }
+
+  return NextResponse.json(summarizeAppointments(appointments))
+}
+
+/**
+ * Offline development: answer from fixtures without Supabase or the backend
+ */
+async function mockRequest(request: NextRequest, path: string[]) {
+  const hasBody = request.method !== 'GET' && request.method !== 'HEAD'
+  const { searchParams } = request.nextUrl
+  const access = getMockAccess()
+  const denied = checkProxyAccess(access, path, searchParams)
+  if (denied) return jsonError(denied, 403)
+
+  if (isAppointmentSummary(path)) {
+    return appointmentSummary(searchParams, async (search) => {
+      const mock = handleMockRequest({
+        method: 'GET',
+        path: APPOINTMENTS_PATH,
+        searchParams: new URLSearchParams(search),
+      })
+      return Response.json(mock.body, { status: mock.status })
+    })
+  }
+
+  const body = hasBody ? await request.json().catch(() => undefined) : undefined
+  const unrecorded = await recordAccess(request, path, { id: MOCK_USER_ID }, body)
+  if (unrecorded) return unrecorded
+
+  const mock = handleMockRequest({ method: request.method, path, searchParams, body })
+  if (mock.status === 200 && needsResponseFilter(access, path, searchParams)) {
+    return filteredResponse(access, MOCK_USER_ID, request, path, mock.body, { status: mock.status })
+  }
+  return NextResponse.json(mock.body, { status: mock.status })
+}
+
+/**
+ * Call the backend on `user`'s behalf; rejects when it can't be reached in time
+ */
+function fetchUpstream(
+  path: string[],
+  search: string,
+  user: User,
+  init: { method: string; contentType?: string | null; body?: string; signal: AbortSignal }
+) {
+  const upstreamUrl = new URL(`${API_BASE_URL}/${path.map(encodeURIComponent).join('/')}`)
+  upstreamUrl.search = search
+  // Only the proxy cares whether it's an export
+  upstreamUrl.searchParams.delete(EXPORT_PARAM)
+
+  const headers = new Headers({
+    'Content-Type': init.contentType || 'application/json',
+    'X-User-Id': user.id,
+  })
+  if (user.email) headers.set('X-User-Email', user.email)
+  if (process.env.API_KEY) headers.set('X-API-Key', process.env.API_KEY)
+
+  return fetch(upstreamUrl, {
+    method: init.method,
+    headers,
+    body: init.body,
+    // Stop the upstream call if the browser gives up or the backend hangs
+    signal: AbortSignal.any([init.signal, AbortSignal.timeout(UPSTREAM_TIMEOUT)]),
+    cache: 'no-store',
+  })
+}
+
+/**
+ * Check `user`'s brand access, then call the backend on their behalf
+ */
+async function forwardRequest(
+  request: NextRequest,
+  path: string[],
+  supabase: Awaited<ReturnType<typeof createSupabaseServerClient>>,
+  user: User
+) {
+  const hasBody = request.method !== 'GET' && request.method !== 'HEAD'
+  const { searchParams } = request.nextUrl
+
+  let access: UserAccess
+  try {
+    access = await loadUserAccess(supabase, user.id)
+  } catch (error) {
+    console.error('Error loading brand access:', error)
+    return jsonError('Failed to check brand access', 500)
+  }
+
+  const denied = checkProxyAccess(access, path, searchParams)
+  if (denied) return jsonError(denied, 403)
+
+  if (isAppointmentSummary(path)) {
+    return appointmentSummary(searchParams, (search) =>
+      fetchUpstream(APPOINTMENTS_PATH, search, user, { method: 'GET', signal: request.signal })
+    )
+  }
+
+  const requestBody = hasBody ? await request.text() : undefined
+  const unrecorded = await recordAccess(request, path, { id: user.id, email: user.email }, parseJSON(requestBody))
+  if (unrecorded) return unrecorded
+
+  let upstream: Response
+  try {
+    upstream = await fetchUpstream(path, request.nextUrl.search, user, {
+      method: request.method,
+      contentType: request.headers.get('content-type'),
+      body: requestBody,
+      signal: request.signal,
+    })
+  } catch (error) {
+    return upstreamFailure(error)
+  }
+
+  const responseHeaders = new Headers()
+  for (const name of FORWARDED_RESPONSE_HEADERS) {
+    const value = upstream.headers.get(name)
+    if (value) responseHeaders.set(name, value)
+  }
+
+  // Brand lists and PII-bearing rows are read and filtered; everything else streams through
+  if (upstream.ok && needsResponseFilter(access, path, searchParams)) {
+    const body = await upstream.json().catch(() => undefined)
+    return filteredResponse(access, user.id, request, path, body, {
+      status: upstream.status,
+      headers: responseHeaders,
+    })
+  }
+
+  return new NextResponse(upstream.body, {
+    status: upstream.status,
+    headers: responseHeaders,
+  })
+}
+
+/**
+ * Forward `request` to `${API_BASE_URL}/${path}`, keeping its query string
+ * Limited per signed-in user, or per IP for requests without a session.
+ */
+export async function proxyRequest(request: NextRequest, path: string[]) {
+  if (hasUnsafeSegment(path)) {
+    return jsonError('Invalid path', 400)
+  }
+  const exportFormat = request.nextUrl.searchParams.get(EXPORT_PARAM)
+  if (exportFormat !== null && !isExportFormat(exportFormat)) {
+    return jsonError('Unknown export format', 400)
+  }
+
+  // An export reads its whole range a page at a time, so it has its own allowance
+  const limit = exportFormat ? RATE_LIMITS.EXPORT_PAGE : RATE_LIMITS.API_REQUEST
+
+  if (isMockApiEnabled()) {
+    return withRateLimit(
+      getRateLimitIdentifier(request.headers, MOCK_USER_ID),
+      limit,
+      () => mockRequest(request, path)
+    )
+  }
+
+  // Middleware leaves /api public, so the proxy checks the session itself
+  const supabase = await createSupabaseServerClient()
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  return withRateLimit(getRateLimitIdentifier(request.headers, user?.id), limit, async () =>
+    user ? forwardRequest(request, path, supabase, user) : jsonError('Not authenticated', 401)
+  )
+}
@@ -0,0 +1,147 @@
+import type { Appointment, BrandLocation } from './types'
+
+export type StatusStage = 'scheduled' | 'completed' | 'sold' | 'canceled'
+
+export interface StatusCounts {
+  total: number
+  byStatus: Record<string, number>
+  stages: Record<StatusStage, number>
+}
+
+export interface BusinessUnitStats {
+  id: string
+  name: string
+  total: number
+  completed: number
+  sold: number
+  canceled: number
+}
+
+// Status analytics for every appointment in range, totalled by the /api proxy
+export interface AppointmentSummaryResponse {
+  success: boolean
+  counts: StatusCounts
+  business_units: BusinessUnitStats[]
+  // Raw job statuses seen, for the status filter
+  statuses: string[]
+}
+
+export const STAGE_LABELS: Record<StatusStage, string> = {
+  scheduled: 'Scheduled',
+  completed: 'Completed',
+  sold: 'Sold',
+  canceled: 'Canceled',
+}
+
+const UNKNOWN_STATUS = 'Unknown'
+
+/**
+ * Display form of a raw ServiceTitan job status
+ */
+export function formatJobStatus(status?: string): string {
+  if (!status) return UNKNOWN_STATUS
+  return status
+    .replace(/[_-]+/g, ' ')
+    .replace(/\b\w/g, (c) => c.toUpperCase())
+}
+
+/**
+ * Furthest funnel stage a job status has reached
+ * Every appointment counts as scheduled; sold jobs are also completed
+ */
+export function getStatusStage(status?: string): Exclude<StatusStage, 'scheduled'> | null {
+  const normalized = (status || '').toLowerCase().replace(/[^a-z]/g, '')
+  if (normalized === 'sold') return 'sold'
+  if (normalized === 'completed' || normalized === 'done') return 'completed'
+  if (normalized === 'canceled' || normalized === 'cancelled') return 'canceled'
+  return null
+}
+
+export function countStatuses(appointments: Appointment[]): StatusCounts {
+  const byStatus: Record<string, number> = {}
+  const stages: Record<StatusStage, number> = { scheduled: 0, completed: 0, sold: 0, canceled: 0 }
+
+  for (const appt of appointments) {
+    const label = formatJobStatus(appt.job_status)
+    byStatus[label] = (byStatus[label] || 0) + 1
+
+    stages.scheduled++
+    const stage = getStatusStage(appt.job_status)
+    if (stage === 'sold') {
+      stages.completed++
+      stages.sold++
+    } else if (stage) {
+      stages[stage]++
+    }
+  }
+
+  return { total: appointments.length, byStatus, stages }
+}
+
+/**
+ * Map ServiceTitan business unit IDs to the brand location names using them
+ */
+export function getBusinessUnitNames(locations: BrandLocation[]): Record<string, string> {
+  const names: Record<string, string[]> = {}
+  for (const location of locations) {
+    const id = location.servicetitan_business_unit
+    if (!id) continue
+    names[id] = [...(names[id] || []), location.location_name]
+  }
+  return Object.fromEntries(Object.entries(names).map(([id, list]) => [id, list.join(' / ')]))
+}
+
+export function groupByBusinessUnit(
+  appointments: Appointment[],
+  names: Record<string, string>
+): BusinessUnitStats[] {
+  const groups = new Map<string, BusinessUnitStats>()
+
+  for (const appt of appointments) {
+    const id = appt.business_unit_id || ''
+    let group = groups.get(id)
+    if (!group) {
+      group = {
+        id,
+        name: id ? names[id] || `Business Unit ${id}` : 'Unassigned',
+        total: 0,
+        completed: 0,
+        sold: 0,
+        canceled: 0,
+      }
+      groups.set(id, group)
+    }
+
+    group.total++
+    const stage = getStatusStage(appt.job_status)
+    if (stage === 'sold') {
+      group.completed++
+      group.sold++
+    } else if (stage) {
+      group[stage]++
+    }
+  }
+
+  return Array.from(groups.values()).sort((a, b) => b.total - a.total)
+}
+
+/**
+ * Everything the status analytics need from `appointments`
+ * Business units are named by id; the page adds location names with `nameBusinessUnits`
+ */
+export function summarizeAppointments(appointments: Appointment[]): AppointmentSummaryResponse {
+  const statuses = new Set(appointments.map((appt) => appt.job_status).filter((s): s is string => !!s))
+  return {
+    success: true,
+    counts: countStatuses(appointments),
+    business_units: groupByBusinessUnit(appointments, {}),
+    statuses: Array.from(statuses).sort(),
+  }
+}
+
+/**
+ * `units` with the brand location names from `getBusinessUnitNames` where known
+ */
+export function nameBusinessUnits(units: BusinessUnitStats[], names: Record<string, string>): BusinessUnitStats[] {
+  return units.map((unit) => (unit.id && names[unit.id] ? { ...unit, name: names[unit.id] } : unit))
+}
@@ -0,0 +1,59 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { NextRequest } from 'next/server'
+import { format } from 'date-fns'
+import { recordAuditEvent, searchAuditLog } from './audit-server'
+
+async function search(query: string) {
+  const response = await searchAuditLog(new NextRequest(`http://localhost/api/audit?${query}`))
+  return { status: response.status, body: await response.json() }
+}
+
+describe('audit log routes (mock mode)', () => {
+  beforeEach(() => {
+    vi.stubEnv('MOCK_API', 'true')
+  })
+
+  it('searches by user, brand, action and day', async () => {
+    const user = { id: 'user-2', email: 'dana@example.com' }
+    await recordAuditEvent(user, { action: 'lookup', route: '/api/reporting/callrail/lookup', target: '6785550119' })
+    await recordAuditEvent(user, { action: 'page_view', route: '/leads', brands: ['58', '64'] })
+
+    expect((await search('user=DANA')).body.pagination.total).toBe(2)
+    expect((await search('user=dana&brand=64')).body.entries.map((e: { route: string }) => e.route)).toEqual(['/leads'])
+    expect((await search('user=user-2&action=lookup')).body.entries[0].target).toBe('6785550119')
+
+    const today = format(new Date(), 'yyyy-MM-dd')
+    expect((await search(`user=dana&from=${today}&to=${today}`)).body.pagination.total).toBe(2)
+    expect((await search('user=dana&to=2020-01-01')).body.pagination.total).toBe(0)
+  })
+
+  it('searches days in the requested timezone, Eastern by default', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    // 10pm on the 19th in New York
+    vi.setSystemTime(new Date('2026-10-20T02:00:00Z'))
+    await recordAuditEvent({ id: 'user-4' }, { action: 'lookup', route: '/lookup', target: 'late' })
+    vi.useRealTimers()
+
+    expect((await search('user=user-4&from=2026-10-19&to=2026-10-19')).body.pagination.total).toBe(1)
+    expect((await search('user=user-4&from=2026-10-20&to=2026-10-20')).body.pagination.total).toBe(0)
+    expect((await search('user=user-4&from=2026-10-20&to=2026-10-20&tz=UTC')).body.pagination.total).toBe(1)
+    expect((await search('tz=Mars/Olympus')).status).toBe(400)
+  })
+
+  it('pages through entries newest first', async () => {
+    for (const target of ['a', 'b', 'c']) {
+      await recordAuditEvent({ id: 'user-3' }, { action: 'lookup', route: '/lookup', target })
+    }
+
+    const { body } = await search('user=user-3&limit=2&offset=1')
+    expect(body.entries.map((e: { target: string }) => e.target)).toEqual(['b', 'a'])
+    expect(body.pagination).toEqual({ total: 3, limit: 2, offset: 1, has_more: false })
+  })
+
+  it('is for admins only and validates the search', async () => {
+    expect((await search('from=last-week')).status).toBe(400)
+
+    vi.stubEnv('MOCK_ROLE', 'analyst')
+    expect((await search('')).status).toBe(403)
+  })
+})
@@ -0,0 +1,195 @@
+import { NextRequest, NextResponse } from 'next/server'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { addDays, format, parseISO } from 'date-fns'
+import { z } from 'zod'
+import { createSupabaseServerClient } from '@/lib/supabase'
+import { RATE_LIMITS, getRateLimitIdentifier, withRateLimit } from '@/lib/rate-limit'
+import { MOCK_USER_ID, getMockAccess, isMockApiEnabled } from '@/lib/mock-api'
+import { EVERY_BRAND, can, loadUserAccess } from '@/lib/access'
+import { AUDIT_ACTIONS, insertAuditEvent, type AuditEvent, type AuditUser } from '@/lib/audit'
+import type { AuditEntry, AuditLogResponse } from '@/lib/types'
+import { DEFAULT_TIMEZONE, isValidTimezone, zonedStartOfDay } from '@/lib/timezone'
+import { isRecord } from '@/lib/utils'
+import type { Database } from '@/types/database'
+
+/**
+ * Route handler behind /api/audit, and recording from server code
+ *
+ * Mock mode keeps the log in memory so the admin page works offline.
+ */
+
+const DEFAULT_LIMIT = 50
+const MAX_LIMIT = 200
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+const dateParam = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Dates must be yyyy-MM-dd')
+
+const auditQuerySchema = z.object({
+  user: z.string().trim().max(200).optional(),
+  brand: z.string().trim().max(50).optional(),
+  action: z.enum(AUDIT_ACTIONS as [string, ...string[]]).optional(),
+  from: dateParam.optional(),
+  to: dateParam.optional(),
+  // Timezone `from` and `to` are days in, as the admin page shows times
+  tz: z.string().refine(isValidTimezone, 'Unknown timezone').default(DEFAULT_TIMEZONE),
+  limit: z.coerce.number().int().min(1).max(MAX_LIMIT).default(DEFAULT_LIMIT),
+  offset: z.coerce.number().int().min(0).default(0),
+})
+
+type AuditQuery = z.infer<typeof auditQuerySchema>
+
+function jsonError(error: string, status: number) {
+  return NextResponse.json({ error }, { status })
+}
+
+// Instant `from` begins in the search's timezone, comparable with `created_at`
+function rangeStart(from: string, timeZone: string): string {
+  return zonedStartOfDay(from, timeZone).toISOString()
+}
+
+// Start of the day after `to`, so the range includes all of `to`
+function rangeEnd(to: string, timeZone: string): string {
+  return zonedStartOfDay(format(addDays(parseISO(to), 1), 'yyyy-MM-dd'), timeZone).toISOString()
+}
+
+// Mock mode: per-process memory, newest first, lost on restart
+const mockEntries: AuditEntry[] = []
+let mockId = 0
+
+function recordMockEvent(user: AuditUser, event: AuditEvent) {
+  mockEntries.unshift({
+    id: ++mockId,
+    user_id: user.id,
+    user_email: user.email ?? null,
+    action: event.action,
+    route: event.route,
+    brands: event.brands ?? [],
+    start_date: event.start_date ?? null,
+    end_date: event.end_date ?? null,
+    target: event.target ?? null,
+    details: event.details ?? {},
+    created_at: new Date().toISOString(),
+  })
+}
+
+function searchMockEntries(query: AuditQuery): { entries: AuditEntry[]; total: number } {
+  const user = query.user?.toLowerCase()
+  const matches = mockEntries.filter(
+    (entry) =>
+      (!user || entry.user_id === query.user || entry.user_email?.toLowerCase().includes(user)) &&
+      (!query.brand || entry.brands.includes(query.brand)) &&
+      (!query.action || entry.action === query.action) &&
+      (!query.from || entry.created_at >= rangeStart(query.from, query.tz)) &&
+      (!query.to || entry.created_at < rangeEnd(query.to, query.tz))
+  )
+  return { entries: matches.slice(query.offset, query.offset + query.limit), total: matches.length }
+}
+
+async function searchSupabase(
+  supabase: SupabaseClient<Database>,
+  query: AuditQuery
+): Promise<{ entries: AuditEntry[]; total: number }> {
+  let request = supabase
+    .from('audit_log')
+    .select('*', { count: 'exact' })
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .range(query.offset, query.offset + query.limit - 1)
+
+  if (query.user) {
+    request = UUID_PATTERN.test(query.user)
+      ? request.eq('user_id', query.user)
+      : request.ilike('user_email', `%${query.user.replace(/[\\%_]/g, '\\$&')}%`)
+  }
+  if (query.brand) request = request.contains('brands', [query.brand])
+  if (query.action) request = request.eq('action', query.action)
+  if (query.from) request = request.gte('created_at', rangeStart(query.from, query.tz))
+  if (query.to) request = request.lt('created_at', rangeEnd(query.to, query.tz))
+
+  const { data, error, count } = await request
+  if (error) throw error
+  return {
+    entries: data.map((row) => ({ ...row, details: isRecord(row.details) ? row.details : {} })),
+    total: count ?? data.length,
+  }
+}
+
+/**
+ * Record `event` for `user` with the service role, or in memory in mock mode
+ * Throws when the insert fails.
+ */
+export async function recordAuditEvent(user: AuditUser, event: AuditEvent): Promise<void> {
+  if (isMockApiEnabled()) {
+    recordMockEvent(user, event)
+  } else {
+    await insertAuditEvent(user, event)
+  }
+}
+
+/**
+ * Authenticate and rate limit per user, then run `handler` with the user and
+ * their Supabase client (null in mock mode)
+ */
+async function withAuditUser(
+  request: NextRequest,
+  handler: (user: AuditUser, supabase: SupabaseClient<Database> | null) => Promise<NextResponse>
+): Promise<NextResponse> {
+  try {
+    if (isMockApiEnabled()) {
+      return await withRateLimit(
+        getRateLimitIdentifier(request.headers, MOCK_USER_ID),
+        RATE_LIMITS.API_REQUEST,
+        () => handler({ id: MOCK_USER_ID }, null)
+      )
+    }
+
+    const supabase = await createSupabaseServerClient()
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    return await withRateLimit(getRateLimitIdentifier(request.headers, user?.id), RATE_LIMITS.API_REQUEST, async () =>
+      user ? handler({ id: user.id, email: user.email }, supabase) : jsonError('Not authenticated', 401)
+    )
+  } catch (error) {
+    console.error('Audit log error:', error)
+    return jsonError('Failed to read the audit log', 500)
+  }
+}
+
+/**
+ * GET /api/audit: search the log, newest first; admins on every brand only
+ */
+export function searchAuditLog(request: NextRequest) {
+  return withAuditUser(request, async (user, supabase) => {
+    const access = supabase ? await loadUserAccess(supabase, user.id) : getMockAccess()
+    if (!can(access, EVERY_BRAND, 'view_audit_log')) {
+      return jsonError('Only admins can view the audit log', 403)
+    }
+
+    const parsed = auditQuerySchema.safeParse(
+      Object.fromEntries(
+        Array.from(request.nextUrl.searchParams).filter(([, value]) => value !== '')
+      )
+    )
+    if (!parsed.success) {
+      return jsonError(parsed.error.issues[0]?.message || 'Invalid search', 400)
+    }
+
+    const query = parsed.data
+    const { entries, total } = supabase
+      ? await searchSupabase(supabase, query)
+      : searchMockEntries(query)
+    const response: AuditLogResponse = {
+      entries,
+      pagination: {
+        total,
+        limit: query.limit,
+        offset: query.offset,
+        has_more: query.offset + entries.length < total,
+      },
+    }
+    return NextResponse.json(response)
+  })
+}
@@ -0,0 +1,67 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { getAuditScope, isPIIPage } from './audit'
+import { rememberBrandTimezones } from './timezone'
+
+describe('getAuditScope', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('records the brand and explicit dates', () => {
+    expect(getAuditScope(new URLSearchParams('brand=58&start=2026-10-01&end=2026-10-07'))).toEqual({
+      brands: ['58'],
+      start_date: '2026-10-01',
+      end_date: '2026-10-07',
+    })
+  })
+
+  it('lists each brand of a portfolio selection', () => {
+    expect(getAuditScope(new URLSearchParams('brand=58&brands=58,64')).brands).toEqual(['58', '64'])
+    expect(getAuditScope(new URLSearchParams('')).brands).toEqual([])
+  })
+
+  it('resolves a rolling preset and keeps its name', () => {
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date('2026-10-19T15:00:00Z'))
+
+    expect(getAuditScope(new URLSearchParams('brand=64&preset=last-7-days'))).toEqual({
+      brands: ['64'],
+      start_date: '2026-10-13',
+      end_date: '2026-10-19',
+      details: { preset: 'last-7-days', timezone: 'America/New_York' },
+    })
+  })
+
+  it('resolves a preset in the brand timezone', () => {
+    vi.useFakeTimers()
+    // Still the 18th in Los Angeles
+    vi.setSystemTime(new Date('2026-10-19T03:00:00Z'))
+    rememberBrandTimezones([
+      { shortcode: '71', full_name: 'West', primary_domain: 'west.example.com', locations: [], timezone: 'America/Los_Angeles' },
+    ])
+
+    expect(getAuditScope(new URLSearchParams('brand=71&preset=today'))).toMatchObject({
+      start_date: '2026-10-18',
+      end_date: '2026-10-18',
+      details: { preset: 'today', timezone: 'America/Los_Angeles' },
+    })
+  })
+
+  it('ignores malformed dates', () => {
+    expect(getAuditScope(new URLSearchParams('start=yesterday&end=today'))).toEqual({ brands: [] })
+  })
+
+  it('ignores dates that look right but are not real days', () => {
+    expect(getAuditScope(new URLSearchParams('brand=58&start=2025-99-99&end=2025-99-99'))).toEqual({
+      brands: ['58'],
+    })
+    expect(getAuditScope(new URLSearchParams('start=2025-02-01&end=2025-02-30'))).toEqual({ brands: [] })
+  })
+})
+
+describe('isPIIPage', () => {
+  it('covers the pages showing contact details', () => {
+    expect(['/leads', '/appointments', '/matches', '/lookup', '/leads/123'].every(isPIIPage)).toBe(true)
+    expect(['/', '/attribution', '/audit', '/leadsx'].some(isPIIPage)).toBe(false)
+  })
+})
@@ -0,0 +1,118 @@
+import { createClient, type SupabaseClient } from '@supabase/supabase-js'
+import { format, isValid, parse } from 'date-fns'
+import type { Database, Json } from '@/types/database'
+import { getPresetByValue } from './date-presets'
+import { resolveTimezone, zonedNow } from './timezone'
+import { parseBrandsParam } from './url-params'
+
+/**
+ * Audit log of data access
+ *
+ * Page views (recorded by the middleware), phone lookups, exports and PII
+ * reveals go to the Supabase `audit_log` table. Only the server writes
+ * entries, with the service role, so users can't forge or skip them; admins
+ * on every brand search them at /audit.
+ */
+
+export type AuditAction = 'page_view' | 'lookup' | 'export' | 'pii_reveal'
+
+export const AUDIT_ACTIONS: AuditAction[] = ['page_view', 'lookup', 'export', 'pii_reveal']
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  page_view: 'Page view',
+  lookup: 'Phone lookup',
+  export: 'Export',
+  pii_reveal: 'PII reveal',
+}
+
+export interface AuditUser {
+  id: string
+  email?: string
+}
+
+export interface AuditEvent {
+  action: AuditAction
+  route: string
+  // Brand shortcodes; a portfolio selection lists each (or `all`)
+  brands?: string[]
+  start_date?: string | null // yyyy-MM-dd, inclusive
+  end_date?: string | null
+  // What was looked up or revealed: a phone number, a record id
+  target?: string | null
+  details?: { [key: string]: Json | undefined }
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+// Pages showing contact details; they only load once the view is on record
+const PII_PAGES = ['/leads', '/appointments', '/matches', '/lookup']
+
+// A real calendar day; `2025-99-99` matches the pattern but the date columns refuse it
+function isDateParam(value: string | null): value is string {
+  return value !== null && DATE_PATTERN.test(value) && isValid(parse(value, 'yyyy-MM-dd', new Date()))
+}
+
+export function isPIIPage(pathname: string): boolean {
+  return PII_PAGES.some((page) => pathname === page || pathname.startsWith(`${page}/`))
+}
+
+export function isAuditAction(value: unknown): value is AuditAction {
+  return AUDIT_ACTIONS.includes(value as AuditAction)
+}
+
+/**
+ * Brand and date range of a page or API request, from its filter params
+ * A preset without explicit dates is resolved in the brand's timezone, as the
+ * page resolves it, and its name and timezone are kept in `details`
+ */
+export function getAuditScope(
+  searchParams: URLSearchParams
+): Pick<AuditEvent, 'brands' | 'start_date' | 'end_date' | 'details'> {
+  const brand = searchParams.get('brand')
+  const brands = parseBrandsParam(searchParams.get('brands')) || (brand ? [brand] : [])
+  const start = searchParams.get('start')
+  const end = searchParams.get('end')
+  if (isDateParam(start) && isDateParam(end)) {
+    return { brands, start_date: start, end_date: end }
+  }
+
+  const preset = getPresetByValue(searchParams.get('preset') || '')
+  if (preset) {
+    const timeZone = resolveTimezone(brand || undefined)
+    const range = preset.getRange(zonedNow(timeZone))
+    return {
+      brands,
+      start_date: range.from ? format(range.from, 'yyyy-MM-dd') : null,
+      end_date: range.to ? format(range.to, 'yyyy-MM-dd') : null,
+      details: { preset: preset.value, timezone: timeZone },
+    }
+  }
+  return { brands }
+}
+
+let serviceClient: SupabaseClient<Database> | undefined
+
+// The table has no insert policy, so writes need the service role
+function getServiceClient(): SupabaseClient<Database> {
+  serviceClient ??= createClient<Database>(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!,
+    { auth: { persistSession: false, autoRefreshToken: false } }
+  )
+  return serviceClient
+}
+
+/**
+ * Insert `event` for `user`, throwing when it can't be written so callers
+ * decide whether the request may go ahead unrecorded
+ * `user` must come from a verified session; the entry is written as given.
+ */
+export async function insertAuditEvent(user: AuditUser, event: AuditEvent): Promise<void> {
+  const { error } = await getServiceClient().from('audit_log').insert({
+    ...event,
+    details: event.details ?? {},
+    user_id: user.id,
+    user_email: user.email ?? null,
+  })
+  if (error) throw error
+}
@@ -0,0 +1,71 @@
+import { differenceInCalendarDays, subDays, subYears, startOfDay, endOfDay } from 'date-fns'
+import type { ComparisonMode, DateRange } from './types'
+
+export interface ComparisonOption {
+  label: string
+  value: ComparisonMode
+}
+
+export const COMPARISON_OPTIONS: ComparisonOption[] = [
+  { label: 'No comparison', value: 'none' },
+  { label: 'Previous period', value: 'previous_period' },
+  { label: 'Same period last year', value: 'previous_year' },
+]
+
+export function isComparisonMode(value: string | null): value is ComparisonMode {
+  return COMPARISON_OPTIONS.some(option => option.value === value)
+}
+
+/**
+ * Get the date range to compare the selected range against
+ * Previous period is the same number of days immediately before the range
+ */
+export function getComparisonRange(range: DateRange, mode: ComparisonMode): DateRange | null {
+  if (mode === 'none' || !range.from || !range.to) return null
+
+  if (mode === 'previous_year') {
+    return {
+      from: startOfDay(subYears(range.from, 1)),
+      to: endOfDay(subYears(range.to, 1)),
+    }
+  }
+
+  const days = differenceInCalendarDays(range.to, range.from) + 1
+  return {
+    from: startOfDay(subDays(range.from, days)),
+    to: endOfDay(subDays(range.from, 1)),
+  }
+}
+
+/**
+ * Percentage change from previous to current
+ * Returns undefined when there is no meaningful baseline
+ */
+export function percentChange(
+  current: number | null | undefined,
+  previous: number | null | undefined
+): number | undefined {
+  if (current === null || current === undefined) return undefined
+  if (previous === null || previous === undefined || isNaN(previous)) return undefined
+  if (previous === 0) return current === 0 ? 0 : undefined
+  return ((current - previous) / previous) * 100
+}
+
+/**
+ * Parse API rate strings like "23.5%" or "4.2" into numbers
+ */
+export function parseRate(value: string | null | undefined): number | undefined {
+  if (!value) return undefined
+  const parsed = parseFloat(value)
+  return isNaN(parsed) ? undefined : parsed
+}
+
+/**
+ * Percentage change between two API rate strings
+ */
+export function rateChange(
+  current: string | null | undefined,
+  previous: string | null | undefined
+): number | undefined {
+  return percentChange(parseRate(current), parseRate(previous))
+}
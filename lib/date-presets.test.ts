@@ -0,0 +1,106 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { addMilliseconds, endOfDay } from 'date-fns'
+import { DATE_PRESETS, DATE_PRESET_GROUPS, findMatchingPreset, getPresetByValue } from './date-presets'
+
+// Wednesday 15 October 2025, mid-afternoon
+const now = new Date(2025, 9, 15, 15, 30)
+
+describe('DATE_PRESETS', () => {
+  it('has the documented presets plus fiscal ones, each in a known group', () => {
+    const groups = DATE_PRESET_GROUPS.map((group) => group.value)
+
+    expect(DATE_PRESETS.filter((preset) => preset.group !== 'fiscal')).toHaveLength(15)
+    expect(DATE_PRESETS.filter((preset) => preset.group === 'fiscal')).toHaveLength(6)
+    expect(new Set(DATE_PRESETS.map((preset) => preset.value)).size).toBe(DATE_PRESETS.length)
+    for (const preset of DATE_PRESETS) {
+      expect(groups).toContain(preset.group)
+    }
+  })
+
+  it.each([
+    ['today', new Date(2025, 9, 15), endOfDay(new Date(2025, 9, 15))],
+    ['yesterday', new Date(2025, 9, 14), endOfDay(new Date(2025, 9, 14))],
+    ['last-7-days', new Date(2025, 9, 9), endOfDay(now)],
+    ['last-14-days', new Date(2025, 9, 2), endOfDay(now)],
+    ['last-30-days', new Date(2025, 8, 16), endOfDay(now)],
+    ['last-60-days', new Date(2025, 7, 17), endOfDay(now)],
+    ['last-90-days', new Date(2025, 6, 18), endOfDay(now)],
+    ['this-week', new Date(2025, 9, 12), endOfDay(now)],
+    ['last-week', new Date(2025, 9, 5), endOfDay(new Date(2025, 9, 11))],
+    ['this-month', new Date(2025, 9, 1), endOfDay(now)],
+    ['last-month', new Date(2025, 8, 1), endOfDay(new Date(2025, 8, 30))],
+    ['last-3-months', new Date(2025, 6, 15), endOfDay(now)],
+    ['last-6-months', new Date(2025, 3, 15), endOfDay(now)],
+    ['this-year', new Date(2025, 0, 1), endOfDay(now)],
+    ['last-year', new Date(2024, 0, 1), endOfDay(new Date(2024, 11, 31))],
+    // Sunday-start 4-4-5: fiscal 2025 runs 29 Dec 2024 to 3 Jan 2026
+    ['this-fiscal-month', new Date(2025, 8, 28), endOfDay(now)],
+    ['last-fiscal-month', new Date(2025, 7, 24), endOfDay(new Date(2025, 8, 27))],
+    ['this-fiscal-quarter', new Date(2025, 8, 28), endOfDay(now)],
+    ['last-fiscal-quarter', new Date(2025, 5, 29), endOfDay(new Date(2025, 8, 27))],
+    ['this-fiscal-year', new Date(2024, 11, 29), endOfDay(now)],
+    ['last-fiscal-year', new Date(2023, 11, 31), endOfDay(new Date(2024, 11, 28))],
+  ])('computes %s', (value, from, to) => {
+    expect(getPresetByValue(value)!.getRange(now)).toEqual({ from, to })
+  })
+
+  describe('without an explicit now', () => {
+    afterEach(() => {
+      vi.useRealTimers()
+    })
+
+    it('uses the time of the call rather than module load', () => {
+      vi.useFakeTimers()
+      const today = getPresetByValue('today')!
+
+      vi.setSystemTime(now)
+      expect(today.getRange().from).toEqual(new Date(2025, 9, 15))
+
+      vi.setSystemTime(new Date(2025, 9, 16, 0, 5))
+      expect(today.getRange().from).toEqual(new Date(2025, 9, 16))
+    })
+  })
+})
+
+describe('getPresetByValue', () => {
+  it('finds presets by value', () => {
+    expect(getPresetByValue('last-30-days')?.label).toBe('Last 30 Days')
+    expect(getPresetByValue('nope')).toBeUndefined()
+  })
+})
+
+describe('findMatchingPreset', () => {
+  it.each(DATE_PRESETS.map((preset) => [preset.value, preset]))(
+    'matches the %s range',
+    (_, preset) => {
+      expect(findMatchingPreset(preset.getRange(now), now, preset.value)).toBe(preset)
+    }
+  )
+
+  it('prefers the first preset when two ranges coincide', () => {
+    // Sunday: This Week starts today
+    const sunday = new Date(2025, 9, 12, 9)
+
+    expect(findMatchingPreset(getPresetByValue('this-week')!.getRange(sunday), sunday)?.value).toBe('today')
+  })
+
+  it('prefers the preset the range was picked from', () => {
+    const sunday = new Date(2025, 9, 12, 9)
+    const range = getPresetByValue('this-week')!.getRange(sunday)
+
+    expect(findMatchingPreset(range, sunday, 'this-week')?.value).toBe('this-week')
+    expect(findMatchingPreset(range, sunday, 'last-week')?.value).toBe('today')
+  })
+
+  it('does not match a range that is off by a millisecond', () => {
+    const range = getPresetByValue('last-month')!.getRange()
+
+    expect(findMatchingPreset({ ...range, to: addMilliseconds(range.to!, -1) })).toBeUndefined()
+  })
+
+  it('does not match an open-ended range', () => {
+    const { from } = getPresetByValue('this-month')!.getRange()
+
+    expect(findMatchingPreset({ from, to: undefined })).toBeUndefined()
+  })
+})
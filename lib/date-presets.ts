@@ -2,76 +2,229 @@ import {
   startOfDay,
   endOfDay,
   subDays,
+  subWeeks,
   startOfWeek,
   endOfWeek,
   startOfMonth,
   endOfMonth,
   subMonths,
   startOfYear,
-  endOfYear
+  endOfYear,
+  subYears
 } from 'date-fns'
 import type { DateRange } from './types'
+import {
+  WEEK_STARTS_ON,
+  getFiscalMonth,
+  getFiscalQuarter,
+  getFiscalYear,
+  getWeekStartName,
+  type FiscalPeriod,
+} from './fiscal-calendar'
+
+export type DatePresetGroup = 'quick' | 'weekly' | 'monthly' | 'yearly' | 'fiscal'
 
 export interface DatePreset {
   label: string
   value: string
-  getRange: () => DateRange
+  group: DatePresetGroup
+  /** Range relative to `now`, which defaults to the time of the call */
+  getRange: (now?: Date) => DateRange
   description?: string
 }
 
-const today = new Date()
+export const DATE_PRESET_GROUPS: { value: DatePresetGroup; label: string }[] = [
+  { value: 'quick', label: 'Quick Options' },
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'monthly', label: 'Monthly' },
+  { value: 'yearly', label: 'Yearly' },
+  { value: 'fiscal', label: 'Fiscal (4-4-5)' },
+]
+
+const weekOptions = { weekStartsOn: WEEK_STARTS_ON }
+
+/**
+ * The last `days` days, including today
+ */
+function lastDays(label: string, days: number, description: string): DatePreset {
+  return {
+    label,
+    value: `last-${days}-days`,
+    group: 'quick',
+    description,
+    getRange: (now = new Date()) => ({
+      from: startOfDay(subDays(now, days - 1)),
+      to: endOfDay(now),
+    }),
+  }
+}
+
+/**
+ * Current fiscal period to date, and the full period before it
+ */
+function fiscalPresets(
+  name: string,
+  getPeriod: (date: Date) => FiscalPeriod
+): [DatePreset, DatePreset] {
+  return [
+    {
+      label: `This Fiscal ${name}`,
+      value: `this-fiscal-${name.toLowerCase()}`,
+      group: 'fiscal',
+      description: `Fiscal ${name.toLowerCase()} to date`,
+      getRange: (now = new Date()) => ({
+        from: getPeriod(now).from,
+        to: endOfDay(now),
+      }),
+    },
+    {
+      label: `Last Fiscal ${name}`,
+      value: `last-fiscal-${name.toLowerCase()}`,
+      group: 'fiscal',
+      description: `Previous full fiscal ${name.toLowerCase()}`,
+      getRange: (now = new Date()) => {
+        const previous = getPeriod(subDays(getPeriod(now).from, 1))
+        return { from: previous.from, to: previous.to }
+      },
+    },
+  ]
+}
 
+/**
+ * The last `months` calendar months, including today
+ */
+function lastMonths(label: string, months: number, description: string): DatePreset {
+  return {
+    label,
+    value: `last-${months}-months`,
+    group: 'monthly',
+    description,
+    getRange: (now = new Date()) => ({
+      from: startOfDay(subMonths(now, months)),
+      to: endOfDay(now),
+    }),
+  }
+}
+
+// Ranges are computed when getRange is called so long-lived tabs don't go stale
 export const DATE_PRESETS: DatePreset[] = [
   {
-    label: 'Last 30 Days',
-    value: 'last-30-days',
-    description: 'Past 30 days',
-    getRange: () => ({
-      from: startOfDay(subDays(today, 29)),
-      to: endOfDay(today),
+    label: 'Today',
+    value: 'today',
+    group: 'quick',
+    description: 'Current day',
+    getRange: (now = new Date()) => ({
+      from: startOfDay(now),
+      to: endOfDay(now),
+    }),
+  },
+  {
+    label: 'Yesterday',
+    value: 'yesterday',
+    group: 'quick',
+    description: 'Previous day',
+    getRange: (now = new Date()) => ({
+      from: startOfDay(subDays(now, 1)),
+      to: endOfDay(subDays(now, 1)),
+    }),
+  },
+  lastDays('Last 7 Days', 7, 'Past week including today'),
+  lastDays('Last 14 Days', 14, 'Past 2 weeks including today'),
+  lastDays('Last 30 Days', 30, 'Past 30 days including today'),
+  lastDays('Last 60 Days', 60, 'Past 60 days including today'),
+  lastDays('Last 90 Days', 90, 'Past 90 days including today'),
+  {
+    label: 'This Week',
+    value: 'this-week',
+    group: 'weekly',
+    description: `${getWeekStartName()} to today`,
+    getRange: (now = new Date()) => ({
+      from: startOfWeek(now, weekOptions),
+      to: endOfDay(now),
     }),
   },
   {
     label: 'Last Week',
     value: 'last-week',
+    group: 'weekly',
     description: 'Previous full week',
-    getRange: () => ({
-      from: startOfWeek(subDays(today, 7)),
-      to: endOfWeek(subDays(today, 7)),
+    getRange: (now = new Date()) => ({
+      from: startOfWeek(subWeeks(now, 1), weekOptions),
+      to: endOfWeek(subWeeks(now, 1), weekOptions),
     }),
   },
   {
     label: 'This Month',
     value: 'this-month',
+    group: 'monthly',
     description: 'Month to date',
-    getRange: () => ({
-      from: startOfMonth(today),
-      to: endOfDay(today),
+    getRange: (now = new Date()) => ({
+      from: startOfMonth(now),
+      to: endOfDay(now),
     }),
   },
   {
     label: 'Last Month',
     value: 'last-month',
+    group: 'monthly',
     description: 'Previous full month',
-    getRange: () => ({
-      from: startOfMonth(subMonths(today, 1)),
-      to: endOfMonth(subMonths(today, 1)),
+    getRange: (now = new Date()) => ({
+      from: startOfMonth(subMonths(now, 1)),
+      to: endOfMonth(subMonths(now, 1)),
+    }),
+  },
+  lastMonths('Last 3 Months', 3, 'Past 3 months including today'),
+  lastMonths('Last 6 Months', 6, 'Past 6 months including today'),
+  {
+    label: 'This Year',
+    value: 'this-year',
+    group: 'yearly',
+    description: 'Year to date',
+    getRange: (now = new Date()) => ({
+      from: startOfYear(now),
+      to: endOfDay(now),
     }),
   },
+  {
+    label: 'Last Year',
+    value: 'last-year',
+    group: 'yearly',
+    description: 'Previous full year',
+    getRange: (now = new Date()) => ({
+      from: startOfYear(subYears(now, 1)),
+      to: endOfYear(subYears(now, 1)),
+    }),
+  },
+  ...fiscalPresets('Month', getFiscalMonth),
+  ...fiscalPresets('Quarter', getFiscalQuarter),
+  ...fiscalPresets('Year', getFiscalYear),
 ]
 
 export function getPresetByValue(value: string): DatePreset | undefined {
   return DATE_PRESETS.find(preset => preset.value === value)
 }
 
-export function findMatchingPreset(range: DateRange): DatePreset | undefined {
+function matchesRange(preset: DatePreset, range: DateRange, now: Date): boolean {
+  const presetRange = preset.getRange(now)
+  return (
+    presetRange.from?.getTime() === range.from?.getTime() &&
+    presetRange.to?.getTime() === range.to?.getTime()
+  )
+}
+
+/**
+ * Preset whose current range equals `range`
+ * `preferred` wins if it matches, otherwise the first match does (e.g. Today over This Week on a Sunday)
+ */
+export function findMatchingPreset(
+  range: DateRange,
+  now: Date = new Date(),
+  preferred?: string
+): DatePreset | undefined {
   if (!range.from || !range.to) return undefined
 
-  return DATE_PRESETS.find(preset => {
-    const presetRange = preset.getRange()
-    return (
-      presetRange.from?.getTime() === range.from?.getTime() &&
-      presetRange.to?.getTime() === range.to?.getTime()
-    )
-  })
+  const preferredPreset = preferred ? getPresetByValue(preferred) : undefined
+  if (preferredPreset && matchesRange(preferredPreset, range, now)) return preferredPreset
+
+  return DATE_PRESETS.find(preset => matchesRange(preset, range, now))
 }
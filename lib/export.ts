@@ -0,0 +1,170 @@
+import { format } from 'date-fns'
+import type { Appointment, Filters, Lead } from './types'
+
+export type ExportFormat = 'csv' | 'xlsx'
+
+// Marks a reporting request as an export; the /api proxy checks the
+// `export` permission and records it in the audit log
+export const EXPORT_PARAM = 'export'
+
+export function isExportFormat(value: unknown): value is ExportFormat {
+  return value === 'csv' || value === 'xlsx'
+}
+
+export type ExportValue = string | number | boolean | null | undefined
+
+export interface ExportColumn<T> {
+  header: string
+  value: (row: T) => ExportValue
+}
+
+export interface ExportProgress {
+  loaded: number
+  total: number
+}
+
+export interface Page<T> {
+  items: T[]
+  total: number
+  hasMore: boolean
+}
+
+// Large enough to keep the number of round trips low, small enough that a
+// single page never blocks the main thread noticeably
+const EXPORT_PAGE_SIZE = 500
+
+export const LEAD_EXPORT_COLUMNS: ExportColumn<Lead>[] = [
+  { header: 'ID', value: (lead) => lead.id },
+  { header: 'Type', value: (lead) => lead.type },
+  { header: 'Brand', value: (lead) => lead.brand },
+  { header: 'Timestamp', value: (lead) => lead.timestamp },
+  { header: 'Name', value: (lead) => lead.name },
+  { header: 'Phone', value: (lead) => lead.phone },
+  { header: 'Email', value: (lead) => lead.email },
+  { header: 'First Call', value: (lead) => lead.first_call },
+  { header: 'Source', value: (lead) => lead.source },
+  { header: 'Source Name', value: (lead) => lead.source_name },
+  { header: 'UTM Source', value: (lead) => lead.utm_source },
+  { header: 'UTM Medium', value: (lead) => lead.utm_medium },
+  { header: 'UTM Campaign', value: (lead) => lead.utm_campaign },
+  { header: 'GCLID', value: (lead) => lead.gclid },
+  { header: 'GBRAID', value: (lead) => lead.gbraid },
+  { header: 'WBRAID', value: (lead) => lead.wbraid },
+  { header: 'MSCLKID', value: (lead) => lead.msclkid },
+  { header: 'FBCLID', value: (lead) => lead.fbclid },
+  { header: 'Location', value: (lead) => lead.location },
+  { header: 'Zip Code', value: (lead) => lead.zip_code },
+]
+
+export const APPOINTMENT_EXPORT_COLUMNS: ExportColumn<Appointment>[] = [
+  { header: 'ID', value: (appt) => appt.id },
+  { header: 'Job Number', value: (appt) => appt.job_number },
+  { header: 'Created On', value: (appt) => appt.created_on },
+  { header: 'Customer ID', value: (appt) => appt.customer_id },
+  { header: 'Customer Name', value: (appt) => appt.customer_name },
+  { header: 'Phone', value: (appt) => appt.phone },
+  { header: 'Email', value: (appt) => appt.email },
+  { header: 'Address', value: (appt) => appt.address },
+  { header: 'City', value: (appt) => appt.city },
+  { header: 'State', value: (appt) => appt.state },
+  { header: 'Zip', value: (appt) => appt.zip },
+  { header: 'Job Status', value: (appt) => appt.job_status },
+  { header: 'Location ID', value: (appt) => appt.location_id },
+  { header: 'Business Unit ID', value: (appt) => appt.business_unit_id },
+]
+
+/**
+ * Walk every page of a paginated endpoint
+ * Yields to the event loop between pages so the tab stays responsive
+ */
+export async function fetchAllPages<T>(
+  fetchPage: (limit: number, offset: number) => Promise<Page<T>>,
+  onProgress?: (progress: ExportProgress) => void,
+  signal?: AbortSignal
+): Promise<T[]> {
+  const rows: T[] = []
+  let offset = 0
+
+  while (true) {
+    if (signal?.aborted) throw new DOMException('Export cancelled', 'AbortError')
+
+    const page = await fetchPage(EXPORT_PAGE_SIZE, offset)
+    rows.push(...page.items)
+    offset += page.items.length
+    onProgress?.({ loaded: rows.length, total: Math.max(page.total, rows.length) })
+
+    if (!page.hasMore || page.items.length === 0) break
+
+    await new Promise((resolve) => setTimeout(resolve, 0))
+  }
+
+  return rows
+}
+
+// Numbers and phone numbers like +16785550100 or -12.5 are data, not formulas
+const NUMERIC_PATTERN = /^[+-]?[\d\s().-]+$/
+
+function escapeCSV(value: ExportValue): string {
+  if (value === null || value === undefined) return ''
+  const str = String(value)
+  // Guard against formula injection when the file is opened in a spreadsheet
+  const isFormula = typeof value === 'string' && /^[=+\-@\t\r]/.test(str) && !NUMERIC_PATTERN.test(str)
+  const safe = isFormula ? `'${str}` : str
+  return /[",\n\r]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe
+}
+
+/**
+ * Build a CSV blob row by row so large exports never hold one giant string
+ */
+export function toCSV<T>(rows: T[], columns: ExportColumn<T>[]): Blob {
+  const parts: string[] = [columns.map((column) => escapeCSV(column.header)).join(',') + '\r\n']
+
+  for (const row of rows) {
+    parts.push(columns.map((column) => escapeCSV(column.value(row))).join(',') + '\r\n')
+  }
+
+  // BOM so Excel detects UTF-8
+  return new Blob(['\uFEFF', ...parts], { type: 'text/csv;charset=utf-8' })
+}
+
+/**
+ * Build an Excel workbook blob
+ * The writer is loaded on demand to keep it out of the page bundles
+ */
+export async function toXLSX<T>(rows: T[], columns: ExportColumn<T>[], sheet: string): Promise<Blob> {
+  const { default: writeXlsxFile } = await import('write-excel-file/browser')
+
+  const header = columns.map((column) => ({ value: column.header, fontWeight: 'bold' as const }))
+  const data = rows.map((row) =>
+    columns.map((column) => {
+      const value = column.value(row)
+      return value === null || value === undefined ? null : value
+    })
+  )
+
+  return writeXlsxFile([header, ...data], {
+    sheet,
+    stickyRowsCount: 1,
+  }).toBlob()
+}
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  URL.revokeObjectURL(url)
+}
+
+/**
+ * File name for an export, e.g. leads_58_2025-10-01_2025-10-31.csv
+ */
+export function getExportFilename(name: string, filters: Filters, exportFormat: ExportFormat): string {
+  const parts = [name, filters.brand]
+  if (filters.dateRange.from) parts.push(format(filters.dateRange.from, 'yyyy-MM-dd'))
+  if (filters.dateRange.to) parts.push(format(filters.dateRange.to, 'yyyy-MM-dd'))
+  return `${parts.join('_')}.${exportFormat}`
+}
@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest'
+import { differenceInCalendarWeeks, endOfDay } from 'date-fns'
+import {
+  getFiscalMonth,
+  getFiscalMonths,
+  getFiscalQuarter,
+  getFiscalYear,
+  getFiscalYearStart,
+} from './fiscal-calendar'
+
+const MONDAY = 1
+
+function weeks(period: { from: Date; to: Date }) {
+  return differenceInCalendarWeeks(period.to, period.from, { weekStartsOn: MONDAY }) + 1
+}
+
+describe('getFiscalYearStart', () => {
+  it('starts on the week-start day nearest 1 January', () => {
+    // 1 Jan 2025 is a Wednesday, 2026 a Thursday, 2027 a Friday
+    expect(getFiscalYearStart(2025, MONDAY)).toEqual(new Date(2024, 11, 30))
+    expect(getFiscalYearStart(2026, MONDAY)).toEqual(new Date(2025, 11, 29))
+    expect(getFiscalYearStart(2027, MONDAY)).toEqual(new Date(2027, 0, 4))
+  })
+
+  it('follows the configured week start', () => {
+    expect(getFiscalYearStart(2025, 0)).toEqual(new Date(2024, 11, 29))
+  })
+})
+
+describe('getFiscalYear', () => {
+  it('runs whole weeks up to the next fiscal year', () => {
+    expect(getFiscalYear(new Date(2025, 5, 1), MONDAY)).toEqual({
+      year: 2025,
+      from: new Date(2024, 11, 30),
+      to: endOfDay(new Date(2025, 11, 28)),
+    })
+  })
+
+  it('assigns days around new year to the right fiscal year', () => {
+    expect(getFiscalYear(new Date(2024, 11, 29, 23), MONDAY).year).toBe(2024)
+    expect(getFiscalYear(new Date(2024, 11, 30), MONDAY).year).toBe(2025)
+    expect(getFiscalYear(new Date(2027, 0, 3, 12), MONDAY).year).toBe(2026)
+  })
+
+  it('has 53 weeks when the calendar drifts', () => {
+    expect(weeks(getFiscalYear(new Date(2025, 5, 1), MONDAY))).toBe(52)
+    expect(weeks(getFiscalYear(new Date(2026, 5, 1), MONDAY))).toBe(53)
+  })
+})
+
+describe('getFiscalMonths', () => {
+  it('splits each quarter into 4, 4 and 5 weeks', () => {
+    expect(getFiscalMonths(2025, MONDAY).map(weeks)).toEqual([4, 4, 5, 4, 4, 5, 4, 4, 5, 4, 4, 5])
+  })
+
+  it('adds a 53rd week to the last month', () => {
+    expect(getFiscalMonths(2026, MONDAY).map(weeks)).toEqual([4, 4, 5, 4, 4, 5, 4, 4, 5, 4, 4, 6])
+  })
+
+  it('leaves no gaps between months', () => {
+    const months = getFiscalMonths(2025, MONDAY)
+
+    for (let i = 1; i < months.length; i++) {
+      expect(months[i].from.getTime()).toBe(months[i - 1].to.getTime() + 1)
+    }
+  })
+})
+
+describe('getFiscalMonth', () => {
+  it('finds the month containing a date', () => {
+    expect(getFiscalMonth(new Date(2025, 9, 15, 18), MONDAY)).toEqual({
+      year: 2025,
+      month: 10,
+      from: new Date(2025, 8, 29),
+      to: endOfDay(new Date(2025, 9, 26)),
+    })
+  })
+
+  it('includes the last day of a month', () => {
+    expect(getFiscalMonth(endOfDay(new Date(2025, 0, 26)), MONDAY).month).toBe(1)
+    expect(getFiscalMonth(new Date(2025, 0, 27), MONDAY).month).toBe(2)
+  })
+})
+
+describe('getFiscalQuarter', () => {
+  it('spans three fiscal months', () => {
+    expect(getFiscalQuarter(new Date(2025, 2, 30), MONDAY)).toEqual({
+      year: 2025,
+      quarter: 1,
+      from: new Date(2024, 11, 30),
+      to: endOfDay(new Date(2025, 2, 30)),
+    })
+    expect(getFiscalQuarter(new Date(2025, 2, 31), MONDAY).quarter).toBe(2)
+  })
+})
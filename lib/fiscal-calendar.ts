@@ -0,0 +1,128 @@
+import {
+  addWeeks,
+  differenceInCalendarDays,
+  endOfDay,
+  startOfDay,
+  startOfWeek,
+  subDays,
+  type Day,
+} from 'date-fns'
+
+/**
+ * Reporting calendar: week start and the 4-4-5 fiscal calendar
+ *
+ * A fiscal year starts on the week-start day nearest the first of
+ * NEXT_PUBLIC_FISCAL_YEAR_START_MONTH, so it runs 52 or 53 whole weeks.
+ * Each quarter is 13 weeks split into 4, 4 and 5 week months; a 53rd week
+ * is added to the last month of the year.
+ */
+
+export interface FiscalPeriod {
+  /** Fiscal year, named for the calendar year it starts in */
+  year: number
+  from: Date
+  to: Date
+}
+
+export interface FiscalMonth extends FiscalPeriod {
+  /** 1-12 */
+  month: number
+}
+
+export interface FiscalQuarter extends FiscalPeriod {
+  /** 1-4 */
+  quarter: number
+}
+
+function parseWeekStart(value: string | undefined): Day {
+  const day = Number(value)
+  return Number.isInteger(day) && day >= 0 && day <= 6 ? (day as Day) : 0
+}
+
+function parseMonth(value: string | undefined): number {
+  const month = Number(value)
+  return Number.isInteger(month) && month >= 1 && month <= 12 ? month : 1
+}
+
+/** 0 = Sunday (the default) ... 6 = Saturday */
+export const WEEK_STARTS_ON: Day = parseWeekStart(process.env.NEXT_PUBLIC_WEEK_STARTS_ON)
+
+/** Calendar month (1-12) the fiscal year is anchored to */
+export const FISCAL_YEAR_START_MONTH = parseMonth(process.env.NEXT_PUBLIC_FISCAL_YEAR_START_MONTH)
+
+// Weeks in each month of a fiscal quarter
+const FISCAL_PATTERN = [4, 4, 5]
+
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+
+export function getWeekStartName(weekStartsOn: Day = WEEK_STARTS_ON): string {
+  return WEEKDAY_NAMES[weekStartsOn]
+}
+
+/**
+ * First day of fiscal year `year`
+ */
+export function getFiscalYearStart(year: number, weekStartsOn: Day = WEEK_STARTS_ON): Date {
+  const anchor = new Date(year, FISCAL_YEAR_START_MONTH - 1, 1)
+  const weekStart = startOfWeek(anchor, { weekStartsOn })
+  // Nearest week start: round forward when the anchor is in the back half of the week
+  return differenceInCalendarDays(anchor, weekStart) <= 3 ? weekStart : addWeeks(weekStart, 1)
+}
+
+/**
+ * Fiscal year containing `date`
+ */
+export function getFiscalYear(date: Date, weekStartsOn: Day = WEEK_STARTS_ON): FiscalPeriod {
+  let year = date.getFullYear()
+  if (date < getFiscalYearStart(year, weekStartsOn)) {
+    year--
+  } else if (date >= getFiscalYearStart(year + 1, weekStartsOn)) {
+    year++
+  }
+
+  return {
+    year,
+    from: getFiscalYearStart(year, weekStartsOn),
+    to: endOfDay(subDays(getFiscalYearStart(year + 1, weekStartsOn), 1)),
+  }
+}
+
+/**
+ * The twelve fiscal months of fiscal year `year`
+ */
+export function getFiscalMonths(year: number, weekStartsOn: Day = WEEK_STARTS_ON): FiscalMonth[] {
+  const nextYearStart = getFiscalYearStart(year + 1, weekStartsOn)
+  const months: FiscalMonth[] = []
+  let from = getFiscalYearStart(year, weekStartsOn)
+
+  for (let month = 1; month <= 12; month++) {
+    // The last month runs to the end of the year, picking up any 53rd week
+    const next = month === 12
+      ? nextYearStart
+      : addWeeks(from, FISCAL_PATTERN[(month - 1) % FISCAL_PATTERN.length])
+    months.push({ year, month, from, to: endOfDay(subDays(next, 1)) })
+    from = next
+  }
+
+  return months
+}
+
+/**
+ * Fiscal month containing `date`
+ */
+export function getFiscalMonth(date: Date, weekStartsOn: Day = WEEK_STARTS_ON): FiscalMonth {
+  const { year } = getFiscalYear(date, weekStartsOn)
+  const day = startOfDay(date)
+  const months = getFiscalMonths(year, weekStartsOn)
+  return months.find((month) => day <= month.to) || months[months.length - 1]
+}
+
+/**
+ * Fiscal quarter containing `date`
+ */
+export function getFiscalQuarter(date: Date, weekStartsOn: Day = WEEK_STARTS_ON): FiscalQuarter {
+  const { year, month } = getFiscalMonth(date, weekStartsOn)
+  const quarter = Math.ceil(month / 3)
+  const months = getFiscalMonths(year, weekStartsOn).slice((quarter - 1) * 3, quarter * 3)
+  return { year, quarter, from: months[0].from, to: months[2].to }
+}
@@ -0,0 +1,18 @@
+import type { LeadWithAppointment, MatchType } from './types'
+
+export const MATCH_TYPE_LABELS: Record<MatchType, string> = {
+  st_customer_id: 'ServiceTitan ID',
+  phone: 'Phone',
+  email: 'Email',
+}
+
+export const LOOKFORWARD_OPTIONS = [7, 14, 30, 60, 90]
+
+/**
+ * Which rule matched a lead to its appointment, as reported by the backend
+ * Undefined when the backend doesn't send one; the rule isn't guessed from the contact fields
+ */
+export function getMatchType(match: LeadWithAppointment): MatchType | undefined {
+  if (!match.matched || !match.appointment) return undefined
+  return match.match_type
+}
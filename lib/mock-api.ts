@@ -0,0 +1,488 @@
+import {
+  MOCK_BRANDS,
+  dayToTime,
+  eachDay,
+  getAppointmentForLead,
+  getAppointmentsInRange,
+  getCallForLead,
+  getLeadsInRange,
+  getLocationId,
+  getMockBrand,
+  toDay,
+  type AppointmentFixture,
+  type FormCategory,
+  type LeadFixture,
+} from './mock-fixtures'
+import type {
+  AppointmentsResponse,
+  AttributionBreakdownResponse,
+  BrandConfig,
+  BrandLocation,
+  CallRailLookupResponse,
+  ChannelStats,
+  Lead,
+  LeadsResponse,
+  LeadsWithAppointmentsResponse,
+  LeadWithAppointment,
+  MetricsSummaryResponse,
+  MetricsTrend,
+  TrendGranularity,
+} from './types'
+import { EVERY_BRAND, isRole, type UserAccess } from './access'
+
+/**
+ * Mock implementation of the reporting API, served by the /api proxy routes
+ * when MOCK_API=true so the dashboard runs without the real backend
+ */
+
+export interface MockRequest {
+  method: string
+  path: string[]
+  searchParams: URLSearchParams
+  body?: unknown
+}
+
+export interface MockResponse {
+  status: number
+  body: unknown
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const DEFAULT_LOOKFORWARD_DAYS = 30
+const DEFAULT_PAGE_SIZE = 50
+const CALL_LOOKUP_DAYS = 90
+// Keep a mistyped range from generating years of fixtures
+const MAX_RANGE_DAYS = 2 * 366
+
+const CLICK_ID_FIELDS = ['gclid', 'gbraid', 'wbraid', 'fbclid', 'msclkid'] as const
+
+// Stands in for the Supabase user id in mock mode
+export const MOCK_USER_ID = 'mock-user'
+
+/**
+ * Mock mode grants every brand; MOCK_ROLE picks the role (admin by default)
+ */
+export function getMockAccess(): UserAccess {
+  const role = process.env.MOCK_ROLE
+  return { grants: [{ brand: EVERY_BRAND, role: isRole(role) ? role : 'admin' }] }
+}
+
+/**
+ * Mock mode never applies to production builds
+ */
+export function isMockApiEnabled(): boolean {
+  return process.env.MOCK_API === 'true' && process.env.NODE_ENV !== 'production'
+}
+
+function ok(body: unknown): MockResponse {
+  return { status: 200, body }
+}
+
+function fail(status: number, error: string): MockResponse {
+  return { status, body: { success: false, error } }
+}
+
+function rate(count: number, total: number): string {
+  return `${(total > 0 ? (count / total) * 100 : 0).toFixed(1)}%`
+}
+
+function countBy<T>(items: T[], key: (item: T) => string | undefined): Record<string, number> {
+  const counts: Record<string, number> = {}
+  for (const item of items) {
+    const value = key(item) || 'Unknown'
+    counts[value] = (counts[value] || 0) + 1
+  }
+  return counts
+}
+
+interface ReportingQuery {
+  brand: BrandConfig
+  start: string
+  end: string
+  // Set when narrowed by location or market
+  locations?: BrandLocation[]
+}
+
+/**
+ * Parse brand/start/end and the optional location or market narrowing
+ */
+function parseQuery(searchParams: URLSearchParams): ReportingQuery | MockResponse {
+  const shortcode = searchParams.get('brand')
+  const start = searchParams.get('start')
+  const end = searchParams.get('end')
+  if (!shortcode || !start || !end) return fail(400, 'brand, start and end are required')
+
+  const brand = getMockBrand(shortcode)
+  if (!brand) return fail(404, `Unknown brand: ${shortcode}`)
+
+  const startTime = dayToTime(start)
+  const endTime = dayToTime(end)
+  if (isNaN(startTime) || isNaN(endTime) || startTime > endTime) {
+    return fail(400, 'start and end must be yyyy-MM-dd with start <= end')
+  }
+  if ((endTime - startTime) / DAY_MS > MAX_RANGE_DAYS) {
+    return fail(400, `Date range is limited to ${MAX_RANGE_DAYS} days`)
+  }
+
+  const location = searchParams.get('location')
+  const market = searchParams.get('market')
+  if (!location && !market) return { brand, start, end }
+
+  const locations = brand.locations.filter((loc) =>
+    location ? loc.location_name === location : loc.market === market
+  )
+  return { brand, start, end, locations }
+}
+
+function isMockResponse(value: ReportingQuery | MockResponse): value is MockResponse {
+  return 'status' in value
+}
+
+function scopedLeads(query: ReportingQuery): LeadFixture[] {
+  const leads = getLeadsInRange(query.brand, query.start, query.end)
+  if (!query.locations) return leads
+  const names = new Set(query.locations.map((loc) => loc.location_name))
+  return leads.filter(({ lead }) => lead.location && names.has(lead.location))
+}
+
+function scopedAppointments(query: ReportingQuery): AppointmentFixture[] {
+  const appointments = getAppointmentsInRange(query.brand, query.start, query.end)
+  if (!query.locations) return appointments
+  const ids = new Set(query.locations.map((loc) => getLocationId(query.brand, loc)))
+  return appointments.filter(({ appointment }) => appointment.location_id && ids.has(appointment.location_id))
+}
+
+/**
+ * The lead's appointment if it was created within the lookforward window
+ */
+function matchLead(brand: BrandConfig, fixture: LeadFixture, lookforwardDays: number) {
+  const match = getAppointmentForLead(brand, fixture)
+  if (!match) return undefined
+  const days = (Date.parse(match.appointment.created_on) - Date.parse(fixture.lead.timestamp)) / DAY_MS
+  return days <= lookforwardDays ? { ...match, days } : undefined
+}
+
+function parseLookforward(searchParams: URLSearchParams): number {
+  const value = parseInt(searchParams.get('lookforward_days') || '', 10)
+  return isNaN(value) || value <= 0 ? DEFAULT_LOOKFORWARD_DAYS : value
+}
+
+function paginate<T>(items: T[], searchParams: URLSearchParams) {
+  const limit = Math.max(1, parseInt(searchParams.get('limit') || '', 10) || DEFAULT_PAGE_SIZE)
+  const offset = Math.max(0, parseInt(searchParams.get('offset') || '', 10) || 0)
+  return {
+    page: items.slice(offset, offset + limit),
+    pagination: { total: items.length, limit, offset, has_more: offset + limit < items.length },
+  }
+}
+
+function periodStart(day: string, granularity: TrendGranularity): string {
+  if (granularity === 'month') return `${day.slice(0, 7)}-01`
+  if (granularity === 'week') {
+    // Weeks start on Monday
+    const time = dayToTime(day)
+    const offset = (new Date(time).getUTCDay() + 6) % 7
+    return toDay(time - offset * DAY_MS)
+  }
+  return day
+}
+
+function buildTrend(
+  rows: { fixture: LeadFixture; matched: boolean }[],
+  query: ReportingQuery,
+  granularity: TrendGranularity
+): MetricsTrend {
+  const buckets = new Map<string, { total: number; calls: number; forms: number; matched: number }>()
+  for (const day of eachDay(query.start, query.end)) {
+    const key = periodStart(day, granularity)
+    if (!buckets.has(key)) buckets.set(key, { total: 0, calls: 0, forms: 0, matched: 0 })
+  }
+  for (const { fixture, matched } of rows) {
+    const bucket = buckets.get(periodStart(fixture.lead.timestamp.slice(0, 10), granularity))
+    if (!bucket) continue
+    bucket.total++
+    if (fixture.lead.type === 'call') bucket.calls++
+    else bucket.forms++
+    if (matched) bucket.matched++
+  }
+
+  return {
+    granularity,
+    data: Array.from(buckets.entries()).map(([period_start, bucket]) => ({
+      period_start,
+      total_leads: bucket.total,
+      call_leads: bucket.calls,
+      form_leads: bucket.forms,
+      leads_with_appointments: bucket.matched,
+      conversion_rate: rate(bucket.matched, bucket.total),
+    })),
+  }
+}
+
+function metricsSummary(query: ReportingQuery, searchParams: URLSearchParams): MetricsSummaryResponse {
+  const lookforwardDays = parseLookforward(searchParams)
+  const rows = scopedLeads(query).map((fixture) => {
+    const match = matchLead(query.brand, fixture, lookforwardDays)
+    return { fixture, match, matched: match !== undefined }
+  })
+  const appointments = scopedAppointments(query)
+
+  const stats = (subset: typeof rows): ChannelStats => {
+    const withAppointment = subset.filter((row) => row.matched).length
+    return { total: subset.length, with_appointment: withAppointment, conversion_rate: rate(withAppointment, subset.length) }
+  }
+  const calls = rows.filter(({ fixture }) => fixture.lead.type === 'call')
+  const forms = rows.filter(({ fixture }) => fixture.lead.type === 'form')
+  const firstTimeCalls = calls.filter(({ fixture }) => fixture.lead.first_call)
+  const matched = rows.filter((row) => row.matched)
+  const formsIn = (category: FormCategory) => stats(forms.filter(({ fixture }) => fixture.formCategory === category))
+  const matchesOf = (type: string) => matched.filter((row) => row.match?.matchType === type).length
+
+  const byChannel: Record<string, ChannelStats> = {}
+  for (const channel of new Set(rows.map(({ fixture }) => fixture.channel))) {
+    byChannel[channel] = stats(rows.filter(({ fixture }) => fixture.channel === channel))
+  }
+
+  const totalDays = matched.reduce((sum, row) => sum + (row.match?.days || 0), 0)
+  const firstTimeAndForms = [...firstTimeCalls, ...forms]
+  const granularity = (searchParams.get('trend_granularity') || 'day') as TrendGranularity
+
+  return {
+    success: true,
+    brand: query.brand.shortcode,
+    date_range: { start: query.start, end: query.end, lookforward_days: lookforwardDays },
+    summary: {
+      total_leads: rows.length,
+      call_leads: calls.length,
+      first_time_calls: firstTimeCalls.length,
+      repeat_calls: calls.length - firstTimeCalls.length,
+      form_leads: forms.length,
+      form_leads_by_category: {
+        affiliate_forms: formsIn('affiliate_forms'),
+        meta_leads: formsIn('meta_leads'),
+        website_forms: formsIn('website_forms'),
+      },
+      total_appointments_created_in_range: appointments.length,
+      matched_appointments_in_range: appointments.filter((appt) => appt.leadId).length,
+      unmatched_appointments: appointments.filter((appt) => !appt.leadId).length,
+      total_appointments_matched_to_leads: matched.length,
+      leads_with_appointments: matched.length,
+      call_leads_with_appointments: stats(calls).with_appointment,
+      form_leads_with_appointments: stats(forms).with_appointment,
+      first_time_calls_with_appointments: stats(firstTimeCalls).with_appointment,
+      st_customer_id_matches: matchesOf('st_customer_id'),
+      phone_matches: matchesOf('phone'),
+      email_matches: matchesOf('email'),
+      conversion_rates: {
+        overall: stats(rows).conversion_rate,
+        first_time_calls_and_forms: stats(firstTimeAndForms).conversion_rate,
+        calls_only: stats(calls).conversion_rate,
+        forms_only: stats(forms).conversion_rate,
+        first_time_calls_only: stats(firstTimeCalls).conversion_rate,
+      },
+      avg_days_to_appointment: (matched.length > 0 ? totalDays / matched.length : 0).toFixed(1),
+    },
+    breakdown: {
+      leads_by_standard_channel: countBy(rows, ({ fixture }) => fixture.channel),
+      leads_by_major_category: countBy(rows, ({ fixture }) => fixture.category),
+      by_channel: byChannel,
+    },
+    trend: searchParams.get('include_trend') === 'true' ? buildTrend(rows, query, granularity) : null,
+  }
+}
+
+function attributionBreakdown(query: ReportingQuery): AttributionBreakdownResponse {
+  const leads = scopedLeads(query)
+  const clickIdType = ({ lead }: LeadFixture) => CLICK_ID_FIELDS.find((field) => lead[field]) || 'none'
+
+  return {
+    success: true,
+    brand: query.brand.shortcode,
+    date_range: { start: query.start, end: query.end },
+    total_leads: leads.length,
+    breakdown: {
+      by_channel: countBy(leads, ({ channel }) => channel),
+      by_click_id: countBy(leads, clickIdType),
+      by_source: countBy(leads, ({ lead }) => lead.source),
+      by_utm_source: countBy(leads, ({ lead }) => lead.utm_source),
+      by_utm_medium: countBy(leads, ({ lead }) => lead.utm_medium),
+      by_utm_campaign: countBy(leads, ({ lead }) => lead.utm_campaign),
+      by_source_name: countBy(leads, ({ lead }) => lead.source_name),
+      by_location: countBy(leads, ({ lead }) => lead.location),
+      by_zip_code: countBy(leads, ({ lead }) => lead.zip_code),
+    },
+  }
+}
+
+function digitsOf(value?: string): string {
+  return (value || '').replace(/\D/g, '').slice(-10)
+}
+
+function matchesLeadFilters(lead: Lead, searchParams: URLSearchParams): boolean {
+  const type = searchParams.get('type')
+  if (type && lead.type !== type) return false
+
+  const search = searchParams.get('search')?.toLowerCase()
+  if (search) {
+    const searchDigits = search.replace(/\D/g, '')
+    const found =
+      lead.name?.toLowerCase().includes(search) ||
+      lead.email?.toLowerCase().includes(search) ||
+      (searchDigits.length > 0 && digitsOf(lead.phone).includes(searchDigits))
+    if (!found) return false
+  }
+
+  for (const field of ['utm_source', 'utm_medium', 'utm_campaign', 'zip_code'] as const) {
+    const value = searchParams.get(field)
+    if (value && lead[field]?.toLowerCase() !== value.toLowerCase()) return false
+  }
+
+  const firstCall = searchParams.get('first_call')
+  if (firstCall !== null && lead.first_call !== (firstCall === 'true')) return false
+
+  const hasClickId = searchParams.get('has_click_id')
+  if (hasClickId !== null && CLICK_ID_FIELDS.some((field) => lead[field]) !== (hasClickId === 'true')) {
+    return false
+  }
+
+  return true
+}
+
+function leads(query: ReportingQuery, searchParams: URLSearchParams): LeadsResponse {
+  const sort = searchParams.get('sort') === 'source' ? 'source' : 'timestamp'
+  const direction = searchParams.get('order') === 'asc' ? 1 : -1
+
+  const rows = scopedLeads(query)
+    .map(({ lead }) => lead)
+    .filter((lead) => matchesLeadFilters(lead, searchParams))
+    .sort((a, b) => {
+      const left = sort === 'source' ? a.source_name || '' : a.timestamp
+      const right = sort === 'source' ? b.source_name || '' : b.timestamp
+      return left.localeCompare(right) * direction
+    })
+  const { page, pagination } = paginate(rows, searchParams)
+
+  return {
+    success: true,
+    brand: query.brand.shortcode,
+    date_range: { start: query.start, end: query.end },
+    pagination,
+    leads: page,
+  }
+}
+
+function appointments(query: ReportingQuery, searchParams: URLSearchParams): AppointmentsResponse {
+  const status = searchParams.get('job_status')?.toLowerCase()
+  const rows = scopedAppointments(query)
+    .map(({ appointment }) => appointment)
+    .filter((appointment) => !status || appointment.job_status?.toLowerCase() === status)
+    .reverse()
+  const { page, pagination } = paginate(rows, searchParams)
+
+  return {
+    success: true,
+    brand: query.brand.shortcode,
+    date_range: { start: query.start, end: query.end },
+    pagination,
+    appointments: page,
+  }
+}
+
+function leadsWithAppointments(query: ReportingQuery, searchParams: URLSearchParams): LeadsWithAppointmentsResponse {
+  const lookforwardDays = parseLookforward(searchParams)
+  const matches: LeadWithAppointment[] = scopedLeads(query)
+    .map((fixture) => {
+      const match = matchLead(query.brand, fixture, lookforwardDays)
+      return match
+        ? { lead: fixture.lead, appointment: match.appointment, matched: true, match_score: 1, match_type: match.matchType }
+        : { lead: fixture.lead, matched: false }
+    })
+    .reverse()
+  const matchedLeads = matches.filter((match) => match.matched).length
+
+  return {
+    success: true,
+    data: {
+      matches,
+      summary: {
+        total_leads: matches.length,
+        total_appointments: scopedAppointments(query).length,
+        matched_leads: matchedLeads,
+        unmatched_leads: matches.length - matchedLeads,
+        conversion_rate: matches.length > 0 ? Math.round((matchedLeads / matches.length) * 1000) / 10 : 0,
+      },
+    },
+  }
+}
+
+/**
+ * Most recent call lead from the number across every brand
+ */
+function callRailLookup(body: unknown): CallRailLookupResponse {
+  const phoneNumber =
+    body && typeof body === 'object' && 'phoneNumber' in body && typeof body.phoneNumber === 'string'
+      ? body.phoneNumber
+      : ''
+  const phone = digitsOf(phoneNumber)
+  if (phone.length !== 10) {
+    return { success: false, error: 'Invalid phone number', message: 'Enter a 10-digit US phone number' }
+  }
+
+  const end = toDay(Date.now())
+  const start = toDay(Date.now() - CALL_LOOKUP_DAYS * DAY_MS)
+  for (const brand of MOCK_BRANDS) {
+    const call = getLeadsInRange(brand, start, end)
+      .filter(({ lead }) => lead.type === 'call' && digitsOf(lead.phone) === phone)
+      .pop()
+    if (call) return { success: true, data: getCallForLead(brand, call) }
+  }
+
+  return { success: false, error: 'Not found', message: `No calls from this number in the last ${CALL_LOOKUP_DAYS} days` }
+}
+
+function brands(path: string[]): MockResponse {
+  if (path.length === 0) return ok({ access: 'public', brands: MOCK_BRANDS })
+
+  if (path[0] === 'by-domain' && path[1]) {
+    const domain = path[1].toLowerCase()
+    const brand = MOCK_BRANDS.find(
+      (b) => b.primary_domain === domain || b.alternate_domains?.includes(domain)
+    )
+    return brand
+      ? ok({ access: 'public', brand, matched_domain: domain })
+      : { status: 404, body: { error: `No brand for domain ${domain}` } }
+  }
+
+  const brand = getMockBrand(path[0])
+  return brand ? ok({ access: 'public', brand }) : { status: 404, body: { error: `Unknown brand: ${path[0]}` } }
+}
+
+const REPORTING_HANDLERS: Record<string, (query: ReportingQuery, searchParams: URLSearchParams) => unknown> = {
+  'metrics/summary': metricsSummary,
+  'attribution/breakdown': attributionBreakdown,
+  leads,
+  appointments,
+  'leads-with-appointments': leadsWithAppointments,
+}
+
+/**
+ * Answer a proxied request the way the reporting API would
+ */
+export function handleMockRequest({ method, path, searchParams, body }: MockRequest): MockResponse {
+  const [root, ...rest] = path
+
+  if (root === 'brands' && method === 'GET') return brands(rest)
+  if (root !== 'reporting') return fail(404, 'Not found')
+
+  const endpoint = rest.join('/')
+  if (endpoint === 'callrail/lookup') {
+    return method === 'POST' ? ok(callRailLookup(body)) : fail(405, 'Method not allowed')
+  }
+
+  const handler = REPORTING_HANDLERS[endpoint]
+  if (!handler) return fail(404, 'Not found')
+  if (method !== 'GET') return fail(405, 'Method not allowed')
+
+  const query = parseQuery(searchParams)
+  return isMockResponse(query) ? query : ok(handler(query, searchParams))
+}
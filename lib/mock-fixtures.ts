@@ -0,0 +1,361 @@
+import type { Appointment, BrandConfig, BrandLocation, CallRailLookupResponse, Lead, MatchType } from './types'
+
+/**
+ * Deterministic fixture data for the mock reporting API
+ *
+ * Every lead is generated from a seed of brand + day, and every appointment
+ * from its lead's ID, so the same request always returns the same rows and
+ * endpoints stay consistent with each other
+ */
+
+export const MOCK_BRANDS: BrandConfig[] = [
+  {
+    shortcode: '58',
+    full_name: 'Valu Home Centers',
+    primary_domain: 'valuhomecenters.com',
+    alternate_domains: ['www.valuhomecenters.com'],
+    locations: [
+      { location_name: 'Buffalo', city: 'Buffalo', state: 'NY', market: 'Western New York', servicetitan_business_unit: '5801' },
+      { location_name: 'Amherst', city: 'Amherst', state: 'NY', market: 'Western New York', servicetitan_business_unit: '5801' },
+      { location_name: 'Rochester', city: 'Rochester', state: 'NY', market: 'Finger Lakes', servicetitan_business_unit: '5802' },
+      { location_name: 'Syracuse', city: 'Syracuse', state: 'NY', market: 'Central New York', servicetitan_business_unit: '5803' },
+    ],
+  },
+  {
+    shortcode: '64',
+    full_name: 'The Patch Boys',
+    primary_domain: 'patchboys.com',
+    locations: [
+      { location_name: 'Cincinnati', city: 'Cincinnati', state: 'OH', market: 'Southwest Ohio', servicetitan_business_unit: '6401' },
+      { location_name: 'Dayton', city: 'Dayton', state: 'OH', market: 'Southwest Ohio', servicetitan_business_unit: '6402' },
+      { location_name: 'Columbus', city: 'Columbus', state: 'OH', market: 'Central Ohio', servicetitan_business_unit: '6403' },
+    ],
+  },
+  {
+    shortcode: '65',
+    full_name: 'Budget Blinds',
+    primary_domain: 'budgetblinds.com',
+    locations: [
+      { location_name: 'Pittsburgh', city: 'Pittsburgh', state: 'PA', market: 'Western Pennsylvania', servicetitan_business_unit: '6501' },
+      { location_name: 'Erie', city: 'Erie', state: 'PA', market: 'Western Pennsylvania', servicetitan_business_unit: '6502' },
+    ],
+  },
+]
+
+const AREA_CODES: Record<string, string> = { NY: '716', OH: '513', PA: '412' }
+const ZIP_PREFIXES: Record<string, string> = { NY: '14', OH: '45', PA: '15' }
+
+const FIRST_NAMES = ['James', 'Mary', 'Robert', 'Patricia', 'John', 'Jennifer', 'Michael', 'Linda', 'David', 'Elizabeth', 'William', 'Susan', 'Maria', 'Thomas', 'Karen', 'Daniel']
+const LAST_NAMES = ['Smith', 'Johnson', 'Williams', 'Brown', 'Jones', 'Garcia', 'Miller', 'Davis', 'Rodriguez', 'Martinez', 'Wilson', 'Anderson', 'Taylor', 'Moore', 'Jackson', 'Lee']
+const STREETS = ['Maple Ave', 'Oak St', 'Elm St', 'Main St', 'Park Rd', 'Cedar Ln', 'Lakeview Dr', 'Hillcrest Rd']
+
+export type FormCategory = 'affiliate_forms' | 'meta_leads' | 'website_forms'
+
+interface ChannelProfile {
+  channel: string
+  category: string
+  formCategory: FormCategory
+  weight: number
+  conversion: number
+  source: string
+  source_name: string
+  utm_source?: string
+  utm_medium?: string
+  campaigns?: string[]
+  clickId?: 'gclid' | 'gbraid' | 'fbclid' | 'msclkid'
+}
+
+const CHANNELS: ChannelProfile[] = [
+  { channel: 'Google Ads', category: 'Paid Search', formCategory: 'website_forms', weight: 30, conversion: 0.38, source: 'google', source_name: 'Google Ads', utm_source: 'google', utm_medium: 'cpc', campaigns: ['brand-search', 'basement-waterproofing', 'foundation-repair'], clickId: 'gclid' },
+  { channel: 'Google Organic', category: 'Organic', formCategory: 'website_forms', weight: 18, conversion: 0.34, source: 'google', source_name: 'Google Organic' },
+  { channel: 'Meta Ads', category: 'Paid Social', formCategory: 'meta_leads', weight: 16, conversion: 0.22, source: 'facebook', source_name: 'Facebook Lead Ads', utm_source: 'facebook', utm_medium: 'paid_social', campaigns: ['spring-promo', 'retargeting'], clickId: 'fbclid' },
+  { channel: 'Microsoft Ads', category: 'Paid Search', formCategory: 'website_forms', weight: 6, conversion: 0.31, source: 'bing', source_name: 'Microsoft Ads', utm_source: 'bing', utm_medium: 'cpc', campaigns: ['brand-search'], clickId: 'msclkid' },
+  { channel: 'Yelp', category: 'Affiliate', formCategory: 'affiliate_forms', weight: 8, conversion: 0.27, source: 'yelp', source_name: 'Yelp', utm_source: 'yelp', utm_medium: 'referral' },
+  { channel: 'HomeAdvisor', category: 'Affiliate', formCategory: 'affiliate_forms', weight: 9, conversion: 0.18, source: 'homeadvisor', source_name: 'HomeAdvisor', utm_source: 'homeadvisor', utm_medium: 'affiliate' },
+  { channel: 'Direct', category: 'Direct', formCategory: 'website_forms', weight: 13, conversion: 0.41, source: 'direct', source_name: 'Direct' },
+]
+
+const JOB_STATUSES: { status: string; weight: number }[] = [
+  { status: 'Scheduled', weight: 30 },
+  { status: 'Completed', weight: 25 },
+  { status: 'Sold', weight: 22 },
+  { status: 'Canceled', weight: 15 },
+  { status: 'Hold', weight: 8 },
+]
+
+// Longest gap between a lead and its appointment
+export const MAX_DAYS_TO_APPOINTMENT = 21
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Fixture rows carry the generator's attribution alongside the public record
+export interface LeadFixture {
+  lead: Lead
+  channel: string
+  category: string
+  formCategory: FormCategory
+}
+
+export interface AppointmentFixture {
+  appointment: Appointment
+  leadId?: string
+  matchType?: MatchType
+}
+
+/** FNV-1a hash of a string, used to seed the generators */
+function hashString(value: string): number {
+  let hash = 2166136261
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i)
+    hash = Math.imul(hash, 16777619)
+  }
+  return hash >>> 0
+}
+
+/** Seeded PRNG (mulberry32) returning floats in [0, 1) */
+function createRandom(seed: string): () => number {
+  let state = hashString(seed)
+  return () => {
+    state = (state + 0x6d2b79f5) | 0
+    let t = Math.imul(state ^ (state >>> 15), 1 | state)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+function pick<T>(random: () => number, items: T[]): T {
+  return items[Math.floor(random() * items.length)]
+}
+
+function pickWeighted<T extends { weight: number }>(random: () => number, items: T[]): T {
+  let roll = random() * items.reduce((sum, item) => sum + item.weight, 0)
+  for (const item of items) {
+    roll -= item.weight
+    if (roll < 0) return item
+  }
+  return items[items.length - 1]
+}
+
+function digits(random: () => number, count: number): string {
+  return Array.from({ length: count }, () => Math.floor(random() * 10)).join('')
+}
+
+/** yyyy-MM-dd for a UTC timestamp */
+export function toDay(time: number): string {
+  return new Date(time).toISOString().slice(0, 10)
+}
+
+export function dayToTime(day: string): number {
+  return Date.parse(`${day}T00:00:00Z`)
+}
+
+/** Every yyyy-MM-dd from `start` to `end` inclusive */
+export function eachDay(start: string, end: string): string[] {
+  const days: string[] = []
+  for (let time = dayToTime(start); time <= dayToTime(end); time += DAY_MS) {
+    days.push(toDay(time))
+  }
+  return days
+}
+
+export function getMockBrand(shortcode: string): BrandConfig | undefined {
+  return MOCK_BRANDS.find((brand) => brand.shortcode === shortcode)
+}
+
+/** ServiceTitan-style location ID: brand shortcode + 1-based location index */
+export function getLocationId(brand: BrandConfig, location: BrandLocation): string {
+  return `${brand.shortcode}${String(brand.locations.indexOf(location) + 1).padStart(2, '0')}`
+}
+
+function locationZip(brand: BrandConfig, location: BrandLocation): string {
+  const suffix = hashString(`${brand.shortcode}:${location.location_name}`) % 1000
+  return `${ZIP_PREFIXES[location.state] || '10'}${String(suffix).padStart(3, '0')}`
+}
+
+/**
+ * Leads for one brand on one day; stable regardless of the range requested
+ */
+export function getLeadsForDay(brand: BrandConfig, day: string): LeadFixture[] {
+  const random = createRandom(`${brand.shortcode}:${day}`)
+  const weekday = new Date(dayToTime(day)).getUTCDay()
+  const weekend = weekday === 0 || weekday === 6
+  const base = brand.locations.length * (weekend ? 1.5 : 3.5)
+  const count = Math.round(base + random() * base)
+
+  return Array.from({ length: count }, (_, index) => {
+    const profile = pickWeighted(random, CHANNELS)
+    const location = pick(random, brand.locations)
+    const type = random() < 0.6 ? 'call' : 'form'
+    const first = pick(random, FIRST_NAMES)
+    const last = pick(random, LAST_NAMES)
+    const phone = `+1${AREA_CODES[location.state] || '555'}555${digits(random, 4)}`
+    // Business hours, 8am-8pm UTC
+    const timestamp = new Date(dayToTime(day) + (8 * 60 + Math.floor(random() * 720)) * 60 * 1000)
+    const campaign = profile.campaigns ? pick(random, profile.campaigns) : undefined
+    const clickId = profile.clickId ? `${profile.clickId}-${digits(random, 12)}` : undefined
+
+    const lead: Lead = {
+      id: `${brand.shortcode}-${day.replace(/-/g, '')}-${String(index + 1).padStart(3, '0')}`,
+      type,
+      brand: brand.shortcode,
+      timestamp: timestamp.toISOString(),
+      name: `${first} ${last}`,
+      phone,
+      email: type === 'form' || random() < 0.3 ? `${first}.${last}${digits(random, 2)}@example.com`.toLowerCase() : undefined,
+      first_call: type === 'call' ? random() < 0.72 : undefined,
+      utm_source: profile.utm_source,
+      utm_medium: profile.utm_medium,
+      utm_campaign: campaign,
+      source: profile.source,
+      source_name: profile.source_name,
+      location: location.location_name,
+      zip_code: locationZip(brand, location),
+    }
+    if (profile.clickId && clickId) lead[profile.clickId] = clickId
+
+    return {
+      lead,
+      channel: profile.channel,
+      category: profile.category,
+      formCategory: profile.formCategory,
+    }
+  })
+}
+
+export function getLeadsInRange(brand: BrandConfig, start: string, end: string): LeadFixture[] {
+  return eachDay(start, end).flatMap((day) => getLeadsForDay(brand, day))
+}
+
+function getChannelProfile(fixture: LeadFixture): ChannelProfile {
+  return CHANNELS.find((profile) => profile.channel === fixture.channel) || CHANNELS[0]
+}
+
+function buildAppointment(
+  brand: BrandConfig,
+  random: () => number,
+  seed: string,
+  createdOn: number,
+  customer: { name: string; phone?: string; email?: string; location: BrandLocation; zip: string }
+): Appointment {
+  const id = 100000 + (hashString(seed) % 900000)
+  return {
+    id,
+    job_number: `J-${id}`,
+    customer_id: String(hashString(`${seed}:customer`) % 10000000),
+    customer_name: customer.name,
+    phone: customer.phone,
+    email: customer.email,
+    address: `${100 + Math.floor(random() * 9800)} ${pick(random, STREETS)}`,
+    city: customer.location.city,
+    state: customer.location.state,
+    zip: customer.zip,
+    job_status: pickWeighted(random, JOB_STATUSES).status,
+    created_on: new Date(createdOn).toISOString(),
+    location_id: getLocationId(brand, customer.location),
+    business_unit_id: customer.location.servicetitan_business_unit,
+  }
+}
+
+/**
+ * The appointment a lead converted into, if any
+ */
+export function getAppointmentForLead(brand: BrandConfig, fixture: LeadFixture): AppointmentFixture | undefined {
+  const { lead } = fixture
+  const random = createRandom(`${lead.id}:appointment`)
+  if (random() >= getChannelProfile(fixture).conversion) return undefined
+
+  // Skewed towards the first few days after the lead
+  const daysLater = Math.floor(random() ** 2 * MAX_DAYS_TO_APPOINTMENT)
+  const createdOn = Date.parse(lead.timestamp) + daysLater * DAY_MS + Math.floor(random() * 6) * 60 * 60 * 1000
+  const location = brand.locations.find((loc) => loc.location_name === lead.location) || brand.locations[0]
+
+  // Most jobs match on phone; some customers give a different number or none
+  const matchRoll = random()
+  const matchType: MatchType =
+    matchRoll < 0.6 ? 'phone' : matchRoll < 0.85 && lead.email ? 'email' : 'st_customer_id'
+  const appointment = buildAppointment(brand, random, lead.id, createdOn, {
+    name: lead.name || 'Unknown',
+    phone: matchType === 'phone' ? lead.phone : `+1${AREA_CODES[location.state] || '555'}555${digits(random, 4)}`,
+    email: matchType === 'st_customer_id' ? undefined : lead.email,
+    location,
+    zip: lead.zip_code || locationZip(brand, location),
+  })
+
+  return { appointment, leadId: lead.id, matchType }
+}
+
+/**
+ * Appointments booked without a tracked lead (walk-ins, repeat customers)
+ */
+function getUnmatchedAppointmentsForDay(brand: BrandConfig, day: string): AppointmentFixture[] {
+  const random = createRandom(`${brand.shortcode}:${day}:unmatched`)
+  const count = Math.floor(random() * (brand.locations.length + 1))
+
+  return Array.from({ length: count }, (_, index) => {
+    const location = pick(random, brand.locations)
+    const createdOn = dayToTime(day) + (8 + Math.floor(random() * 10)) * 60 * 60 * 1000
+    const appointment = buildAppointment(brand, random, `${brand.shortcode}:${day}:unmatched:${index}`, createdOn, {
+      name: `${pick(random, FIRST_NAMES)} ${pick(random, LAST_NAMES)}`,
+      phone: `+1${AREA_CODES[location.state] || '555'}555${digits(random, 4)}`,
+      location,
+      zip: locationZip(brand, location),
+    })
+    return { appointment }
+  })
+}
+
+/**
+ * Appointments created between `start` and `end`, matched or not, oldest first
+ */
+export function getAppointmentsInRange(brand: BrandConfig, start: string, end: string): AppointmentFixture[] {
+  const leadsStart = toDay(dayToTime(start) - MAX_DAYS_TO_APPOINTMENT * DAY_MS)
+  const rangeStart = dayToTime(start)
+  const rangeEnd = dayToTime(end) + DAY_MS
+
+  const fromLeads = getLeadsInRange(brand, leadsStart, end)
+    .map((fixture) => getAppointmentForLead(brand, fixture))
+    .filter((fixture): fixture is AppointmentFixture => {
+      if (!fixture) return false
+      const created = Date.parse(fixture.appointment.created_on)
+      return created >= rangeStart && created < rangeEnd
+    })
+  const unmatched = eachDay(start, end).flatMap((day) => getUnmatchedAppointmentsForDay(brand, day))
+
+  return [...fromLeads, ...unmatched].sort((a, b) =>
+    a.appointment.created_on.localeCompare(b.appointment.created_on)
+  )
+}
+
+/**
+ * CallRail record for a call lead, shaped like the lookup endpoint's `data`
+ */
+export function getCallForLead(brand: BrandConfig, fixture: LeadFixture): NonNullable<CallRailLookupResponse['data']> {
+  const { lead } = fixture
+  const random = createRandom(`${lead.id}:call`)
+  const location = brand.locations.find((loc) => loc.location_name === lead.location) || brand.locations[0]
+  const answered = random() < 0.9
+
+  return {
+    call: {
+      id: `CAL${hashString(lead.id).toString(16)}`,
+      direction: 'inbound',
+      answered,
+      duration: answered ? 45 + Math.floor(random() * 600) : 0,
+      customer_phone_number: lead.phone || '',
+      customer_name: lead.name,
+      tracking_phone_number: `+1${AREA_CODES[location.state] || '555'}555${digits(random, 4)}`,
+      created_at: lead.timestamp,
+      formatted_tracking_source: lead.source_name,
+    },
+    attribution: {
+      utm_source: lead.utm_source,
+      utm_medium: lead.utm_medium,
+      utm_campaign: lead.utm_campaign,
+      gclid: lead.gclid,
+      fbclid: lead.fbclid,
+      msclkid: lead.msclkid,
+      landing_page_url: `https://${brand.primary_domain}/${lead.utm_campaign || ''}`,
+      referring_url: lead.source === 'direct' ? undefined : `https://www.${lead.source}.com/`,
+    },
+  }
+}
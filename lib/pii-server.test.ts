@@ -0,0 +1,87 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { NextRequest } from 'next/server'
+import { handleRevealRequest, maskPIIResponse } from './pii-server'
+import { searchAuditLog } from './audit-server'
+import { MOCK_USER_ID } from './mock-api'
+import { createMemoryRateLimitStore, setRateLimitStore } from './rate-limit'
+
+const lead = { id: 'L1', type: 'call', name: 'Ann Lee', phone: '6785550119', utm_source: 'google' }
+
+async function maskLead(userId = MOCK_USER_ID) {
+  const body = (await maskPIIResponse({ leads: [lead] }, { userId, brand: '58' })) as {
+    leads: Record<string, string>[]
+  }
+  return body.leads[0]
+}
+
+async function reveal(token: unknown) {
+  const response = await handleRevealRequest(
+    new NextRequest('http://localhost/api/pii/reveal', {
+      method: 'POST',
+      headers: { 'x-forwarded-for': '203.0.113.9' },
+      body: JSON.stringify({ token }),
+    })
+  )
+  return { status: response.status, body: await response.json() }
+}
+
+async function revealCount(): Promise<number> {
+  const response = await searchAuditLog(new NextRequest('http://localhost/api/audit?action=pii_reveal'))
+  return (await response.json()).pagination.total
+}
+
+describe('PII reveal (mock mode)', () => {
+  beforeEach(() => {
+    vi.stubEnv('MOCK_API', 'true')
+  })
+
+  it('masks contact fields and leaves the rest alone', async () => {
+    const masked = await maskLead()
+    expect(masked).toMatchObject({ id: 'L1', name: 'A. L.', phone: '(678) ***-**19', utm_source: 'google' })
+    expect(masked.pii_token).toEqual(expect.any(String))
+    expect(JSON.stringify(masked)).not.toContain('5550119')
+  })
+
+  it('reveals the row to the user it was served to and audits it', async () => {
+    const { pii_token } = await maskLead()
+
+    const { status, body } = await reveal(pii_token)
+    expect(status).toBe(200)
+    expect(body).toEqual({ values: { name: 'Ann Lee', phone: '6785550119' } })
+
+    const response = await searchAuditLog(new NextRequest('http://localhost/api/audit?action=pii_reveal&limit=1'))
+    expect((await response.json()).entries[0]).toMatchObject({
+      user_id: MOCK_USER_ID,
+      brands: ['58'],
+      target: 'L1',
+      details: { record_type: 'lead', fields: ['name', 'phone'] },
+    })
+  })
+
+  it('refuses tokens issued to someone else, expired or tampered with', async () => {
+    const reveals = await revealCount()
+    const { pii_token } = await maskLead('someone-else')
+    expect((await reveal(pii_token)).status).toBe(400)
+
+    const fresh = (await maskLead()).pii_token
+    vi.spyOn(Date, 'now').mockReturnValue(Date.now() + 13 * 60 * 60 * 1000)
+    expect((await reveal(fresh)).status).toBe(400)
+    vi.mocked(Date.now).mockRestore()
+
+    expect((await reveal(`${fresh.slice(0, -2)}AA`)).status).toBe(400)
+    expect((await reveal(42)).status).toBe(400)
+    expect(await revealCount()).toBe(reveals)
+  })
+
+  it('lets a viewer reveal a few rows, not a whole table', async () => {
+    vi.stubEnv('MOCK_ROLE', 'viewer')
+    setRateLimitStore(createMemoryRateLimitStore())
+    const { pii_token } = await maskLead()
+
+    const statuses = []
+    for (let i = 0; i < 21; i++) statuses.push((await reveal(pii_token)).status)
+
+    expect(statuses.slice(0, 20).every((status) => status === 200)).toBe(true)
+    expect(statuses[20]).toBe(429)
+  })
+})
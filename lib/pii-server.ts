@@ -0,0 +1,230 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { createSupabaseServerClient } from '@/lib/supabase'
+import { RATE_LIMITS, getRateLimitIdentifier, withRateLimit } from '@/lib/rate-limit'
+import { MOCK_USER_ID, getMockAccess, isMockApiEnabled } from '@/lib/mock-api'
+import { canAccessBrand, loadUserAccess, type UserAccess } from '@/lib/access'
+import { recordAuditEvent } from '@/lib/audit-server'
+import type { AuditUser } from '@/lib/audit'
+import {
+  APPOINTMENT_PII_FIELDS,
+  LEAD_PII_FIELDS,
+  getPIIKind,
+  maskPII,
+  type PIIRecordType,
+} from '@/lib/pii'
+import { isRecord } from '@/lib/utils'
+
+/**
+ * Server side of PII masking: masks contact fields in proxy responses and
+ * answers /api/pii/reveal
+ *
+ * Each masked row gets a `pii_token`: its real values, encrypted with
+ * AES-GCM and bound to the user, brand and an expiry, so revealing needs a
+ * round trip here where it goes in the audit log.
+ */
+
+// Without PII_REVEAL_SECRET each server instance uses its own random key,
+// so tokens only open on the instance that issued them
+const REVEAL_SECRET = process.env.PII_REVEAL_SECRET
+
+const TOKEN_TTL = 12 * 60 * 60 * 1000
+
+interface PIITokenPayload {
+  /** User the row was served to */
+  u: string
+  /** Brand shortcode */
+  b: string
+  t: PIIRecordType
+  /** Record id */
+  i: string
+  /** Expiry, epoch ms */
+  e: number
+  /** The unmasked values */
+  v: Record<string, string>
+}
+
+export interface PIIContext {
+  userId: string
+  brand: string
+}
+
+let keyPromise: Promise<CryptoKey> | undefined
+
+function getKey(): Promise<CryptoKey> {
+  keyPromise ??= REVEAL_SECRET
+    ? crypto.subtle
+        .digest('SHA-256', new TextEncoder().encode(REVEAL_SECRET))
+        .then((digest) => crypto.subtle.importKey('raw', digest, 'AES-GCM', false, ['encrypt', 'decrypt']))
+    : crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt'])
+  return keyPromise
+}
+
+async function sealToken(payload: PIITokenPayload): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(12))
+  const plaintext = new TextEncoder().encode(JSON.stringify(payload))
+  const ciphertext = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, await getKey(), plaintext))
+  return Buffer.concat([iv, ciphertext]).toString('base64url')
+}
+
+/**
+ * The token's payload if it was issued to `userId` and hasn't expired
+ */
+async function openToken(token: string, userId: string): Promise<PIITokenPayload | null> {
+  try {
+    const bytes = Buffer.from(token, 'base64url')
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: bytes.subarray(0, 12) },
+      await getKey(),
+      bytes.subarray(12)
+    )
+    const payload: PIITokenPayload = JSON.parse(new TextDecoder().decode(plaintext))
+    return payload.u === userId && payload.e > Date.now() ? payload : null
+  } catch {
+    return null
+  }
+}
+
+async function maskRecord(
+  record: unknown,
+  type: PIIRecordType,
+  fields: readonly string[],
+  context: PIIContext
+): Promise<unknown> {
+  if (!isRecord(record)) return record
+
+  const masked = { ...record }
+  const values: Record<string, string> = {}
+  for (const field of fields) {
+    const value = record[field]
+    if (typeof value === 'string' && value) {
+      values[field] = value
+      masked[field] = maskPII(getPIIKind(field), value)
+    }
+  }
+
+  if (Object.keys(values).length > 0) {
+    masked.pii_token = await sealToken({
+      u: context.userId,
+      b: context.brand,
+      t: type,
+      i: String(record.id ?? ''),
+      e: Date.now() + TOKEN_TTL,
+      v: values,
+    })
+  }
+  return masked
+}
+
+function maskAll(value: unknown, fn: (item: unknown) => Promise<unknown>): Promise<unknown> | unknown {
+  return Array.isArray(value) ? Promise.all(value.map(fn)) : value
+}
+
+/**
+ * Mask the contact fields of a leads, appointments or matches response
+ */
+export async function maskPIIResponse(body: unknown, context: PIIContext): Promise<unknown> {
+  if (!isRecord(body)) return body
+
+  const maskLead = (lead: unknown) => maskRecord(lead, 'lead', LEAD_PII_FIELDS, context)
+  const maskAppointment = (appt: unknown) => maskRecord(appt, 'appointment', APPOINTMENT_PII_FIELDS, context)
+
+  const masked = { ...body }
+  if ('leads' in body) {
+    masked.leads = await maskAll(body.leads, maskLead)
+  }
+  if ('appointments' in body) {
+    masked.appointments = await maskAll(body.appointments, maskAppointment)
+  }
+  if (isRecord(body.data) && 'matches' in body.data) {
+    masked.data = {
+      ...body.data,
+      matches: await maskAll(body.data.matches, async (match) => {
+        if (!isRecord(match)) return match
+        return {
+          ...match,
+          lead: await maskLead(match.lead),
+          ...(match.appointment !== undefined && { appointment: await maskAppointment(match.appointment) }),
+        }
+      }),
+    }
+  }
+  return masked
+}
+
+const revealRequestSchema = z.object({
+  token: z.string().min(1).max(8192),
+})
+
+function jsonError(error: string, status: number) {
+  return NextResponse.json({ error }, { status })
+}
+
+/**
+ * Unmask the row in the request's token if `user` may see its brand, and log it
+ */
+async function revealForUser(
+  request: NextRequest,
+  user: AuditUser,
+  access: UserAccess
+) {
+  const parsed = revealRequestSchema.safeParse(await request.json().catch(() => undefined))
+  if (!parsed.success) {
+    return jsonError('Invalid request body', 400)
+  }
+
+  const payload = await openToken(parsed.data.token, user.id)
+  if (!payload) {
+    return jsonError('This row can no longer be revealed. Reload the page and try again.', 400)
+  }
+  if (!canAccessBrand(access, payload.b)) {
+    return jsonError('You do not have access to this brand', 403)
+  }
+
+  try {
+    await recordAuditEvent(user, {
+      action: 'pii_reveal',
+      route: request.nextUrl.pathname,
+      brands: [payload.b],
+      target: payload.i,
+      details: { record_type: payload.t, fields: Object.keys(payload.v) },
+    })
+  } catch (error) {
+    console.error('Failed to write audit log:', error)
+    return jsonError('The reveal could not be recorded in the audit log', 503)
+  }
+
+  return NextResponse.json({ values: payload.v })
+}
+
+/**
+ * POST /api/pii/reveal: unmask one row for the user it was served to, and log it
+ * Limited per user by `RATE_LIMITS.PII_REVEAL`, so viewers can check single rows but not unmask a table
+ */
+export async function handleRevealRequest(request: NextRequest) {
+  if (isMockApiEnabled()) {
+    return withRateLimit(getRateLimitIdentifier(request.headers, MOCK_USER_ID), RATE_LIMITS.PII_REVEAL, () =>
+      revealForUser(request, { id: MOCK_USER_ID }, getMockAccess())
+    )
+  }
+
+  const supabase = await createSupabaseServerClient()
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  return withRateLimit(getRateLimitIdentifier(request.headers, user?.id), RATE_LIMITS.PII_REVEAL, async () => {
+    if (!user) {
+      return jsonError('Not authenticated', 401)
+    }
+
+    let access: UserAccess
+    try {
+      access = await loadUserAccess(supabase, user.id)
+    } catch (error) {
+      console.error('Error loading brand access:', error)
+      return jsonError('Failed to check brand access', 500)
+    }
+    return revealForUser(request, { id: user.id, email: user.email }, access)
+  })
+}
@@ -0,0 +1,63 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import {
+  getPresentationMode,
+  maskAddress,
+  maskEmail,
+  maskName,
+  maskPhone,
+  setPresentationMode,
+  subscribePresentationMode,
+} from './pii'
+
+describe('masking', () => {
+  it('keeps the area code and last two digits of a phone', () => {
+    expect(maskPhone('(678) 555-0119')).toBe('(678) ***-**19')
+    expect(maskPhone('+1 678-555-0119')).toBe('(678) ***-**19')
+    expect(maskPhone('555-0119')).toBe('***-**19')
+    expect(maskPhone('12')).toBe('***')
+  })
+
+  it('reduces names to initials', () => {
+    expect(maskName('John Smith')).toBe('J. S.')
+    expect(maskName('  ann  ')).toBe('A.')
+    expect(maskName(' ')).toBe('***')
+  })
+
+  it('keeps the first letters and top-level domain of an email', () => {
+    expect(maskEmail('john.smith@gmail.com')).toBe('j***@g***.com')
+    expect(maskEmail('nobody')).toBe('n***@***')
+  })
+
+  it('hides house numbers', () => {
+    expect(maskAddress('1234 Elm Street, Apt 5')).toBe('**** Elm Street, Apt *')
+  })
+})
+
+describe('presentation mode', () => {
+  afterEach(() => {
+    setPresentationMode(false)
+  })
+
+  it('notifies subscribers and remembers the setting', () => {
+    const storage = new Map<string, string>()
+    vi.stubGlobal('window', {
+      localStorage: {
+        getItem: (key: string) => storage.get(key) ?? null,
+        setItem: (key: string, value: string) => storage.set(key, value),
+        removeItem: (key: string) => storage.delete(key),
+      },
+    })
+    const listener = vi.fn()
+    const unsubscribe = subscribePresentationMode(listener)
+
+    setPresentationMode(true)
+    expect(getPresentationMode()).toBe(true)
+    expect(storage.get('reporting-presentation-mode')).toBe('true')
+    expect(listener).toHaveBeenCalledTimes(1)
+
+    unsubscribe()
+    setPresentationMode(false)
+    expect(storage.has('reporting-presentation-mode')).toBe(false)
+    expect(listener).toHaveBeenCalledTimes(1)
+  })
+})
@@ -0,0 +1,113 @@
+/**
+ * Customer contact details (PII) on screen
+ *
+ * Roles without `view_pii` get lead and appointment contact fields masked by
+ * the /api proxy, each row carrying a `pii_token` that /api/pii/reveal
+ * exchanges for the real values and logs. Presentation mode masks everything
+ * in this browser, whatever the role, for screen-sharing.
+ */
+
+// Contact fields masked on each record type
+export const LEAD_PII_FIELDS = ['name', 'phone', 'email'] as const
+export const APPOINTMENT_PII_FIELDS = ['customer_name', 'phone', 'email', 'address'] as const
+
+export type PIIKind = 'name' | 'phone' | 'email' | 'address'
+
+export type PIIRecordType = 'lead' | 'appointment'
+
+const PII_FIELD_KINDS: Record<string, PIIKind> = {
+  name: 'name',
+  customer_name: 'name',
+  phone: 'phone',
+  email: 'email',
+  address: 'address',
+}
+
+export function getPIIKind(field: string): PIIKind {
+  return PII_FIELD_KINDS[field] || 'name'
+}
+
+/**
+ * (678) 555-0119 -> (678) ***-**19
+ */
+export function maskPhone(value: string): string {
+  const digits = value.replace(/\D/g, '')
+  if (digits.length < 4) return '***'
+  const national = digits.slice(-10)
+  const last = national.slice(-2)
+  return national.length === 10 ? `(${national.slice(0, 3)}) ***-**${last}` : `***-**${last}`
+}
+
+/**
+ * John Smith -> J. S.
+ */
+export function maskName(value: string): string {
+  const initials = value
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((part) => `${part[0].toUpperCase()}.`)
+  return initials.length > 0 ? initials.join(' ') : '***'
+}
+
+/**
+ * john.smith@gmail.com -> j***@g***.com
+ */
+export function maskEmail(value: string): string {
+  const [local, domain = ''] = value.split('@')
+  const dot = domain.lastIndexOf('.')
+  const maskedDomain = dot > 0 ? `${domain[0]}***${domain.slice(dot)}` : '***'
+  return `${local ? local[0] : ''}***@${maskedDomain}`
+}
+
+/**
+ * 1234 Elm Street -> **** Elm Street; the city and state stay visible elsewhere
+ */
+export function maskAddress(value: string): string {
+  return value.replace(/\d/g, '*')
+}
+
+export function maskPII(kind: PIIKind, value: string): string {
+  switch (kind) {
+    case 'phone':
+      return maskPhone(value)
+    case 'email':
+      return maskEmail(value)
+    case 'address':
+      return maskAddress(value)
+    default:
+      return maskName(value)
+  }
+}
+
+// Presentation mode, remembered per browser
+const PRESENTATION_MODE_KEY = 'reporting-presentation-mode'
+
+let presentationMode: boolean | undefined
+const listeners = new Set<() => void>()
+
+export function subscribePresentationMode(listener: () => void): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+export function getPresentationMode(): boolean {
+  if (presentationMode === undefined) {
+    presentationMode =
+      typeof window !== 'undefined' && window.localStorage.getItem(PRESENTATION_MODE_KEY) === 'true'
+  }
+  return presentationMode
+}
+
+export function setPresentationMode(enabled: boolean) {
+  presentationMode = enabled
+  if (typeof window !== 'undefined') {
+    if (enabled) {
+      window.localStorage.setItem(PRESENTATION_MODE_KEY, 'true')
+    } else {
+      window.localStorage.removeItem(PRESENTATION_MODE_KEY)
+    }
+  }
+  listeners.forEach((listener) => listener())
+}
@@ -0,0 +1,111 @@
+import { getBrands, getMetricsSummary, type RequestOptions } from './api-client'
+import { getErrorMessage } from './api-error'
+import { ALL_BRANDS } from './url-params'
+import type { BrandConfig, MetricsSummaryResponse } from './types'
+
+export type MetricsSummary = MetricsSummaryResponse['summary']
+
+export interface BrandSummary {
+  brand: string
+  name: string
+  summary: MetricsSummary | null
+  error?: string
+}
+
+export interface PortfolioTotals {
+  total_leads: number
+  call_leads: number
+  form_leads: number
+  leads_with_appointments: number
+  call_leads_with_appointments: number
+  form_leads_with_appointments: number
+  total_appointments_created_in_range: number
+  conversion_rate: number
+  calls_conversion_rate: number
+  forms_conversion_rate: number
+}
+
+/**
+ * Conversion rate as a percentage, 0 when there are no leads
+ */
+export function conversionRate(withAppointments: number, total: number): number {
+  return total > 0 ? (withAppointments / total) * 100 : 0
+}
+
+/**
+ * Resolve a brand selection (which may contain `all`) to concrete brands
+ */
+export function resolveBrandSelection(selection: string[], brands: BrandConfig[]): BrandConfig[] {
+  if (selection.includes(ALL_BRANDS)) return brands
+  return selection.map(
+    (shortcode) =>
+      brands.find((brand) => brand.shortcode === shortcode) || {
+        shortcode,
+        full_name: shortcode,
+        primary_domain: '',
+        locations: [],
+      }
+  )
+}
+
+/**
+ * Fetch the metrics summary for every selected brand in parallel
+ * A failing brand is reported on its row instead of failing the roll-up
+ */
+export async function getPortfolioSummaries(params: {
+  brands: string[]
+  start: string
+  end: string
+}, options?: RequestOptions): Promise<BrandSummary[]> {
+  const { brands: allBrands } = await getBrands(true, options)
+  const selected = resolveBrandSelection(params.brands, allBrands)
+
+  const results = await Promise.allSettled(
+    selected.map((brand) =>
+      getMetricsSummary({
+        brand: brand.shortcode,
+        start: params.start,
+        end: params.end,
+        include_trend: false,
+      }, options)
+    )
+  )
+
+  // Settled rejections would otherwise hide the caller's cancellation
+  options?.signal?.throwIfAborted()
+
+  return results.map((result, index) => ({
+    brand: selected[index].shortcode,
+    name: selected[index].full_name,
+    summary: result.status === 'fulfilled' ? result.value.summary : null,
+    ...(result.status === 'rejected' && {
+      error: getErrorMessage(result.reason, 'Failed to load'),
+    }),
+  }))
+}
+
+/**
+ * Sum brand summaries into portfolio totals
+ * Rates are recomputed from the summed counts rather than averaged
+ */
+export function aggregateSummaries(summaries: MetricsSummary[]): PortfolioTotals {
+  const sum = (pick: (summary: MetricsSummary) => number) =>
+    summaries.reduce((total, summary) => total + (pick(summary) || 0), 0)
+
+  const totals = {
+    total_leads: sum((s) => s.total_leads),
+    call_leads: sum((s) => s.call_leads),
+    form_leads: sum((s) => s.form_leads),
+    leads_with_appointments: sum((s) => s.leads_with_appointments),
+    call_leads_with_appointments: sum((s) => s.call_leads_with_appointments),
+    form_leads_with_appointments: sum((s) => s.form_leads_with_appointments),
+    total_appointments_created_in_range: sum((s) => s.total_appointments_created_in_range),
+  }
+
+  return {
+    ...totals,
+    conversion_rate: conversionRate(totals.leads_with_appointments, totals.total_leads),
+    calls_conversion_rate: conversionRate(totals.call_leads_with_appointments, totals.call_leads),
+    forms_conversion_rate: conversionRate(totals.form_leads_with_appointments, totals.form_leads),
+  }
+}
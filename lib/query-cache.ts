@@ -0,0 +1,132 @@
+import { isAbortError } from './api-error'
+
+export interface CachePolicy {
+  /** Milliseconds data is served from cache without a request */
+  staleTime: number
+  /** Milliseconds stale data is still served while it revalidates in the background */
+  maxAge: number
+}
+
+export interface QueryOptions<T> {
+  signal?: AbortSignal
+  /** Bypass cached data and fetch (still shares an in-flight request) */
+  force?: boolean
+  /** Receives the fresh data when a stale hit finishes revalidating */
+  onRevalidate?: (data: T) => void
+}
+
+interface CacheEntry {
+  data: unknown
+  updatedAt: number
+}
+
+// One shared request per key; aborted once every caller waiting on it has aborted
+interface InflightRequest {
+  promise: Promise<unknown>
+  controller: AbortController
+  waiters: number
+}
+
+const MAX_ENTRIES = 100
+
+const entries = new Map<string, CacheEntry>()
+const inflight = new Map<string, InflightRequest>()
+
+function setEntry(key: string, data: unknown) {
+  // Re-insert so Map order tracks recency, then evict the oldest entries
+  entries.delete(key)
+  entries.set(key, { data, updatedAt: Date.now() })
+  while (entries.size > MAX_ENTRIES) {
+    entries.delete(entries.keys().next().value as string)
+  }
+}
+
+function startRequest<T>(key: string, fetcher: (signal: AbortSignal) => Promise<T>): InflightRequest {
+  // An aborted request stays in `inflight` until it settles; joining it would only reject
+  const existing = inflight.get(key)
+  if (existing && !existing.controller.signal.aborted) return existing
+
+  const controller = new AbortController()
+  // Identify this request by its controller; an invalidation replaces or drops it
+  const isCurrent = () => inflight.get(key)?.controller === controller
+
+  const promise = (async () => {
+    try {
+      const data = await fetcher(controller.signal)
+      if (isCurrent()) setEntry(key, data)
+      return data
+    } finally {
+      if (isCurrent()) inflight.delete(key)
+    }
+  })()
+
+  const request: InflightRequest = { promise, controller, waiters: 0 }
+  // Failures reach callers through waitFor; don't report them as unhandled here
+  request.promise.catch(() => {})
+  inflight.set(key, request)
+  return request
+}
+
+function waitFor<T>(request: InflightRequest, signal?: AbortSignal): Promise<T> {
+  request.waiters++
+  if (!signal) return request.promise as Promise<T>
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => {
+      reject(new DOMException('The operation was aborted', 'AbortError'))
+      if (--request.waiters === 0) request.controller.abort()
+    }
+    if (signal.aborted) {
+      onAbort()
+      return
+    }
+    signal.addEventListener('abort', onAbort, { once: true })
+    ;(request.promise as Promise<T>)
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener('abort', onAbort))
+  })
+}
+
+/**
+ * Serve `key` from cache where possible, de-duplicating concurrent requests
+ * Stale data is returned immediately and refreshed in the background
+ */
+export async function cachedQuery<T>(
+  key: string,
+  fetcher: (signal: AbortSignal) => Promise<T>,
+  policy: CachePolicy,
+  options: QueryOptions<T> = {}
+): Promise<T> {
+  const entry = entries.get(key)
+
+  if (entry && !options.force) {
+    const age = Date.now() - entry.updatedAt
+    if (age < policy.staleTime) return entry.data as T
+
+    if (age < policy.maxAge) {
+      // The background request has no caller to abort it; it refreshes the cache for everyone
+      waitFor<T>(startRequest(key, fetcher))
+        .then((data) => {
+          if (!options.signal?.aborted) options.onRevalidate?.(data)
+        })
+        .catch((err) => {
+          if (!isAbortError(err)) console.error(`Failed to revalidate ${key}:`, err)
+        })
+      return entry.data as T
+    }
+  }
+
+  return waitFor<T>(startRequest(key, fetcher), options.signal)
+}
+
+/**
+ * Drop cached data for keys starting with `prefix` (everything by default)
+ */
+export function invalidateQueries(prefix = '') {
+  for (const key of Array.from(entries.keys())) {
+    if (key.startsWith(prefix)) entries.delete(key)
+  }
+  for (const key of Array.from(inflight.keys())) {
+    if (key.startsWith(prefix)) inflight.delete(key)
+  }
+}
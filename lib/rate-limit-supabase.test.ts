@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createSupabaseRateLimitStore } from './rate-limit-supabase'
+import type { RateLimitState } from './rate-limit'
+import type { Database } from '@/types/database'
+
+interface Row {
+  key: string
+  state: RateLimitState
+  version: number
+  expires_at: string
+}
+
+/**
+ * Just enough of the Supabase query builder for the store, over an in-memory
+ * table; `beforeWrite` runs between each read and write to simulate a racing request
+ */
+function fakeSupabase(rows: Map<string, Row>, beforeWrite: () => void = () => {}) {
+  const table = {
+    select: () => ({
+      eq: (_column: string, key: string) => ({
+        maybeSingle: async () => ({ data: rows.get(key) ? { ...rows.get(key) } : null, error: null }),
+      }),
+    }),
+    insert: async (row: Row) => {
+      beforeWrite()
+      if (rows.has(row.key)) return { error: { code: '23505' } }
+      rows.set(row.key, row)
+      return { error: null }
+    },
+    update: (patch: Partial<Row>) => ({
+      eq: (_key: string, key: string) => ({
+        eq: (_version: string, version: number) => ({
+          select: async () => {
+            beforeWrite()
+            const row = rows.get(key)
+            if (!row || row.version !== version) return { data: [], error: null }
+            rows.set(key, { ...row, ...patch })
+            return { data: [{ key }], error: null }
+          },
+        }),
+      }),
+    }),
+    delete: () => ({ lt: () => Promise.resolve({ error: null }) }),
+  }
+  return { from: () => table } as unknown as SupabaseClient<Database>
+}
+
+const increment = (state: RateLimitState | null) => {
+  const count = (state?.count ?? 0) + 1
+  return { state: { count }, result: count }
+}
+
+describe('createSupabaseRateLimitStore', () => {
+  it('inserts new keys and updates existing ones', async () => {
+    const rows = new Map<string, Row>()
+    const store = createSupabaseRateLimitStore(fakeSupabase(rows))
+
+    expect(await store.update('k', 60_000, increment)).toBe(1)
+    expect(await store.update('k', 60_000, increment)).toBe(2)
+    expect(rows.get('k')).toMatchObject({ state: { count: 2 }, version: 2 })
+  })
+
+  it('starts over once a row has expired', async () => {
+    const rows = new Map<string, Row>([
+      ['k', { key: 'k', state: { count: 9 }, version: 4, expires_at: new Date(Date.now() - 1).toISOString() }],
+    ])
+    const store = createSupabaseRateLimitStore(fakeSupabase(rows))
+
+    expect(await store.update('k', 60_000, increment)).toBe(1)
+  })
+
+  it('re-reads and retries when another request wrote first', async () => {
+    const rows = new Map<string, Row>()
+    let races = 2
+    const store = createSupabaseRateLimitStore(
+      fakeSupabase(rows, () => {
+        if (races-- <= 0) return
+        const row = rows.get('k')
+        rows.set('k', {
+          key: 'k',
+          state: { count: (row?.state.count ?? 0) + 1 },
+          version: (row?.version ?? 0) + 1,
+          expires_at: new Date(Date.now() + 60_000).toISOString(),
+        })
+      })
+    )
+
+    // Two racing writes land first, so this request counts third
+    expect(await store.update('k', 60_000, increment)).toBe(3)
+  })
+
+  it('gives up on a key that never settles', async () => {
+    const rows = new Map<string, Row>()
+    const store = createSupabaseRateLimitStore(
+      fakeSupabase(rows, () => {
+        const row = rows.get('k')
+        rows.set('k', { key: 'k', state: {}, version: (row?.version ?? 0) + 1, expires_at: new Date(Date.now() + 60_000).toISOString() })
+      })
+    )
+
+    await expect(store.update('k', 60_000, increment)).rejects.toThrow(/contended/)
+  })
+})
@@ -0,0 +1,87 @@
+import { createClient, type SupabaseClient } from '@supabase/supabase-js'
+import type { Database, Json } from '@/types/database'
+import type { RateLimitState, RateLimitStore } from './rate-limit'
+
+/**
+ * Rate limit store in the Postgres `rate_limits` table, shared by every
+ * server instance and the edge middleware
+ *
+ * Each row carries a version; an update only lands if the version is
+ * unchanged since it was read, and racing requests re-read and retry.
+ * The table has no row level security policies, so it needs the service role.
+ */
+
+const MAX_ATTEMPTS = 5
+
+// Postgres unique_violation: another request inserted the key first
+const UNIQUE_VIOLATION = '23505'
+
+const CLEANUP_INTERVAL = 5 * 60 * 1000
+
+function isState(value: Json): value is RateLimitState {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    !Array.isArray(value) &&
+    Object.values(value).every((v) => typeof v === 'number')
+  )
+}
+
+export function createSupabaseRateLimitStore(
+  supabase: SupabaseClient<Database> = createClient<Database>(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!,
+    { auth: { persistSession: false, autoRefreshToken: false } }
+  )
+): RateLimitStore {
+  const table = () => supabase.from('rate_limits')
+  let lastCleanup = Date.now()
+
+  // Keys are written on every request, so expired ones are cleared in passing
+  const cleanup = (now: number) => {
+    if (now - lastCleanup < CLEANUP_INTERVAL) return
+    lastCleanup = now
+    table()
+      .delete()
+      .lt('expires_at', new Date(now).toISOString())
+      .then(({ error }) => {
+        if (error) console.error('Failed to clear expired rate limits:', error)
+      })
+  }
+
+  return {
+    async update(key, ttl, apply) {
+      const now = Date.now()
+      cleanup(now)
+
+      for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+        const { data: row, error } = await table()
+          .select('state, version, expires_at')
+          .eq('key', key)
+          .maybeSingle()
+        if (error) throw error
+
+        const live = row && Date.parse(row.expires_at) > now && isState(row.state)
+        const { state, result } = apply(live ? (row.state as RateLimitState) : null)
+        const expires_at = new Date(now + ttl).toISOString()
+
+        if (!row) {
+          const { error: insertError } = await table().insert({ key, state, version: 1, expires_at })
+          if (!insertError) return result
+          if (insertError.code !== UNIQUE_VIOLATION) throw insertError
+          continue
+        }
+
+        const { data: updated, error: updateError } = await table()
+          .update({ state, version: row.version + 1, expires_at })
+          .eq('key', key)
+          .eq('version', row.version)
+          .select('key')
+        if (updateError) throw updateError
+        if (updated.length > 0) return result
+      }
+
+      throw new Error(`Rate limit for ${key} is too contended to update`)
+    },
+  }
+}
@@ -0,0 +1,171 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+  createMemoryRateLimitStore,
+  getClientIdentifier,
+  getRateLimitIdentifier,
+  rateLimit,
+  setRateLimitStore,
+  withRateLimit,
+  type RateLimitOptions,
+} from './rate-limit'
+
+async function hits(count: number, options: RateLimitOptions, identifier = 'client') {
+  const results = []
+  for (let i = 0; i < count; i++) results.push(await rateLimit(identifier, options))
+  return results
+}
+
+describe('rateLimit', () => {
+  const options = { limit: 3, window: 60 * 1000 }
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date(2025, 0, 1))
+    setRateLimitStore(createMemoryRateLimitStore())
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('allows requests up to the limit within a window', async () => {
+    const results = await hits(4, options)
+
+    expect(results.map((result) => result.success)).toEqual([true, true, true, false])
+    expect(results.map((result) => result.remaining)).toEqual([2, 1, 0, 0])
+    expect(results[3]).toMatchObject({ limit: 3, reset: Date.now() + options.window })
+  })
+
+  it('starts a new window once the reset time has passed', async () => {
+    await hits(4, options)
+
+    vi.advanceTimersByTime(options.window)
+    expect((await rateLimit('client', options)).success).toBe(false)
+
+    vi.advanceTimersByTime(1)
+    expect(await rateLimit('client', options)).toMatchObject({ success: true, remaining: 2 })
+  })
+
+  it('counts identifiers and limits separately', async () => {
+    await hits(3, options)
+
+    expect((await rateLimit('client', options)).success).toBe(false)
+    expect((await rateLimit('other', options)).success).toBe(true)
+    expect((await rateLimit('client', { ...options, limit: 5 })).success).toBe(true)
+    expect((await rateLimit('client', { ...options, algorithm: 'token-bucket' })).success).toBe(true)
+  })
+
+  it('weighs the previous window in a sliding window', async () => {
+    const sliding = { ...options, algorithm: 'sliding-window' as const }
+    await hits(3, sliding)
+
+    // A quarter into the next window, 3 * 0.75 = 2.25 of the old requests still count
+    vi.advanceTimersByTime(options.window * 1.25)
+    expect((await hits(2, sliding)).map((result) => result.success)).toEqual([false, false])
+
+    // Halfway, 1.5 do, leaving room for one
+    vi.advanceTimersByTime(options.window * 0.25)
+    expect((await hits(2, sliding)).map((result) => result.success)).toEqual([true, false])
+
+    vi.advanceTimersByTime(options.window * 2)
+    expect(await rateLimit('client', sliding)).toMatchObject({ success: true, remaining: 2 })
+  })
+
+  it('refills a token bucket evenly over the window', async () => {
+    const bucket = { ...options, algorithm: 'token-bucket' as const }
+    const results = await hits(4, bucket)
+    expect(results.map((result) => result.success)).toEqual([true, true, true, false])
+    expect(results[3].reset).toBe(Date.now() + options.window / 3)
+
+    vi.advanceTimersByTime(options.window / 3)
+    expect((await hits(2, bucket)).map((result) => result.success)).toEqual([true, false])
+
+    vi.advanceTimersByTime(options.window)
+    expect((await hits(4, bucket)).map((result) => result.success)).toEqual([true, true, true, false])
+  })
+
+  it('lets requests through when the store fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    setRateLimitStore({ update: () => Promise.reject(new Error('connection refused')) })
+
+    expect(await rateLimit('client', options)).toMatchObject({ success: true, remaining: 3 })
+    expect(console.error).toHaveBeenCalled()
+  })
+})
+
+describe('getClientIdentifier', () => {
+  it('prefers the first x-forwarded-for address', () => {
+    const headers = new Headers({
+      'x-forwarded-for': ' 203.0.113.7 , 10.0.0.1',
+      'x-real-ip': '198.51.100.2',
+      'cf-connecting-ip': '192.0.2.9',
+    })
+
+    expect(getClientIdentifier(headers)).toBe('203.0.113.7')
+  })
+
+  it('falls back to x-real-ip, then cf-connecting-ip', () => {
+    expect(
+      getClientIdentifier(new Headers({ 'x-real-ip': '198.51.100.2', 'cf-connecting-ip': '192.0.2.9' }))
+    ).toBe('198.51.100.2')
+    expect(getClientIdentifier(new Headers({ 'cf-connecting-ip': '192.0.2.9' }))).toBe('192.0.2.9')
+  })
+
+  it('returns unknown without any address headers', () => {
+    expect(getClientIdentifier(new Headers())).toBe('unknown')
+  })
+})
+
+describe('getRateLimitIdentifier', () => {
+  const headers = new Headers({ 'x-real-ip': '198.51.100.2' })
+
+  it('counts signed-in users by id, whatever their address', () => {
+    expect(getRateLimitIdentifier(headers, 'user-1')).toBe('user:user-1')
+  })
+
+  it('falls back to the client address without a user', () => {
+    expect(getRateLimitIdentifier(headers)).toBe('ip:198.51.100.2')
+    expect(getRateLimitIdentifier(headers, null)).toBe('ip:198.51.100.2')
+  })
+})
+
+describe('withRateLimit', () => {
+  const options = { limit: 2, window: 60 * 1000 }
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date(2025, 0, 1))
+    setRateLimitStore(createMemoryRateLimitStore())
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('adds the limit headers to successful responses', async () => {
+    const response = await withRateLimit('user:1', options, async () => Response.json({ ok: true }))
+
+    expect(response.status).toBe(200)
+    expect(Object.fromEntries(response.headers)).toMatchObject({
+      'x-ratelimit-limit': '2',
+      'x-ratelimit-remaining': '1',
+      'x-ratelimit-reset': String(Date.now() + options.window),
+    })
+    expect(response.headers.has('retry-after')).toBe(false)
+  })
+
+  it('answers 429 without running the handler once the limit is reached', async () => {
+    const handler = vi.fn(async () => Response.json({ ok: true }))
+    await withRateLimit('user:1', options, handler)
+    await withRateLimit('user:1', options, handler)
+
+    vi.advanceTimersByTime(15 * 1000)
+    const response = await withRateLimit('user:1', options, handler)
+
+    expect(handler).toHaveBeenCalledTimes(2)
+    expect(response.status).toBe(429)
+    expect(response.headers.get('x-ratelimit-remaining')).toBe('0')
+    expect(response.headers.get('retry-after')).toBe('45')
+    expect(await response.json()).toMatchObject({ reset: Date.now() + 45 * 1000 })
+  })
+})
@@ -1,13 +1,21 @@
+import { NextResponse } from 'next/server'
+import { createSupabaseRateLimitStore } from './rate-limit-supabase'
+
 /**
  * Rate Limiting Implementation
  *
- * In-memory rate limiter with automatic cleanup
- * Prevents abuse and brute force attacks
+ * Counters live in a pluggable RateLimitStore: process memory by default, or
+ * Postgres through Supabase (lib/rate-limit-supabase.ts) so limits hold
+ * across server instances and deploys. The algorithms are pure functions of
+ * the stored state, so every store runs the same ones.
  */
 
+export type RateLimitAlgorithm = 'fixed-window' | 'sliding-window' | 'token-bucket'
+
 export interface RateLimitOptions {
   limit: number // Maximum number of requests
   window: number // Time window in milliseconds
+  algorithm?: RateLimitAlgorithm // Defaults to fixed-window
 }
 
 export interface RateLimitResult {
@@ -17,53 +25,167 @@ export interface RateLimitResult {
   reset: number
 }
 
-interface RateLimitRecord {
-  count: number
-  resetTime: number
+// What an algorithm keeps per key between requests; stores persist it as JSON
+export type RateLimitState = Record<string, number>
+
+export interface RateLimitStore {
+  /**
+   * Atomically replace the state under `key` with what `apply` returns,
+   * keeping it for `ttl` ms, and return `apply`'s result
+   * `apply` may run more than once when concurrent requests race
+   */
+  update<T>(
+    key: string,
+    ttl: number,
+    apply: (state: RateLimitState | null) => { state: RateLimitState; result: T }
+  ): Promise<T>
 }
 
-// In-memory store for rate limits
-const store = new Map<string, RateLimitRecord>()
+type Algorithm = (
+  state: RateLimitState | null,
+  now: number,
+  options: RateLimitOptions
+) => { state: RateLimitState; result: RateLimitResult }
 
-// Cleanup old entries every 5 minutes
-setInterval(() => {
-  const now = Date.now()
-  for (const [key, record] of store.entries()) {
-    if (now > record.resetTime) {
-      store.delete(key)
-    }
+/**
+ * Up to `limit` requests per window, the count resetting when the window ends
+ */
+const fixedWindow: Algorithm = (state, now, { limit, window }) => {
+  const fresh = !state || now > state.reset
+  const count = (fresh ? 0 : state.count) + 1
+  const reset = fresh ? now + window : state.reset
+
+  return {
+    state: { count, reset },
+    result: { success: count <= limit, limit, remaining: Math.max(0, limit - count), reset },
   }
-}, 5 * 60 * 1000)
+}
 
 /**
- * Check rate limit for a given identifier
+ * Fixed windows weighted by overlap: the previous window's count fades out
+ * as the current one progresses, so there's no burst at window boundaries
+ * Refused requests aren't counted.
  */
-export function rateLimit(
-  identifier: string,
-  options: RateLimitOptions
-): RateLimitResult {
-  const now = Date.now()
-  const key = `${identifier}:${options.limit}:${options.window}`
+const slidingWindow: Algorithm = (state, now, { limit, window }) => {
+  const start = now - (now % window)
+  const sameWindow = state?.start === start
+  const previous = sameWindow ? state.previous : state?.start === start - window ? state.count : 0
+  const current = sameWindow ? state.count : 0
 
-  let record = store.get(key)
+  const weight = 1 - (now - start) / window
+  const used = previous * weight + current
+  const success = used + 1 <= limit
+  const count = success ? current + 1 : current
 
-  // If no record or expired, create new one
-  if (!record || now > record.resetTime) {
-    record = {
-      count: 0,
-      resetTime: now + options.window,
-    }
-    store.set(key, record)
+  return {
+    state: { start, count, previous },
+    result: {
+      success,
+      limit,
+      remaining: Math.max(0, Math.floor(limit - used - (success ? 1 : 0))),
+      reset: start + window,
+    },
   }
+}
 
-  // Increment count
-  record.count++
+/**
+ * A bucket of `limit` tokens refilling evenly over the window; each request
+ * takes one, allowing short bursts up to `limit`
+ * `reset` is when the next token arrives after a refusal, or when the bucket is full again.
+ */
+const tokenBucket: Algorithm = (state, now, { limit, window }) => {
+  const rate = limit / window
+  const available = state ? Math.min(limit, state.tokens + (now - state.updated) * rate) : limit
+  const success = available >= 1
+  const tokens = success ? available - 1 : available
 
   return {
-    success: record.count <= options.limit,
-    remaining: Math.max(0, options.limit - record.count),
-    reset: record.resetTime,
-    limit: options.limit,
+    state: { tokens, updated: now },
+    result: {
+      success,
+      limit,
+      remaining: Math.floor(tokens),
+      reset: now + Math.ceil(((success ? limit : 1) - tokens) / rate),
+    },
+  }
+}
+
+const ALGORITHMS: Record<RateLimitAlgorithm, Algorithm> = {
+  'fixed-window': fixedWindow,
+  'sliding-window': slidingWindow,
+  'token-bucket': tokenBucket,
+}
+
+const CLEANUP_INTERVAL = 5 * 60 * 1000
+
+/**
+ * Store for a single process: fine for development and one-instance
+ * deployments, but counts restart on deploy and aren't shared
+ */
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const entries = new Map<string, { state: RateLimitState; expires: number }>()
+  let lastCleanup = Date.now()
+
+  return {
+    async update(key, ttl, apply) {
+      const now = Date.now()
+
+      // Sweep expired keys as requests arrive; a timer would keep edge and test runtimes busy
+      if (now - lastCleanup > CLEANUP_INTERVAL) {
+        lastCleanup = now
+        for (const [k, entry] of entries) {
+          if (entry.expires <= now) entries.delete(k)
+        }
+      }
+
+      const entry = entries.get(key)
+      const { state, result } = apply(entry && entry.expires > now ? entry.state : null)
+      entries.set(key, { state, expires: now + ttl })
+      return result
+    },
+  }
+}
+
+let store: RateLimitStore | undefined
+
+/**
+ * The store `rateLimit` uses: Postgres when RATE_LIMIT_STORE=supabase, else memory
+ */
+export function getRateLimitStore(): RateLimitStore {
+  store ??=
+    process.env.RATE_LIMIT_STORE === 'supabase'
+      ? createSupabaseRateLimitStore()
+      : createMemoryRateLimitStore()
+  return store
+}
+
+/**
+ * Replace the store, e.g. with a fresh memory store per test
+ */
+export function setRateLimitStore(next: RateLimitStore) {
+  store = next
+}
+
+/**
+ * Check rate limit for a given identifier
+ * If the store fails the request is let through; an outage shouldn't lock everyone out
+ */
+export async function rateLimit(
+  identifier: string,
+  options: RateLimitOptions
+): Promise<RateLimitResult> {
+  const algorithm = options.algorithm || 'fixed-window'
+  const key = `${algorithm}:${identifier}:${options.limit}:${options.window}`
+  const now = Date.now()
+
+  try {
+    // Kept a window past its last use, so sliding windows still see the previous one
+    return await getRateLimitStore().update(key, options.window * 2, (state) =>
+      ALGORITHMS[algorithm](state, now, options)
+    )
+  } catch (error) {
+    console.error('Rate limit store error:', error)
+    return { success: true, limit: options.limit, remaining: options.limit, reset: now + options.window }
   }
 }
 
@@ -92,6 +214,62 @@ export function getClientIdentifier(headers: Headers): string {
   return 'unknown'
 }
 
+/**
+ * Who a request counts against: the signed-in user when known, so colleagues
+ * behind one office IP don't share a limit, otherwise the client IP
+ */
+export function getRateLimitIdentifier(headers: Headers, userId?: string | null): string {
+  return userId ? `user:${userId}` : `ip:${getClientIdentifier(headers)}`
+}
+
+/**
+ * X-RateLimit-* headers describing `result`, plus Retry-After once it's refused
+ */
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  const headers: Record<string, string> = {
+    'X-RateLimit-Limit': result.limit.toString(),
+    'X-RateLimit-Remaining': result.remaining.toString(),
+    'X-RateLimit-Reset': result.reset.toString(),
+  }
+  if (!result.success) {
+    headers['Retry-After'] = Math.max(0, Math.ceil((result.reset - Date.now()) / 1000)).toString()
+  }
+  return headers
+}
+
+export function setRateLimitHeaders<R extends Response>(response: R, result: RateLimitResult): R {
+  for (const [name, value] of Object.entries(rateLimitHeaders(result))) {
+    response.headers.set(name, value)
+  }
+  return response
+}
+
+/**
+ * The 429 response for a refused request
+ */
+export function tooManyRequests(result: RateLimitResult): NextResponse {
+  return NextResponse.json(
+    { error: 'Too many requests. Please try again later.', reset: result.reset },
+    { status: 429, headers: rateLimitHeaders(result) }
+  )
+}
+
+/**
+ * Run `handler` if `identifier` is within `options` and add the X-RateLimit-*
+ * headers to its response, or answer 429 without running it
+ */
+export async function withRateLimit<R extends Response>(
+  identifier: string,
+  options: RateLimitOptions,
+  handler: () => Promise<R>
+): Promise<R | NextResponse> {
+  const result = await rateLimit(identifier, options)
+  if (!result.success) {
+    return tooManyRequests(result)
+  }
+  return setRateLimitHeaders(await handler(), result)
+}
+
 /**
  * Predefined rate limits for different operations
  */
@@ -104,8 +282,20 @@ export const RATE_LIMITS = {
     limit: 60, // 60 requests
     window: 60 * 1000, // per minute
   },
+  EXPORT_PAGE: {
+    limit: 300, // 300 export pages of up to 500 rows
+    window: 60 * 1000, // per minute
+  },
+  PAGE_REQUEST: {
+    limit: 120, // 120 page loads, prefetches included
+    window: 60 * 1000, // per minute
+  },
+  PII_REVEAL: {
+    limit: 20, // 20 rows revealed
+    window: 60 * 60 * 1000, // per hour
+  },
   LOGIN: {
-    limit: 5, // 5 attempts
+    limit: 5, // 5 failed sign-ins
     window: 15 * 60 * 1000, // per 15 minutes
   },
 } as const
@@ -0,0 +1,148 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { NextRequest } from 'next/server'
+import { createView, deleteView, listViews, updateView } from './saved-views-server'
+import { createSupabaseServerClient } from './supabase'
+import type { SavedView } from './types'
+
+vi.mock('./supabase', () => ({
+  createSupabaseServerClient: vi.fn(),
+}))
+
+function request(method: string, body?: unknown) {
+  return new NextRequest('http://localhost/api/views', {
+    method,
+    headers: { 'x-forwarded-for': '203.0.113.7' },
+    ...(body !== undefined && { body: JSON.stringify(body) }),
+  })
+}
+
+async function create(body: unknown) {
+  const response = await createView(request('POST', body))
+  return { status: response.status, body: await response.json() }
+}
+
+async function list(): Promise<SavedView[]> {
+  const response = await listViews(request('GET'))
+  return (await response.json()).views
+}
+
+describe('saved views routes (mock mode)', () => {
+  beforeEach(async () => {
+    vi.stubEnv('MOCK_API', 'true')
+    // The mock store lives for the whole process, so start each test empty
+    for (const view of await list()) {
+      await deleteView(request('DELETE'), view.id)
+    }
+  })
+
+  it('creates and lists views by name', async () => {
+    const created = await create({ name: ' Weekly calls ', page: '/leads', query: 'brand=58&type=call' })
+    await create({ name: 'All forms', page: '/leads', query: 'type=form' })
+
+    expect(created.status).toBe(201)
+    expect(created.body.view).toMatchObject({ name: 'Weekly calls', is_default: false })
+    expect((await list()).map((view) => view.name)).toEqual(['All forms', 'Weekly calls'])
+  })
+
+  it('rejects invalid bodies and duplicate names', async () => {
+    expect((await create({ name: '', page: '/leads', query: '' })).status).toBe(400)
+    expect((await create({ name: 'Lookup', page: '/lookup', query: '' })).body.error).toBe(
+      'Views can only be saved for report pages'
+    )
+
+    await create({ name: 'Mine', page: '/', query: '' })
+    expect((await create({ name: 'Mine', page: '/leads', query: '' })).status).toBe(409)
+  })
+
+  it('keeps a single default view', async () => {
+    const first = (await create({ name: 'First', page: '/', query: '', is_default: true })).body.view
+    const second = (await create({ name: 'Second', page: '/', query: '' })).body.view
+
+    await updateView(request('PATCH', { is_default: true }), second.id)
+
+    expect((await list()).map((view) => [view.id, view.is_default])).toEqual([
+      [first.id, false],
+      [second.id, true],
+    ])
+  })
+
+  it('returns 404 for unknown views', async () => {
+    expect((await updateView(request('PATCH', { name: 'Renamed' }), 'missing')).status).toBe(404)
+    expect((await deleteView(request('DELETE'), 'missing')).status).toBe(404)
+  })
+})
+
+describe('saved views routes (Supabase)', () => {
+  it('requires a signed-in user', async () => {
+    vi.stubEnv('MOCK_API', 'false')
+    vi.mocked(createSupabaseServerClient).mockResolvedValue({
+      auth: { getUser: async () => ({ data: { user: null } }) },
+    } as unknown as Awaited<ReturnType<typeof createSupabaseServerClient>>)
+
+    const response = await listViews(request('GET'))
+
+    expect(response.status).toBe(401)
+  })
+
+  it('rate limits each user, with the allowance on every response', async () => {
+    vi.stubEnv('MOCK_API', 'false')
+    vi.mocked(createSupabaseServerClient).mockResolvedValue({
+      auth: { getUser: async () => ({ data: { user: { id: 'limited-user' } } }) },
+      from: () => ({
+        select: () => ({ eq: () => ({ order: async () => ({ data: [], error: null }) }) }),
+      }),
+    } as unknown as Awaited<ReturnType<typeof createSupabaseServerClient>>)
+
+    const responses = []
+    for (let i = 0; i < 61; i++) responses.push(await listViews(request('GET')))
+
+    expect(responses[0].status).toBe(200)
+    expect(responses[0].headers.get('X-RateLimit-Limit')).toBe('60')
+    expect(responses[0].headers.get('X-RateLimit-Remaining')).toBe('59')
+    expect(responses[60].status).toBe(429)
+    expect(responses[60].headers.has('Retry-After')).toBe(true)
+  })
+
+  it('keeps the old default when saving the new one fails', async () => {
+    vi.stubEnv('MOCK_API', 'false')
+    const rpc = vi.fn()
+    const query = {
+      eq: () => query,
+      select: () => query,
+      maybeSingle: async () => ({ data: null, error: { code: '23505' } }),
+    }
+    vi.mocked(createSupabaseServerClient).mockResolvedValue({
+      auth: { getUser: async () => ({ data: { user: { id: 'default-user' } } }) },
+      from: () => ({ update: () => query }),
+      rpc,
+    } as unknown as Awaited<ReturnType<typeof createSupabaseServerClient>>)
+
+    const response = await updateView(request('PATCH', { name: 'Taken', is_default: true }), 'view-1')
+
+    expect(response.status).toBe(409)
+    expect(rpc).not.toHaveBeenCalled()
+  })
+
+  it('removes a new view again when making it the default fails', async () => {
+    vi.stubEnv('MOCK_API', 'false')
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    const eq = vi.fn()
+    const deleted = { eq, error: null }
+    eq.mockReturnValue(deleted)
+    vi.mocked(createSupabaseServerClient).mockResolvedValue({
+      auth: { getUser: async () => ({ data: { user: { id: 'default-user' } } }) },
+      from: () => ({
+        insert: () => ({ select: () => ({ single: async () => ({ data: { id: 'view-2' }, error: null }) }) }),
+        delete: () => deleted,
+      }),
+      rpc: () => ({ maybeSingle: async () => ({ data: null, error: { message: 'connection reset' } }) }),
+    } as unknown as Awaited<ReturnType<typeof createSupabaseServerClient>>)
+
+    const response = await createView(request('POST', { name: 'New default', page: '/', query: '', is_default: true }))
+
+    expect(response.status).toBe(500)
+    expect((await response.json()).error).toBe('Failed to save the view')
+    expect(eq).toHaveBeenCalledWith('id', 'view-2')
+    expect(eq).toHaveBeenCalledWith('user_id', 'default-user')
+  })
+})
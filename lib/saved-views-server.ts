@@ -0,0 +1,233 @@
+import { NextRequest, NextResponse } from 'next/server'
+import type { ZodType, ZodTypeDef } from 'zod'
+import { createSupabaseServerClient } from '@/lib/supabase'
+import { RATE_LIMITS, getRateLimitIdentifier, withRateLimit } from '@/lib/rate-limit'
+import { MOCK_USER_ID, isMockApiEnabled } from '@/lib/mock-api'
+import { savedViewInputSchema, savedViewUpdateSchema } from '@/lib/schemas'
+import type { SavedView, SavedViewInput } from '@/lib/types'
+import type { Database } from '@/types/database'
+
+/**
+ * Route handlers behind /api/views
+ *
+ * Views live in the Supabase `saved_views` table (see supabase/migrations);
+ * row level security limits each user to their own rows, and every query
+ * filters by user id as well. Mock mode keeps views in memory instead.
+ */
+
+type SavedViewRow = Database['public']['Tables']['saved_views']['Row']
+
+interface SavedViewStore {
+  list(userId: string): Promise<SavedView[]>
+  create(userId: string, input: SavedViewInput): Promise<SavedView>
+  update(userId: string, id: string, patch: Partial<SavedViewInput>): Promise<SavedView>
+  remove(userId: string, id: string): Promise<void>
+}
+
+class SavedViewError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message)
+    this.name = 'SavedViewError'
+  }
+}
+
+const DUPLICATE_NAME = 'You already have a view with that name'
+const NOT_FOUND = 'View not found'
+
+// Postgres unique_violation
+const UNIQUE_VIOLATION = '23505'
+
+function jsonError(error: string, status: number) {
+  return NextResponse.json({ error }, { status })
+}
+
+function toSavedView({ user_id: _userId, ...view }: SavedViewRow): SavedView {
+  return view
+}
+
+function supabaseStore(supabase: Awaited<ReturnType<typeof createSupabaseServerClient>>): SavedViewStore {
+  const table = () => supabase.from('saved_views')
+
+  // The table allows one default per user; the function swaps it atomically,
+  // so a failed save never leaves the user without their old default
+  const setDefault = async (id: string): Promise<SavedViewRow> => {
+    const { data, error } = await supabase.rpc('set_default_saved_view', { view_id: id }).maybeSingle()
+    if (error) throw error
+    if (!data) throw new SavedViewError(NOT_FOUND, 404)
+    return data
+  }
+
+  const fail = (error: { code?: string }): never => {
+    if (error.code === UNIQUE_VIOLATION) throw new SavedViewError(DUPLICATE_NAME, 409)
+    throw error
+  }
+
+  return {
+    async list(userId) {
+      const { data, error } = await table().select('*').eq('user_id', userId).order('name')
+      if (error) throw error
+      return data.map(toSavedView)
+    },
+
+    async create(userId, input) {
+      const { is_default: makeDefault, ...fields } = input
+      const { data, error } = await table()
+        .insert({ ...fields, user_id: userId })
+        .select()
+        .single()
+      if (error) return fail(error)
+      if (!makeDefault) return toSavedView(data)
+
+      try {
+        return toSavedView(await setDefault(data.id))
+      } catch (error) {
+        // Take the view back out, so retrying the save doesn't hit its own name
+        const { error: cleanupError } = await table().delete().eq('id', data.id).eq('user_id', userId)
+        if (cleanupError) console.error('Failed to remove view after setting the default failed:', cleanupError)
+        throw error
+      }
+    },
+
+    async update(userId, id, patch) {
+      // Other changes are saved first, so a 404 or duplicate name leaves the default alone
+      const { is_default: makeDefault, ...fields } = patch
+
+      if (!makeDefault || Object.keys(fields).length > 0) {
+        const { data, error } = await table()
+          .update(makeDefault ? fields : patch)
+          .eq('id', id)
+          .eq('user_id', userId)
+          .select()
+          .maybeSingle()
+        if (error) return fail(error)
+        if (!data) throw new SavedViewError(NOT_FOUND, 404)
+        if (!makeDefault) return toSavedView(data)
+      }
+
+      return toSavedView(await setDefault(id))
+    },
+
+    async remove(userId, id) {
+      const { data, error } = await table().delete().eq('id', id).eq('user_id', userId).select('id')
+      if (error) throw error
+      if (data.length === 0) throw new SavedViewError(NOT_FOUND, 404)
+    },
+  }
+}
+
+// Mock mode: per-process memory, lost on restart
+const mockViews = new Map<string, SavedView>()
+
+const memoryStore: SavedViewStore = {
+  async list() {
+    return Array.from(mockViews.values()).sort((a, b) => a.name.localeCompare(b.name))
+  },
+
+  async create(_userId, input) {
+    if (Array.from(mockViews.values()).some((view) => view.name === input.name)) {
+      throw new SavedViewError(DUPLICATE_NAME, 409)
+    }
+    if (input.is_default) mockViews.forEach((view) => (view.is_default = false))
+    const now = new Date().toISOString()
+    const view: SavedView = {
+      id: crypto.randomUUID(),
+      name: input.name,
+      page: input.page,
+      query: input.query,
+      is_default: input.is_default ?? false,
+      created_at: now,
+      updated_at: now,
+    }
+    mockViews.set(view.id, view)
+    return view
+  },
+
+  async update(_userId, id, patch) {
+    const view = mockViews.get(id)
+    if (!view) throw new SavedViewError(NOT_FOUND, 404)
+    if (patch.name && Array.from(mockViews.values()).some((v) => v.id !== id && v.name === patch.name)) {
+      throw new SavedViewError(DUPLICATE_NAME, 409)
+    }
+    if (patch.is_default) mockViews.forEach((v) => (v.is_default = false))
+    const updated = { ...view, ...patch, updated_at: new Date().toISOString() }
+    mockViews.set(id, updated)
+    return updated
+  },
+
+  async remove(_userId, id) {
+    if (!mockViews.delete(id)) throw new SavedViewError(NOT_FOUND, 404)
+  },
+}
+
+/**
+ * Authenticate and rate limit per user, then run `handler` with the user's view store
+ * Unexpected errors answer 500 with `failure`.
+ */
+async function withViewStore(
+  request: NextRequest,
+  failure: string,
+  handler: (store: SavedViewStore, userId: string) => Promise<NextResponse>
+): Promise<NextResponse> {
+  try {
+    if (isMockApiEnabled()) {
+      return await withRateLimit(
+        getRateLimitIdentifier(request.headers, MOCK_USER_ID),
+        RATE_LIMITS.API_REQUEST,
+        () => handler(memoryStore, MOCK_USER_ID)
+      )
+    }
+
+    const supabase = await createSupabaseServerClient()
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    return await withRateLimit(getRateLimitIdentifier(request.headers, user?.id), RATE_LIMITS.API_REQUEST, async () =>
+      user ? handler(supabaseStore(supabase), user.id) : jsonError('Not authenticated', 401)
+    )
+  } catch (error) {
+    if (error instanceof SavedViewError) {
+      return jsonError(error.message, error.status)
+    }
+    console.error('Saved views error:', error)
+    return jsonError(failure, 500)
+  }
+}
+
+async function parseBody<T>(
+  request: NextRequest,
+  schema: ZodType<T, ZodTypeDef, unknown>
+): Promise<T> {
+  const result = schema.safeParse(await request.json().catch(() => undefined))
+  if (!result.success) {
+    throw new SavedViewError(result.error.issues[0]?.message || 'Invalid request body', 400)
+  }
+  return result.data
+}
+
+export function listViews(request: NextRequest) {
+  return withViewStore(request, 'Failed to load saved views', async (store, userId) =>
+    NextResponse.json({ views: await store.list(userId) })
+  )
+}
+
+export function createView(request: NextRequest) {
+  return withViewStore(request, 'Failed to save the view', async (store, userId) => {
+    const input = await parseBody(request, savedViewInputSchema)
+    return NextResponse.json({ view: await store.create(userId, input) }, { status: 201 })
+  })
+}
+
+export function updateView(request: NextRequest, id: string) {
+  return withViewStore(request, 'Failed to update the view', async (store, userId) => {
+    const patch = await parseBody(request, savedViewUpdateSchema)
+    return NextResponse.json({ view: await store.update(userId, id, patch) })
+  })
+}
+
+export function deleteView(request: NextRequest, id: string) {
+  return withViewStore(request, 'Failed to delete the view', async (store, userId) => {
+    await store.remove(userId, id)
+    return NextResponse.json({ success: true })
+  })
+}
@@ -0,0 +1,52 @@
+import type { SavedView } from './types'
+
+/**
+ * Saved views: named filter combinations stored per user in Supabase
+ *
+ * Pages load the default view from Supabase before their first fetch on a
+ * bare link (`useDefaultView`), and its query is kept in localStorage as a
+ * cache that `urlParamsToFilters` reads synchronously. Signing out clears it
+ * along with the rest of localStorage.
+ */
+
+// Pages whose filters can be saved, with the label shown in the views menu
+export const SAVED_VIEW_PAGES: Record<string, string> = {
+  '/': 'Dashboard',
+  '/leads': 'Leads',
+  '/appointments': 'Appointments',
+  '/matches': 'Matches',
+  '/attribution': 'Attribution',
+}
+
+export const MAX_VIEW_NAME_LENGTH = 100
+
+const DEFAULT_VIEW_KEY = 'reporting-default-view'
+
+export function isSavedViewPage(page: string): boolean {
+  return Object.prototype.hasOwnProperty.call(SAVED_VIEW_PAGES, page)
+}
+
+export function getSavedViewURL(view: Pick<SavedView, 'page' | 'query'>): string {
+  return view.query ? `${view.page}?${view.query}` : view.page
+}
+
+/**
+ * Query string of the user's default view as last loaded on this device
+ */
+export function getDefaultViewQuery(): string | null {
+  if (typeof window === 'undefined') return null
+  return window.localStorage.getItem(DEFAULT_VIEW_KEY)
+}
+
+/**
+ * Remember the default view from the latest list of views
+ */
+export function rememberDefaultView(views: SavedView[]) {
+  if (typeof window === 'undefined') return
+  const defaultView = views.find((view) => view.is_default)
+  if (defaultView) {
+    window.localStorage.setItem(DEFAULT_VIEW_KEY, defaultView.query)
+  } else {
+    window.localStorage.removeItem(DEFAULT_VIEW_KEY)
+  }
+}
@@ -0,0 +1,365 @@
+import { z } from 'zod'
+import type {
+  MetricsSummaryResponse,
+  AttributionBreakdownResponse,
+  LeadsResponse,
+  AppointmentsResponse,
+  LeadsWithAppointmentsResponse,
+  CallRailLookupResponse,
+  BrandsResponse,
+  BrandResponse,
+  SavedViewsResponse,
+  SavedViewResponse,
+  PIIRevealResponse,
+  AuditLogResponse,
+  SavedViewInput,
+} from './types'
+import type { UserAccess } from './access'
+import type { AppointmentSummaryResponse } from './appointment-status'
+import { MAX_VIEW_NAME_LENGTH, isSavedViewPage } from './saved-views'
+
+// Runtime schemas for every API response in `./types`
+// Each schema is pinned to its interface so the two can't drift apart
+
+// The backend sends null for missing optional values; normalise to undefined
+const optional = <T extends z.ZodTypeAny>(schema: T) =>
+  schema.nullish().transform((value) => value ?? undefined)
+
+const dateRangeSchema = z.object({
+  start: z.string(),
+  end: z.string(),
+})
+
+const paginationSchema = z.object({
+  total: z.number(),
+  limit: z.number(),
+  offset: z.number(),
+  has_more: z.boolean(),
+})
+
+const countsSchema = z.record(z.number())
+
+const categoryStatsSchema = z.object({
+  total: z.number(),
+  with_appointment: z.number(),
+  conversion_rate: z.string(),
+})
+
+const trendSchema = z.object({
+  granularity: z.enum(['day', 'week', 'month']),
+  data: z.array(
+    z.object({
+      period_start: z.string(),
+      total_leads: z.number(),
+      call_leads: z.number(),
+      form_leads: z.number(),
+      leads_with_appointments: z.number(),
+      conversion_rate: z.string(),
+    })
+  ),
+})
+
+export const metricsSummarySchema: z.ZodType<MetricsSummaryResponse, z.ZodTypeDef, unknown> = z.object({
+  success: z.boolean(),
+  brand: z.string(),
+  date_range: dateRangeSchema.extend({
+    lookforward_days: z.number(),
+  }),
+  summary: z.object({
+    total_leads: z.number(),
+    call_leads: z.number(),
+    first_time_calls: z.number(),
+    repeat_calls: z.number(),
+    form_leads: z.number(),
+    form_leads_by_category: z.object({
+      affiliate_forms: categoryStatsSchema,
+      meta_leads: categoryStatsSchema,
+      website_forms: categoryStatsSchema,
+    }),
+    total_appointments_created_in_range: z.number(),
+    matched_appointments_in_range: z.number(),
+    unmatched_appointments: z.number(),
+    total_appointments_matched_to_leads: z.number(),
+    leads_with_appointments: z.number(),
+    call_leads_with_appointments: z.number(),
+    form_leads_with_appointments: z.number(),
+    first_time_calls_with_appointments: z.number(),
+    st_customer_id_matches: z.number(),
+    phone_matches: z.number(),
+    email_matches: z.number(),
+    conversion_rates: z.object({
+      overall: z.string(),
+      first_time_calls_and_forms: z.string(),
+      calls_only: z.string(),
+      forms_only: z.string(),
+      first_time_calls_only: z.string(),
+    }),
+    avg_days_to_appointment: z.string(),
+  }),
+  breakdown: z.object({
+    leads_by_standard_channel: countsSchema,
+    leads_by_major_category: countsSchema,
+    by_channel: z.record(categoryStatsSchema),
+  }),
+  trend: trendSchema.nullish().transform((value) => value ?? null),
+})
+
+export const attributionBreakdownSchema: z.ZodType<AttributionBreakdownResponse, z.ZodTypeDef, unknown> = z.object({
+  success: z.boolean(),
+  brand: z.string(),
+  date_range: dateRangeSchema,
+  total_leads: z.number(),
+  breakdown: z.object({
+    by_channel: optional(countsSchema),
+    by_click_id: optional(countsSchema),
+    by_source: optional(countsSchema),
+    by_utm_source: optional(countsSchema),
+    by_utm_medium: optional(countsSchema),
+    by_utm_campaign: optional(countsSchema),
+    by_source_name: optional(countsSchema),
+    by_location: optional(countsSchema),
+    by_zip_code: optional(countsSchema),
+  }),
+})
+
+export const leadSchema = z.object({
+  id: z.string(),
+  type: z.enum(['call', 'form']),
+  brand: z.string(),
+  timestamp: z.string(),
+  name: optional(z.string()),
+  phone: optional(z.string()),
+  email: optional(z.string()),
+  first_call: optional(z.boolean()),
+  gclid: optional(z.string()),
+  fbclid: optional(z.string()),
+  gbraid: optional(z.string()),
+  wbraid: optional(z.string()),
+  msclkid: optional(z.string()),
+  utm_source: optional(z.string()),
+  utm_medium: optional(z.string()),
+  utm_campaign: optional(z.string()),
+  source: optional(z.string()),
+  source_name: optional(z.string()),
+  location: optional(z.string()),
+  zip_code: optional(z.string()),
+  pii_token: optional(z.string()),
+})
+
+export const appointmentSchema = z.object({
+  id: z.number(),
+  job_number: z.string(),
+  customer_id: optional(z.string()),
+  customer_name: optional(z.string()),
+  phone: optional(z.string()),
+  email: optional(z.string()),
+  address: optional(z.string()),
+  city: optional(z.string()),
+  state: optional(z.string()),
+  zip: optional(z.string()),
+  job_status: optional(z.string()),
+  created_on: z.string(),
+  location_id: optional(z.string()),
+  business_unit_id: optional(z.string()),
+  pii_token: optional(z.string()),
+})
+
+export const leadsSchema: z.ZodType<LeadsResponse, z.ZodTypeDef, unknown> = z.object({
+  success: z.boolean(),
+  brand: z.string(),
+  date_range: dateRangeSchema,
+  pagination: paginationSchema,
+  leads: z.array(leadSchema),
+})
+
+export const appointmentsSchema: z.ZodType<AppointmentsResponse, z.ZodTypeDef, unknown> = z.object({
+  success: z.boolean(),
+  brand: z.string(),
+  date_range: dateRangeSchema,
+  pagination: paginationSchema,
+  appointments: z.array(appointmentSchema),
+})
+
+const businessUnitStatsSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  total: z.number(),
+  completed: z.number(),
+  sold: z.number(),
+  canceled: z.number(),
+})
+
+export const appointmentSummarySchema: z.ZodType<AppointmentSummaryResponse, z.ZodTypeDef, unknown> = z.object({
+  success: z.boolean(),
+  counts: z.object({
+    total: z.number(),
+    byStatus: countsSchema,
+    stages: z.object({
+      scheduled: z.number(),
+      completed: z.number(),
+      sold: z.number(),
+      canceled: z.number(),
+    }),
+  }),
+  business_units: z.array(businessUnitStatsSchema),
+  statuses: z.array(z.string()),
+})
+
+export const leadsWithAppointmentsSchema: z.ZodType<LeadsWithAppointmentsResponse, z.ZodTypeDef, unknown> = z.object({
+  success: z.boolean(),
+  data: z.object({
+    matches: z.array(
+      z.object({
+        lead: leadSchema,
+        appointment: optional(appointmentSchema),
+        matched: z.boolean(),
+        match_score: optional(z.number()),
+        match_type: optional(z.enum(['st_customer_id', 'phone', 'email'])),
+      })
+    ),
+    summary: z.object({
+      total_leads: z.number(),
+      total_appointments: z.number(),
+      matched_leads: z.number(),
+      unmatched_leads: z.number(),
+      conversion_rate: z.number(),
+    }),
+  }),
+})
+
+export const callRailLookupSchema: z.ZodType<CallRailLookupResponse, z.ZodTypeDef, unknown> = z.object({
+  success: z.boolean(),
+  data: optional(
+    z.object({
+      call: z.object({
+        id: z.string(),
+        direction: z.string(),
+        answered: z.boolean(),
+        duration: z.number(),
+        customer_phone_number: z.string(),
+        customer_name: optional(z.string()),
+        tracking_phone_number: z.string(),
+        created_at: z.string(),
+        formatted_tracking_source: optional(z.string()),
+      }),
+      attribution: optional(
+        z.object({
+          utm_source: optional(z.string()),
+          utm_medium: optional(z.string()),
+          utm_campaign: optional(z.string()),
+          utm_content: optional(z.string()),
+          utm_term: optional(z.string()),
+          gclid: optional(z.string()),
+          fbclid: optional(z.string()),
+          msclkid: optional(z.string()),
+          landing_page_url: optional(z.string()),
+          referring_url: optional(z.string()),
+        })
+      ),
+    })
+  ),
+  error: optional(z.string()),
+  message: optional(z.string()),
+})
+
+const brandLocationSchema = z.object({
+  location_name: z.string(),
+  city: z.string(),
+  state: z.string(),
+  market: z.string(),
+  yelp_business_id: optional(z.string()),
+  servicetitan_business_unit: optional(z.string()),
+  homeadvisor_sp_entity_id: optional(z.number()),
+})
+
+const brandConfigSchema = z.object({
+  shortcode: z.string(),
+  full_name: z.string(),
+  primary_domain: z.string(),
+  alternate_domains: optional(z.array(z.string())),
+  locations: z.array(brandLocationSchema),
+  timezone: optional(z.string()),
+  facebook_dataset_id: optional(z.string()),
+  google_cid: optional(z.string()),
+  google_conversion_action_sold: optional(z.string()),
+  google_conversion_action_appointment: optional(z.string()),
+  lead_notification_email: optional(z.string()),
+})
+
+const accessSchema = z.enum(['public', 'internal'])
+
+export const brandsSchema: z.ZodType<BrandsResponse, z.ZodTypeDef, unknown> = z.object({
+  access: accessSchema,
+  brands: z.array(brandConfigSchema),
+})
+
+export const brandSchema: z.ZodType<BrandResponse, z.ZodTypeDef, unknown> = z.object({
+  access: accessSchema,
+  brand: brandConfigSchema,
+  matched_domain: optional(z.string()),
+})
+
+export const userAccessSchema: z.ZodType<UserAccess, z.ZodTypeDef, unknown> = z.object({
+  grants: z.array(z.object({
+    brand: z.string(),
+    role: z.enum(['viewer', 'analyst', 'admin']),
+  })),
+})
+
+const savedViewSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  page: z.string(),
+  query: z.string(),
+  is_default: z.boolean(),
+  created_at: z.string(),
+  updated_at: z.string(),
+})
+
+export const savedViewsSchema: z.ZodType<SavedViewsResponse, z.ZodTypeDef, unknown> = z.object({
+  views: z.array(savedViewSchema),
+})
+
+export const savedViewResponseSchema: z.ZodType<SavedViewResponse, z.ZodTypeDef, unknown> = z.object({
+  view: savedViewSchema,
+})
+
+export const piiRevealSchema: z.ZodType<PIIRevealResponse, z.ZodTypeDef, unknown> = z.object({
+  values: z.record(z.string()),
+})
+
+export const auditLogSchema: z.ZodType<AuditLogResponse, z.ZodTypeDef, unknown> = z.object({
+  entries: z.array(z.object({
+    id: z.number(),
+    user_id: z.string().nullable(),
+    user_email: z.string().nullable(),
+    action: z.string(),
+    route: z.string(),
+    brands: z.array(z.string()),
+    start_date: z.string().nullable(),
+    end_date: z.string().nullable(),
+    target: z.string().nullable(),
+    details: z.record(z.unknown()),
+    created_at: z.string(),
+  })),
+  pagination: paginationSchema,
+})
+
+export const successSchema = z.object({
+  success: z.literal(true),
+})
+
+// Request bodies for /api/views, validated by the route handlers
+
+export const savedViewInputSchema: z.ZodType<SavedViewInput, z.ZodTypeDef, unknown> = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(MAX_VIEW_NAME_LENGTH),
+  page: z.string().refine(isSavedViewPage, 'Views can only be saved for report pages'),
+  query: z.string().max(2000),
+  is_default: z.boolean().optional(),
+})
+
+export const savedViewUpdateSchema: z.ZodType<Partial<SavedViewInput>, z.ZodTypeDef, unknown> = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(MAX_VIEW_NAME_LENGTH).optional(),
+  query: z.string().max(2000).optional(),
+  is_default: z.boolean().optional(),
+})
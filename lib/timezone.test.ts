@@ -0,0 +1,123 @@
+import { afterEach, describe, expect, it } from 'vitest'
+import type { BrandConfig } from './types'
+import {
+  DEFAULT_TIMEZONE,
+  getBrandTimezone,
+  getTimezoneAbbreviation,
+  rememberBrandTimezones,
+  resolveTimezone,
+  setUserTimezone,
+  subscribeTimezones,
+  zonedNow,
+  zonedStartOfDay,
+} from './timezone'
+
+function brand(shortcode: string, states: string[], timezone?: string): BrandConfig {
+  return {
+    shortcode,
+    full_name: `Brand ${shortcode}`,
+    primary_domain: `${shortcode}.example.com`,
+    locations: states.map((state, i) => ({
+      location_name: `Location ${i}`,
+      city: 'City',
+      state,
+      market: 'Market',
+    })),
+    ...(timezone && { timezone }),
+  }
+}
+
+describe('getBrandTimezone', () => {
+  it('uses the most common timezone among location states', () => {
+    expect(getBrandTimezone(brand('a', ['TX', 'OK', 'NY']))).toBe('America/Chicago')
+    expect(getBrandTimezone(brand('b', ['ca', ' WA ']))).toBe('America/Los_Angeles')
+  })
+
+  it('prefers a configured timezone', () => {
+    expect(getBrandTimezone(brand('c', ['TX'], 'America/Phoenix'))).toBe('America/Phoenix')
+  })
+
+  it('ignores an invalid configured timezone', () => {
+    expect(getBrandTimezone(brand('d', ['CO'], 'Mars/Olympus'))).toBe('America/Denver')
+  })
+
+  it('falls back to the default without known states', () => {
+    expect(getBrandTimezone(brand('e', []))).toBe(DEFAULT_TIMEZONE)
+    expect(getBrandTimezone(brand('f', ['ZZ']))).toBe(DEFAULT_TIMEZONE)
+  })
+})
+
+describe('resolveTimezone', () => {
+  afterEach(() => {
+    setUserTimezone(null)
+  })
+
+  it('follows the brand until the user pins a timezone', () => {
+    rememberBrandTimezones([brand('west', ['CA']), brand('east', ['NY'])])
+
+    expect(resolveTimezone('west')).toBe('America/Los_Angeles')
+    expect(resolveTimezone('unknown')).toBe(DEFAULT_TIMEZONE)
+    expect(resolveTimezone()).toBe(DEFAULT_TIMEZONE)
+
+    setUserTimezone('Pacific/Honolulu')
+    expect(resolveTimezone('east')).toBe('Pacific/Honolulu')
+    expect(resolveTimezone()).toBe('Pacific/Honolulu')
+  })
+
+  it('notifies subscribers when timezones change', () => {
+    let calls = 0
+    const unsubscribe = subscribeTimezones(() => calls++)
+
+    rememberBrandTimezones([brand('mountain', ['UT'])])
+    rememberBrandTimezones([brand('mountain', ['UT'])])
+    setUserTimezone('UTC')
+    unsubscribe()
+    setUserTimezone(null)
+
+    expect(calls).toBe(2)
+  })
+
+  it('rejects an invalid pinned timezone', () => {
+    setUserTimezone('Not/AZone')
+
+    expect(resolveTimezone()).toBe(DEFAULT_TIMEZONE)
+  })
+})
+
+describe('zonedNow', () => {
+  // 03:30 UTC on 16 October is still the 15th on the US mainland
+  const instant = new Date(Date.UTC(2025, 9, 16, 3, 30, 15))
+
+  it('returns the wall-clock time in the given timezone', () => {
+    expect(zonedNow('UTC', instant)).toEqual(new Date(2025, 9, 16, 3, 30, 15))
+    expect(zonedNow('America/New_York', instant)).toEqual(new Date(2025, 9, 15, 23, 30, 15))
+    expect(zonedNow('America/Los_Angeles', instant)).toEqual(new Date(2025, 9, 15, 20, 30, 15))
+  })
+
+  it('reports midnight as hour zero', () => {
+    const midnight = new Date(Date.UTC(2025, 0, 1, 0, 0))
+
+    expect(zonedNow('UTC', midnight).getHours()).toBe(0)
+  })
+})
+
+describe('zonedStartOfDay', () => {
+  it('returns the instant a day begins in the given timezone', () => {
+    expect(zonedStartOfDay('2025-10-16', 'UTC').toISOString()).toBe('2025-10-16T00:00:00.000Z')
+    expect(zonedStartOfDay('2025-10-16', 'America/New_York').toISOString()).toBe('2025-10-16T04:00:00.000Z')
+    expect(zonedStartOfDay('2025-01-16', 'America/Los_Angeles').toISOString()).toBe('2025-01-16T08:00:00.000Z')
+  })
+
+  it('uses the offset in force at local midnight on daylight saving days', () => {
+    // Clocks go back at 02:00 on 2 November, after midnight
+    expect(zonedStartOfDay('2025-11-02', 'America/New_York').toISOString()).toBe('2025-11-02T04:00:00.000Z')
+    expect(zonedStartOfDay('2025-11-03', 'America/New_York').toISOString()).toBe('2025-11-03T05:00:00.000Z')
+  })
+})
+
+describe('getTimezoneAbbreviation', () => {
+  it('follows daylight saving time', () => {
+    expect(getTimezoneAbbreviation('America/New_York', new Date(Date.UTC(2025, 6, 1)))).toBe('EDT')
+    expect(getTimezoneAbbreviation('America/New_York', new Date(Date.UTC(2025, 0, 1)))).toBe('EST')
+  })
+})
@@ -0,0 +1,231 @@
+import type { BrandConfig } from './types'
+
+/**
+ * Reporting timezones
+ *
+ * The backend buckets days in each brand's local time, so "today", preset
+ * ranges and displayed timestamps follow the brand's timezone rather than the
+ * viewer's. A user can pin their own timezone instead.
+ */
+
+export const DEFAULT_TIMEZONE = 'America/New_York'
+
+const PREFERENCE_KEY = 'reporting-timezone'
+
+// Timezone covering most of each state; split states use their most populous zone
+const STATE_TIMEZONES: Record<string, string> = {
+  AL: 'America/Chicago',
+  AK: 'America/Anchorage',
+  AZ: 'America/Phoenix',
+  AR: 'America/Chicago',
+  CA: 'America/Los_Angeles',
+  CO: 'America/Denver',
+  CT: 'America/New_York',
+  DC: 'America/New_York',
+  DE: 'America/New_York',
+  FL: 'America/New_York',
+  GA: 'America/New_York',
+  HI: 'Pacific/Honolulu',
+  IA: 'America/Chicago',
+  ID: 'America/Boise',
+  IL: 'America/Chicago',
+  IN: 'America/Indiana/Indianapolis',
+  KS: 'America/Chicago',
+  KY: 'America/New_York',
+  LA: 'America/Chicago',
+  MA: 'America/New_York',
+  MD: 'America/New_York',
+  ME: 'America/New_York',
+  MI: 'America/Detroit',
+  MN: 'America/Chicago',
+  MO: 'America/Chicago',
+  MS: 'America/Chicago',
+  MT: 'America/Denver',
+  NC: 'America/New_York',
+  ND: 'America/Chicago',
+  NE: 'America/Chicago',
+  NH: 'America/New_York',
+  NJ: 'America/New_York',
+  NM: 'America/Denver',
+  NV: 'America/Los_Angeles',
+  NY: 'America/New_York',
+  OH: 'America/New_York',
+  OK: 'America/Chicago',
+  OR: 'America/Los_Angeles',
+  PA: 'America/New_York',
+  RI: 'America/New_York',
+  SC: 'America/New_York',
+  SD: 'America/Chicago',
+  TN: 'America/Chicago',
+  TX: 'America/Chicago',
+  UT: 'America/Denver',
+  VA: 'America/New_York',
+  VT: 'America/New_York',
+  WA: 'America/Los_Angeles',
+  WI: 'America/Chicago',
+  WV: 'America/New_York',
+  WY: 'America/Denver',
+}
+
+// Offered in the timezone preference, alongside the brand's own timezone
+export const TIMEZONE_OPTIONS = [
+  { value: 'America/New_York', label: 'Eastern' },
+  { value: 'America/Chicago', label: 'Central' },
+  { value: 'America/Denver', label: 'Mountain' },
+  { value: 'America/Phoenix', label: 'Arizona' },
+  { value: 'America/Los_Angeles', label: 'Pacific' },
+  { value: 'America/Anchorage', label: 'Alaska' },
+  { value: 'Pacific/Honolulu', label: 'Hawaii' },
+  { value: 'UTC', label: 'UTC' },
+]
+
+export function isValidTimezone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * The brand's configured timezone, else the most common one among its locations
+ */
+export function getBrandTimezone(brand: BrandConfig): string {
+  if (brand.timezone && isValidTimezone(brand.timezone)) return brand.timezone
+
+  const counts = new Map<string, number>()
+  for (const location of brand.locations) {
+    const timeZone = STATE_TIMEZONES[location.state?.trim().toUpperCase()]
+    if (timeZone) counts.set(timeZone, (counts.get(timeZone) || 0) + 1)
+  }
+
+  let best = DEFAULT_TIMEZONE
+  let bestCount = 0
+  for (const [timeZone, count] of Array.from(counts)) {
+    if (count > bestCount) {
+      best = timeZone
+      bestCount = count
+    }
+  }
+  return best
+}
+
+// Brand timezones learnt from the brands API, plus the user's pinned timezone
+const brandTimezones = new Map<string, string>()
+let userTimezone: string | null | undefined
+const listeners = new Set<() => void>()
+
+function notify() {
+  listeners.forEach((listener) => listener())
+}
+
+export function subscribeTimezones(listener: () => void): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+export function rememberBrandTimezones(brands: BrandConfig[]) {
+  let changed = false
+  for (const brand of brands) {
+    const timeZone = getBrandTimezone(brand)
+    if (brandTimezones.get(brand.shortcode) !== timeZone) {
+      brandTimezones.set(brand.shortcode, timeZone)
+      changed = true
+    }
+  }
+  if (changed) notify()
+}
+
+/**
+ * The timezone the user pinned, or null to follow each brand
+ */
+export function getUserTimezone(): string | null {
+  if (userTimezone === undefined) {
+    const stored = typeof window === 'undefined' ? null : window.localStorage.getItem(PREFERENCE_KEY)
+    userTimezone = stored && isValidTimezone(stored) ? stored : null
+  }
+  return userTimezone
+}
+
+export function setUserTimezone(timeZone: string | null) {
+  userTimezone = timeZone && isValidTimezone(timeZone) ? timeZone : null
+  if (typeof window !== 'undefined') {
+    if (userTimezone) {
+      window.localStorage.setItem(PREFERENCE_KEY, userTimezone)
+    } else {
+      window.localStorage.removeItem(PREFERENCE_KEY)
+    }
+  }
+  notify()
+}
+
+/**
+ * Timezone used for `brand`: the user's pinned timezone, else the brand's own
+ */
+export function resolveTimezone(brand?: string): string {
+  return getUserTimezone() || (brand && brandTimezones.get(brand)) || DEFAULT_TIMEZONE
+}
+
+/**
+ * `date` as wall-clock time in `timeZone`, expressed as a local Date
+ *
+ * Calendar maths (startOfDay, subMonths, format...) on the result then works
+ * on that timezone's days, whatever the browser's own timezone is.
+ */
+export function zonedNow(timeZone: string, date: Date = new Date()): Date {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(date)
+
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((p) => p.type === type)?.value)
+
+  return new Date(
+    part('year'),
+    part('month') - 1,
+    part('day'),
+    part('hour'),
+    part('minute'),
+    part('second'),
+    date.getMilliseconds()
+  )
+}
+
+/**
+ * The instant `day` (yyyy-MM-dd) begins in `timeZone`
+ */
+export function zonedStartOfDay(day: string, timeZone: string): Date {
+  const [year, month, date] = day.split('-').map(Number)
+  const midnight = Date.UTC(year, month - 1, date)
+
+  // The zone's offset at `instant`: its wall-clock time read as if it were UTC
+  const offsetAt = (instant: number) => {
+    const wall = zonedNow(timeZone, new Date(instant))
+    return (
+      Date.UTC(wall.getFullYear(), wall.getMonth(), wall.getDate(), wall.getHours(), wall.getMinutes(), wall.getSeconds()) -
+      instant
+    )
+  }
+
+  // Measured again at the guess, in case the offset changes between UTC and local midnight
+  const guess = midnight - offsetAt(midnight)
+  return new Date(midnight - offsetAt(guess))
+}
+
+/**
+ * Short label for a timezone at `date`, e.g. "EDT"
+ */
+export function getTimezoneAbbreviation(timeZone: string, date: Date = new Date()): string {
+  const parts = new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'short' }).formatToParts(date)
+  return parts.find((part) => part.type === 'timeZoneName')?.value || timeZone
+}
@@ -12,6 +12,22 @@ export interface ChannelStats {
   conversion_rate: string
 }
 
+export type TrendGranularity = 'day' | 'week' | 'month'
+
+export interface TrendDataPoint {
+  period_start: string // yyyy-MM-dd, first day of the bucket
+  total_leads: number
+  call_leads: number
+  form_leads: number
+  leads_with_appointments: number
+  conversion_rate: string
+}
+
+export interface MetricsTrend {
+  granularity: TrendGranularity
+  data: TrendDataPoint[]
+}
+
 export interface MetricsSummaryResponse {
   success: boolean
   brand: string
@@ -56,7 +72,7 @@ export interface MetricsSummaryResponse {
     leads_by_major_category: Record<string, number>
     by_channel: Record<string, ChannelStats>
   }
-  trend: any | null
+  trend: MetricsTrend | null
 }
 
 export interface AttributionBreakdownResponse {
@@ -122,6 +138,8 @@ export interface Lead {
   source_name?: string
   location?: string
   zip_code?: string
+  // Set when contact fields are masked; exchange at /api/pii/reveal
+  pii_token?: string
 }
 
 export interface AppointmentsResponse {
@@ -155,13 +173,18 @@ export interface Appointment {
   created_on: string
   location_id?: string
   business_unit_id?: string
+  // Set when contact fields are masked; exchange at /api/pii/reveal
+  pii_token?: string
 }
 
+export type MatchType = 'st_customer_id' | 'phone' | 'email'
+
 export interface LeadWithAppointment {
   lead: Lead
   appointment?: Appointment
   matched: boolean
   match_score?: number
+  match_type?: MatchType
 }
 
 export interface LeadsWithAppointmentsResponse {
@@ -230,6 +253,7 @@ export interface BrandConfig {
   primary_domain: string
   alternate_domains?: string[]
   locations: BrandLocation[]
+  timezone?: string // IANA name; derived from location states when absent
   // Internal fields (only returned with authentication)
   facebook_dataset_id?: string
   google_cid?: string
@@ -250,13 +274,116 @@ export interface BrandResponse {
 }
 
 // UI Component Types
+export type LeadSortField = 'timestamp' | 'source'
+export type SortOrder = 'asc' | 'desc'
+
+// Column filters for the Leads table, applied server-side by `getLeads`
+export interface LeadFilters {
+  search?: string // name, phone or email
+  utm_source?: string
+  utm_medium?: string
+  utm_campaign?: string
+  zip_code?: string
+  first_call?: boolean
+  has_click_id?: boolean
+  sort?: LeadSortField
+  order?: SortOrder
+}
+
 export interface DateRange {
   from: Date | undefined
   to: Date | undefined
 }
 
+export type ComparisonMode = 'none' | 'previous_period' | 'previous_year'
+
+export type LeadType = 'call' | 'form'
+export type AttributionGroupBy = 'channel' | 'source' | 'campaign' | 'location' | 'click_id_type'
+
 export interface Filters {
   brand: string
+  // Portfolio selection; `brand` stays the primary brand for single-brand pages
+  brands?: string[]
+  // Narrow to a single BrandLocation.location_name or a whole market
+  location?: string
+  market?: string
   dateRange: DateRange
+  // Preset the range was picked from; breaks ties when presets coincide (Today vs This Week on a Sunday)
+  preset?: string
   lookforwardDays?: number
+  compare?: ComparisonMode
+  leadFilters?: LeadFilters
+  // Raw ServiceTitan job status for the Appointments table
+  jobStatus?: string
+  // Per-page view settings, kept in the URL so they can be shared and saved
+  leadType?: LeadType // Leads table
+  pageSize?: number // Leads and Appointments tables
+  groupBy?: AttributionGroupBy // Attribution breakdown
+}
+
+// Saved Views (stored in Supabase per user)
+export interface SavedView {
+  id: string
+  name: string
+  page: string // app route, e.g. /leads
+  query: string // filter URL params, as written by filtersToURLParams
+  is_default: boolean
+  created_at: string
+  updated_at: string
+}
+
+export interface SavedViewInput {
+  name: string
+  page: string
+  query: string
+  is_default?: boolean
+}
+
+export interface SavedViewsResponse {
+  views: SavedView[]
+}
+
+export interface SavedViewResponse {
+  view: SavedView
+}
+
+// PII reveal: the unmasked values of one lead or appointment, by field
+export interface PIIRevealResponse {
+  values: Record<string, string>
+}
+
+// Audit log (admins only; see lib/audit.ts)
+export interface AuditEntry {
+  id: number
+  user_id: string | null
+  user_email: string | null
+  action: string
+  route: string
+  brands: string[]
+  start_date: string | null
+  end_date: string | null
+  target: string | null
+  details: Record<string, unknown>
+  created_at: string
+}
+
+export interface AuditLogQuery {
+  user?: string // email fragment or user id
+  brand?: string
+  action?: string
+  from?: string // yyyy-MM-dd, inclusive, days in `tz`
+  to?: string
+  tz?: string // IANA timezone, defaults to DEFAULT_TIMEZONE
+  limit?: number
+  offset?: number
+}
+
+export interface AuditLogResponse {
+  entries: AuditEntry[]
+  pagination: {
+    total: number
+    limit: number
+    offset: number
+    has_more: boolean
+  }
 }
@@ -0,0 +1,289 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { addDays, endOfDay, startOfDay } from 'date-fns'
+import type { Filters } from './types'
+import {
+  ALL_BRANDS,
+  DEFAULT_BRAND,
+  filtersToURLParams,
+  hasFilterParams,
+  parseBrandsParam,
+  rezoneFilters,
+  urlParamsToFilters,
+} from './url-params'
+import { findMatchingPreset, getPresetByValue } from './date-presets'
+import { setUserTimezone, zonedNow } from './timezone'
+
+function roundTrip(filters: Filters): Filters {
+  return urlParamsToFilters(new URLSearchParams(filtersToURLParams(filters).toString()))
+}
+
+describe('filtersToURLParams / urlParamsToFilters', () => {
+  const dateRange = {
+    from: startOfDay(new Date(2025, 9, 1)),
+    to: endOfDay(new Date(2025, 9, 31)),
+  }
+
+  it('round-trips a plain brand and date range', () => {
+    const filters: Filters = { brand: '64', dateRange, compare: 'none' }
+
+    expect(filtersToURLParams(filters).toString()).toBe('brand=64&start=2025-10-01&end=2025-10-31')
+    expect(roundTrip(filters)).toEqual(filters)
+  })
+
+  it('round-trips every optional filter', () => {
+    const filters: Filters = {
+      brand: '58',
+      brands: ['58', '64'],
+      location: 'loc-1',
+      dateRange,
+      lookforwardDays: 14,
+      compare: 'previous_period',
+      jobStatus: 'sold',
+      leadType: 'call',
+      pageSize: 100,
+      groupBy: 'campaign',
+      leadFilters: {
+        search: 'smith',
+        utm_source: 'google',
+        utm_medium: 'cpc',
+        utm_campaign: 'fall',
+        zip_code: '14201',
+        first_call: false,
+        has_click_id: true,
+        sort: 'source',
+        order: 'asc',
+      },
+    }
+
+    expect(roundTrip(filters)).toEqual(filters)
+  })
+
+  it('parses `end` as the end of that day so the range is inclusive', () => {
+    const filters = urlParamsToFilters(new URLSearchParams('start=2025-10-01&end=2025-10-31'))
+
+    expect(filters.dateRange.from).toEqual(new Date(2025, 9, 1))
+    expect(filters.dateRange.to).toEqual(endOfDay(new Date(2025, 9, 31)))
+  })
+
+  it('keeps a preset recognisable after a round-trip', () => {
+    const preset = getPresetByValue('last-month')!
+    const filters = roundTrip({ brand: '58', dateRange: preset.getRange(), compare: 'none' })
+
+    expect(findMatchingPreset(filters.dateRange)?.value).toBe('last-month')
+  })
+
+  describe('preset ranges', () => {
+    afterEach(() => {
+      vi.useRealTimers()
+    })
+
+    it('writes the preset instead of fixed dates', () => {
+      const dateRange = getPresetByValue('last-30-days')!.getRange()
+
+      expect(filtersToURLParams({ brand: '58', dateRange, compare: 'none' }).toString()).toBe(
+        'brand=58&preset=last-30-days'
+      )
+    })
+
+    it('keeps a shared preset link rolling', () => {
+      vi.useFakeTimers()
+      vi.setSystemTime(new Date(2025, 9, 15, 12))
+      const params = filtersToURLParams({
+        brand: '58',
+        dateRange: getPresetByValue('last-7-days')!.getRange(),
+        compare: 'none',
+      })
+
+      vi.setSystemTime(new Date(2025, 9, 20, 12))
+      const filters = urlParamsToFilters(params)
+
+      expect(filters.dateRange).toEqual({
+        from: new Date(2025, 9, 14),
+        to: endOfDay(new Date(2025, 9, 20)),
+      })
+    })
+
+    it('round-trips a fiscal preset', () => {
+      const dateRange = getPresetByValue('last-fiscal-quarter')!.getRange()
+      const params = filtersToURLParams({ brand: '58', dateRange, compare: 'none' })
+
+      expect(params.get('preset')).toBe('last-fiscal-quarter')
+      expect(urlParamsToFilters(params).dateRange).toEqual(dateRange)
+    })
+
+    it('keeps the chosen preset when presets coincide', () => {
+      vi.useFakeTimers()
+      // The first fiscal month of Q4 starts the quarter too
+      vi.setSystemTime(new Date(2025, 9, 15, 12))
+      const dateRange = getPresetByValue('this-fiscal-quarter')!.getRange()
+      const params = filtersToURLParams({ brand: '58', dateRange, preset: 'this-fiscal-quarter', compare: 'none' })
+
+      expect(params.get('preset')).toBe('this-fiscal-quarter')
+      expect(urlParamsToFilters(params).preset).toBe('this-fiscal-quarter')
+    })
+
+    it('writes fixed dates once the range no longer matches a preset', () => {
+      const { from, to } = getPresetByValue('last-7-days')!.getRange()
+      const params = filtersToURLParams({
+        brand: '58',
+        dateRange: { from: addDays(from!, -1), to },
+        compare: 'none',
+      })
+
+      expect(params.has('preset')).toBe(false)
+      expect(params.has('start')).toBe(true)
+      expect(params.has('end')).toBe(true)
+    })
+  })
+
+  it('drops market when a location is given', () => {
+    const filters = urlParamsToFilters(new URLSearchParams('location=loc-1&market=NY'))
+
+    expect(filters.location).toBe('loc-1')
+    expect(filters.market).toBeUndefined()
+  })
+
+  it('falls back to defaults for missing or invalid params', () => {
+    const filters = urlParamsToFilters(
+      new URLSearchParams(
+        'start=not-a-date&end=2025-10-31&compare=bogus&lookforward=-3&sort=name&type=sms&page_size=7&group_by=zip'
+      ),
+      'brand=65'
+    )
+
+    expect(filters.brand).toBe('65')
+    expect(filters.compare).toBe('none')
+    expect(filters.lookforwardDays).toBeUndefined()
+    expect(filters.leadFilters).toBeUndefined()
+    expect(filters.leadType).toBeUndefined()
+    expect(filters.pageSize).toBeUndefined()
+    expect(filters.groupBy).toBeUndefined()
+    expect(findMatchingPreset(filters.dateRange)?.value).toBe('last-30-days')
+  })
+
+  it('uses a preset when no explicit dates are given', () => {
+    const filters = urlParamsToFilters(new URLSearchParams('preset=this-month'))
+
+    expect(filters.dateRange).toEqual(getPresetByValue('this-month')!.getRange())
+  })
+
+  it('lets explicit dates override a preset', () => {
+    const filters = urlParamsToFilters(
+      new URLSearchParams('preset=this-month&start=2025-01-01&end=2025-01-31')
+    )
+
+    expect(filters.dateRange.from).toEqual(new Date(2025, 0, 1))
+  })
+
+  it('takes the primary brand from `brands` when `brand` is missing', () => {
+    const filters = urlParamsToFilters(new URLSearchParams('brands=64,65'))
+
+    expect(filters.brand).toBe('64')
+    expect(filters.brands).toEqual(['64', '65'])
+  })
+})
+
+describe('default view', () => {
+  const defaultView = 'brand=64&preset=last-7-days&type=form&page_size=25'
+
+  it('opens the default view for a URL without filters', () => {
+    const filters = urlParamsToFilters(new URLSearchParams(), defaultView)
+
+    expect(filters).toMatchObject({ brand: '64', preset: 'last-7-days', leadType: 'form', pageSize: 25 })
+  })
+
+  it('ignores the default view once the URL sets any filter', () => {
+    const filters = urlParamsToFilters(new URLSearchParams('brand=58&type=call'), defaultView)
+
+    expect(filters.brand).toBe('58')
+    expect(filters.leadType).toBe('call')
+    expect(filters.preset).toBeUndefined()
+    expect(filters.pageSize).toBeUndefined()
+  })
+
+  it('keeps the default brand when the URL only changes other filters', () => {
+    expect(urlParamsToFilters(new URLSearchParams('compare=previous_year'), defaultView).brand).toBe('64')
+    expect(urlParamsToFilters(new URLSearchParams('compare=previous_year'), null).brand).toBe(DEFAULT_BRAND)
+  })
+
+  it('reads the remembered default view by default', () => {
+    const getItem = vi.fn((key: string) => (key === 'reporting-default-view' ? defaultView : null))
+    vi.stubGlobal('window', { localStorage: { getItem } })
+
+    expect(urlParamsToFilters(new URLSearchParams()).brand).toBe('64')
+  })
+
+  it('treats unrelated params as a bare page link', () => {
+    expect(hasFilterParams(new URLSearchParams('utm_campaign=email&ref=digest'))).toBe(true)
+    expect(hasFilterParams(new URLSearchParams('ref=digest'))).toBe(false)
+    expect(hasFilterParams(new URLSearchParams())).toBe(false)
+  })
+})
+
+describe('parseBrandsParam', () => {
+  it('trims, de-duplicates and drops empty entries', () => {
+    expect(parseBrandsParam(' 58, 64,,58 ')).toEqual(['58', '64'])
+  })
+
+  it('lets `all` win over explicit shortcodes', () => {
+    expect(parseBrandsParam(`58,${ALL_BRANDS}`)).toEqual([ALL_BRANDS])
+  })
+
+  it('returns undefined for an empty param', () => {
+    expect(parseBrandsParam('')).toBeUndefined()
+    expect(parseBrandsParam(' , ')).toBeUndefined()
+  })
+})
+
+describe('reporting timezone', () => {
+  afterEach(() => {
+    setUserTimezone(null)
+    vi.useRealTimers()
+  })
+
+  it('computes relative ranges from the reporting timezone day', () => {
+    vi.useFakeTimers()
+    // 9:30pm on the 15th in New York is already the 16th in UTC
+    vi.setSystemTime(new Date(2025, 9, 15, 21, 30))
+
+    expect(urlParamsToFilters(new URLSearchParams('preset=today')).dateRange.from).toEqual(
+      new Date(2025, 9, 15)
+    )
+
+    setUserTimezone('UTC')
+    expect(urlParamsToFilters(new URLSearchParams('preset=today')).dateRange.from).toEqual(
+      new Date(2025, 9, 16)
+    )
+  })
+
+  it('recognises presets computed in the reporting timezone', () => {
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date(2025, 9, 15, 21, 30))
+    setUserTimezone('UTC')
+
+    const dateRange = getPresetByValue('yesterday')!.getRange(zonedNow('UTC'))
+
+    expect(filtersToURLParams({ brand: '58', dateRange, compare: 'none' }).get('preset')).toBe('yesterday')
+  })
+  it('moves preset and default ranges to the brand timezone once it is known', () => {
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date(2025, 9, 15, 21, 30))
+    const today = urlParamsToFilters(new URLSearchParams('preset=today'))
+    const defaults = urlParamsToFilters(new URLSearchParams('brand=58'))
+
+    expect(rezoneFilters(today, 'America/New_York', 'UTC').dateRange.from).toEqual(new Date(2025, 9, 16))
+    expect(rezoneFilters(defaults, 'America/New_York', 'UTC').dateRange).toEqual(
+      getPresetByValue('last-30-days')!.getRange(zonedNow('UTC'))
+    )
+  })
+
+  it('leaves fixed dates and unchanged ranges alone', () => {
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date(2025, 9, 15, 12))
+    const fixed = urlParamsToFilters(new URLSearchParams('start=2025-01-01&end=2025-01-31'))
+    const today = urlParamsToFilters(new URLSearchParams('preset=today'))
+
+    expect(rezoneFilters(fixed, 'America/New_York', 'UTC')).toBe(fixed)
+    expect(rezoneFilters(today, 'America/New_York', 'UTC')).toBe(today)
+  })
+})
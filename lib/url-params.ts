@@ -1,17 +1,69 @@
 import { format, parse, isValid, subDays, startOfDay, endOfDay } from 'date-fns'
 import type { ReadonlyURLSearchParams } from 'next/navigation'
-import type { DateRange, Filters } from './types'
-import { getPresetByValue } from './date-presets'
+import type { AttributionGroupBy, DateRange, Filters, LeadFilters, LeadType } from './types'
+import { findMatchingPreset, getPresetByValue } from './date-presets'
+import { isComparisonMode } from './comparison'
+import { resolveTimezone, zonedNow } from './timezone'
+import { getDefaultViewQuery } from './saved-views'
 
 const DATE_FORMAT = 'yyyy-MM-dd'
 
+// Special `brands` entry meaning every brand the user can see
+export const ALL_BRANDS = 'all'
+
+// Brand shown when neither the URL nor the user's default view picks one
+export const DEFAULT_BRAND = '58'
+
+export const PAGE_SIZES = [25, 50, 100]
+export const DEFAULT_PAGE_SIZE = 50
+
+const ATTRIBUTION_GROUP_BYS: AttributionGroupBy[] = ['channel', 'source', 'campaign', 'location', 'click_id_type']
+
 export interface URLParams {
   brand?: string
+  brands?: string
+  location?: string
+  market?: string
   start?: string
   end?: string
   preset?: string
+  compare?: string
+  lookforward?: string
+  q?: string
+  utm_source?: string
+  utm_medium?: string
+  utm_campaign?: string
+  zip?: string
+  first_call?: string
+  click_id?: string
+  sort?: string
+  order?: string
+  status?: string
+  type?: string
+  page_size?: string
+  group_by?: string
+}
+
+const URL_PARAM_KEYS: (keyof URLParams)[] = [
+  'brand', 'brands', 'location', 'market', 'start', 'end', 'preset', 'compare', 'lookforward',
+  'q', 'utm_source', 'utm_medium', 'utm_campaign', 'zip', 'first_call', 'click_id', 'sort', 'order',
+  'status', 'type', 'page_size', 'group_by',
+]
+
+/**
+ * Whether the URL sets any filter, as opposed to a bare page link
+ */
+export function hasFilterParams(searchParams: URLSearchParams | ReadonlyURLSearchParams): boolean {
+  return Array.from(searchParams.keys()).some((key) => (URL_PARAM_KEYS as string[]).includes(key))
 }
 
+// Leads table search, column filters and sort; no other page reads them
+const LEAD_FILTER_PARAMS: (keyof URLParams)[] = [
+  'q', 'utm_source', 'utm_medium', 'utm_campaign', 'zip', 'first_call', 'click_id', 'sort', 'order',
+]
+
+const LEADS_PATH = '/leads'
+
 /**
  * Encode filters to URL search params
  */
@@ -22,12 +74,60 @@ export function filtersToURLParams(filters: Filters): URLSearchParams {
     params.set('brand', filters.brand)
   }
 
-  if (filters.dateRange.from) {
-    params.set('start', format(filters.dateRange.from, DATE_FORMAT))
+  if (filters.brands && filters.brands.length > 0) {
+    params.set('brands', filters.brands.join(','))
+  }
+
+  if (filters.location) {
+    params.set('location', filters.location)
+  } else if (filters.market) {
+    params.set('market', filters.market)
+  }
+
+  // Preset ranges are written by name so shared links keep rolling with the calendar
+  const preset = findMatchingPreset(
+    filters.dateRange,
+    zonedNow(resolveTimezone(filters.brand)),
+    filters.preset
+  )
+  if (preset) {
+    params.set('preset', preset.value)
+  } else {
+    if (filters.dateRange.from) {
+      params.set('start', format(filters.dateRange.from, DATE_FORMAT))
+    }
+
+    if (filters.dateRange.to) {
+      params.set('end', format(filters.dateRange.to, DATE_FORMAT))
+    }
+  }
+
+  if (filters.lookforwardDays !== undefined) {
+    params.set('lookforward', String(filters.lookforwardDays))
+  }
+
+  if (filters.compare && filters.compare !== 'none') {
+    params.set('compare', filters.compare)
+  }
+
+  if (filters.jobStatus) {
+    params.set('status', filters.jobStatus)
+  }
+
+  if (filters.leadType) {
+    params.set('type', filters.leadType)
   }
 
-  if (filters.dateRange.to) {
-    params.set('end', format(filters.dateRange.to, DATE_FORMAT))
+  if (filters.pageSize) {
+    params.set('page_size', String(filters.pageSize))
+  }
+
+  if (filters.groupBy) {
+    params.set('group_by', filters.groupBy)
+  }
+
+  if (filters.leadFilters) {
+    appendLeadFilterParams(params, filters.leadFilters)
   }
 
   return params
@@ -35,36 +135,60 @@ export function filtersToURLParams(filters: Filters): URLSearchParams {
 
 /**
  * Get default date range (Last 30 Days)
+ * Pass `now` from `zonedNow` to count days in the reporting timezone
  */
-export function getDefaultDateRange(): DateRange {
-  const today = new Date()
+export function getDefaultDateRange(now: Date = new Date()): DateRange {
   return {
-    from: startOfDay(subDays(today, 29)),
-    to: endOfDay(today),
+    from: startOfDay(subDays(now, 29)),
+    to: endOfDay(now),
   }
 }
 
 /**
  * Decode URL search params to filters
  * Can handle ReadonlyURLSearchParams from useSearchParams()
+ * A URL without filters opens `defaultView` (the user's default saved view)
  * Always returns a valid date range (defaults to Last 30 Days)
+ * Relative ranges are computed in the brand's reporting timezone
  */
 export function urlParamsToFilters(
   searchParams: URLSearchParams | ReadonlyURLSearchParams,
-  defaultBrand: string = '58'
+  defaultView: string | null = getDefaultViewQuery()
 ): Filters {
-  const brand = searchParams.get('brand') || defaultBrand
+  const defaultParams = defaultView ? new URLSearchParams(defaultView) : null
+  if (defaultParams && !hasFilterParams(searchParams)) {
+    searchParams = defaultParams
+  }
+
+  const brands = parseBrandsParam(searchParams.get('brands'))
+  const brand =
+    searchParams.get('brand') ||
+    brands?.find((shortcode) => shortcode !== ALL_BRANDS) ||
+    defaultParams?.get('brand') ||
+    DEFAULT_BRAND
   const preset = searchParams.get('preset')
   const startStr = searchParams.get('start')
   const endStr = searchParams.get('end')
+  const compareStr = searchParams.get('compare')
+  const lookforwardDays = parseInt(searchParams.get('lookforward') || '', 10)
+  const leadFilters = urlParamsToLeadFilters(searchParams)
+  const jobStatus = searchParams.get('status') || undefined
+  const location = searchParams.get('location') || undefined
+  const market = location ? undefined : searchParams.get('market') || undefined
+  const leadType = parseLeadType(searchParams.get('type'))
+  const pageSize = Number(searchParams.get('page_size'))
+  const groupBy = searchParams.get('group_by') as AttributionGroupBy | null
+  const now = zonedNow(resolveTimezone(brand))
 
   let dateRange: DateRange | null = null
+  let presetValue: string | undefined
 
   // Try preset first
   if (preset) {
     const presetObj = getPresetByValue(preset)
     if (presetObj) {
-      dateRange = presetObj.getRange()
+      dateRange = presetObj.getRange(now)
+      presetValue = presetObj.value
     }
   }
 
@@ -73,19 +197,122 @@ export function urlParamsToFilters(
     const from = parse(startStr, DATE_FORMAT, new Date())
     const to = parse(endStr, DATE_FORMAT, new Date())
     if (isValid(from) && isValid(to)) {
-      dateRange = { from, to }
+      // `end` is inclusive, matching the end-of-day ranges presets produce
+      dateRange = { from: startOfDay(from), to: endOfDay(to) }
+      presetValue = undefined
     }
   }
 
   // Use default if no valid date range found
   if (!dateRange || !dateRange.from || !dateRange.to) {
-    dateRange = getDefaultDateRange()
+    dateRange = getDefaultDateRange(now)
   }
 
   return {
     brand,
+    ...(brands && { brands }),
+    ...(location && { location }),
+    ...(market && { market }),
     dateRange,
+    ...(presetValue && { preset: presetValue }),
+    ...(lookforwardDays > 0 && { lookforwardDays }),
+    compare: isComparisonMode(compareStr) ? compareStr : 'none',
+    ...(leadFilters && { leadFilters }),
+    ...(jobStatus && { jobStatus }),
+    ...(leadType && { leadType }),
+    ...(PAGE_SIZES.includes(pageSize) && { pageSize }),
+    ...(groupBy && ATTRIBUTION_GROUP_BYS.includes(groupBy) && { groupBy }),
+  }
+}
+
+/**
+ * `filters` with its preset range recomputed in `timeZone`
+ * The range was computed in `previousTimeZone`, e.g. before the brand's own timezone loaded.
+ * Returns `filters` itself when the range doesn't change, so pages don't refetch.
+ */
+export function rezoneFilters(filters: Filters, previousTimeZone: string, timeZone: string): Filters {
+  const preset = filters.preset
+    ? getPresetByValue(filters.preset)
+    : findMatchingPreset(filters.dateRange, zonedNow(previousTimeZone))
+  if (!preset) return filters
+
+  const dateRange = preset.getRange(zonedNow(timeZone))
+  const unchanged =
+    dateRange.from?.getTime() === filters.dateRange.from?.getTime() &&
+    dateRange.to?.getTime() === filters.dateRange.to?.getTime()
+  return unchanged ? filters : { ...filters, dateRange }
+}
+
+function parseLeadType(value: string | null): LeadType | undefined {
+  return value === 'call' || value === 'form' ? value : undefined
+}
+
+function parseBooleanParam(value: string | null): boolean | undefined {
+  if (value === 'true') return true
+  if (value === 'false') return false
+  return undefined
+}
+
+/**
+ * Encode Leads table filters onto existing URL search params
+ */
+export function appendLeadFilterParams(params: URLSearchParams, leadFilters: LeadFilters) {
+  if (leadFilters.search) params.set('q', leadFilters.search)
+  if (leadFilters.utm_source) params.set('utm_source', leadFilters.utm_source)
+  if (leadFilters.utm_medium) params.set('utm_medium', leadFilters.utm_medium)
+  if (leadFilters.utm_campaign) params.set('utm_campaign', leadFilters.utm_campaign)
+  if (leadFilters.zip_code) params.set('zip', leadFilters.zip_code)
+  if (leadFilters.first_call !== undefined) params.set('first_call', String(leadFilters.first_call))
+  if (leadFilters.has_click_id !== undefined) params.set('click_id', String(leadFilters.has_click_id))
+  if (leadFilters.sort) params.set('sort', leadFilters.sort)
+  if (leadFilters.order) params.set('order', leadFilters.order)
+}
+
+/**
+ * Decode Leads table filters, undefined when none are set
+ */
+export function urlParamsToLeadFilters(
+  searchParams: URLSearchParams | ReadonlyURLSearchParams
+): LeadFilters | undefined {
+  const sort = searchParams.get('sort')
+  const order = searchParams.get('order')
+
+  const leadFilters: LeadFilters = {
+    search: searchParams.get('q') || undefined,
+    utm_source: searchParams.get('utm_source') || undefined,
+    utm_medium: searchParams.get('utm_medium') || undefined,
+    utm_campaign: searchParams.get('utm_campaign') || undefined,
+    zip_code: searchParams.get('zip') || undefined,
+    first_call: parseBooleanParam(searchParams.get('first_call')),
+    has_click_id: parseBooleanParam(searchParams.get('click_id')),
+    sort: sort === 'timestamp' || sort === 'source' ? sort : undefined,
+    order: order === 'asc' || order === 'desc' ? order : undefined,
   }
+
+  const entries = Object.entries(leadFilters).filter(([, value]) => value !== undefined)
+  return entries.length > 0 ? (Object.fromEntries(entries) as LeadFilters) : undefined
+}
+
+/**
+ * Parse the comma separated `brands` param
+ * `all` wins over any explicit shortcodes
+ */
+export function parseBrandsParam(value: string | null): string[] | undefined {
+  if (!value) return undefined
+
+  const brands = Array.from(
+    new Set(value.split(',').map((shortcode) => shortcode.trim()).filter(Boolean))
+  )
+  if (brands.includes(ALL_BRANDS)) return [ALL_BRANDS]
+  return brands.length > 0 ? brands : undefined
+}
+
+/**
+ * Whether filters select more than one brand (portfolio roll-up)
+ */
+export function isPortfolioSelection(filters: Filters): boolean {
+  if (!filters.brands) return false
+  return filters.brands.includes(ALL_BRANDS) || filters.brands.length > 1
 }
 
 /**
@@ -99,6 +326,31 @@ export function updateURL(filters: Filters, router: any) {
   router.replace(newURL, { scroll: false })
 }
 
+/**
+ * Get a relative link to another page with the given filters applied
+ * The Leads table's own filters only go along to the Leads page.
+ */
+export function getFilteredViewURL(pathname: string, filters: Filters): string {
+  const params = filtersToURLParams(pathname === LEADS_PATH ? filters : { ...filters, leadFilters: undefined })
+  return `${pathname}?${params.toString()}`
+}
+
+/**
+ * The current query string for a link to `pathname`, '' when there's none
+ * Drops the Leads table's own filters on the way to other pages.
+ */
+export function getNavigationQuery(
+  searchParams: URLSearchParams | ReadonlyURLSearchParams,
+  pathname: string
+): string {
+  const params = new URLSearchParams(searchParams.toString())
+  if (pathname !== LEADS_PATH) {
+    for (const key of LEAD_FILTER_PARAMS) params.delete(key)
+  }
+  const query = params.toString()
+  return query ? `?${query}` : ''
+}
+
 /**
  * Get shareable URL
  */
@@ -0,0 +1,36 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { getAccess } from './api-client'
+import { isAbortError } from './api-error'
+import { can, type Permission, type UserAccess } from './access'
+
+/**
+ * The signed-in user's brand grants, or null while they load
+ */
+export function useAccess(): UserAccess | null {
+  const [access, setAccess] = useState<UserAccess | null>(null)
+
+  useEffect(() => {
+    const controller = new AbortController()
+
+    getAccess({ signal: controller.signal, onRevalidate: setAccess })
+      .then(setAccess)
+      .catch((err) => {
+        if (!isAbortError(err)) console.error('Error loading brand access:', err)
+      })
+
+    return () => controller.abort()
+  }, [])
+
+  return access
+}
+
+/**
+ * Whether the user holds `permission` for every brand in `brands`
+ * False until access has loaded, so gated controls never flash on
+ */
+export function useCan(brands: string | string[], permission: Permission): boolean {
+  const access = useAccess()
+  return access !== null && can(access, brands, permission)
+}
@@ -0,0 +1,57 @@
+// @vitest-environment jsdom
+import { describe, expect, it, vi } from 'vitest'
+import { renderHook, waitFor } from '@testing-library/react'
+import { useState } from 'react'
+import { getSavedViews } from './api-client'
+import { rememberDefaultView } from './saved-views'
+import { useDefaultView } from './use-default-view'
+import { urlParamsToFilters } from './url-params'
+import type { Filters, SavedView } from './types'
+
+vi.mock('./api-client', () => ({
+  getSavedViews: vi.fn(),
+}))
+
+const DEFAULT_VIEW: SavedView = {
+  id: 'view-1',
+  name: 'Patch Boys',
+  page: '/',
+  query: 'brand=64&preset=last-7-days',
+  is_default: true,
+  created_at: '2026-10-01T00:00:00Z',
+  updated_at: '2026-10-01T00:00:00Z',
+}
+
+function renderFilters(query: string) {
+  const searchParams = new URLSearchParams(query)
+  return renderHook(() => {
+    const [filters, setFilters] = useState<Filters>(() => urlParamsToFilters(searchParams))
+    return { ready: useDefaultView(searchParams, setFilters), filters }
+  })
+}
+
+describe('useDefaultView', () => {
+  it("doesn't wait on links that set filters", () => {
+    const { result } = renderFilters('brand=58&preset=today')
+
+    expect(result.current.ready).toBe(true)
+    expect(getSavedViews).not.toHaveBeenCalled()
+  })
+
+  it('opens the default view from Supabase on a new device', async () => {
+    vi.mocked(getSavedViews).mockImplementation(async () => {
+      rememberDefaultView([DEFAULT_VIEW])
+      return { views: [DEFAULT_VIEW] }
+    })
+
+    const { result } = renderFilters('')
+    expect(result.current.ready).toBe(false)
+
+    await waitFor(() => expect(result.current.ready).toBe(true))
+    expect(result.current.filters).toMatchObject({ brand: '64', preset: 'last-7-days' })
+
+    // Later page loads in the tab read the copy kept in localStorage
+    expect(renderFilters('').result.current).toMatchObject({ ready: true, filters: { brand: '64' } })
+    expect(getSavedViews).toHaveBeenCalledTimes(1)
+  })
+})
@@ -0,0 +1,47 @@
+'use client'
+
+import { useEffect, useState, type Dispatch, type SetStateAction } from 'react'
+import type { ReadonlyURLSearchParams } from 'next/navigation'
+import { getSavedViews } from './api-client'
+import { isAbortError } from './api-error'
+import { hasFilterParams, urlParamsToFilters } from './url-params'
+import type { Filters } from './types'
+
+// Whether this tab has loaded the default view; later page loads read the copy it kept
+let defaultViewLoaded = false
+
+/**
+ * Whether a page's filters account for the user's default view
+ * A bare page link opens the default view, so its filters are read again once
+ * the views load from Supabase; until then this is false and pages wait to
+ * fetch. Links that set filters don't use the default view and are ready at once.
+ */
+export function useDefaultView(
+  searchParams: URLSearchParams | ReadonlyURLSearchParams,
+  setFilters: Dispatch<SetStateAction<Filters>>
+): boolean {
+  const [ready, setReady] = useState(() => defaultViewLoaded || hasFilterParams(searchParams))
+
+  useEffect(() => {
+    if (ready) return
+    const controller = new AbortController()
+
+    // Stores the default view's query for `urlParamsToFilters`
+    getSavedViews({ signal: controller.signal })
+      .then(() => {
+        defaultViewLoaded = true
+      })
+      .catch((err) => {
+        if (!isAbortError(err)) console.error('Error loading the default view:', err)
+      })
+      .finally(() => {
+        if (controller.signal.aborted) return
+        setFilters(urlParamsToFilters(searchParams))
+        setReady(true)
+      })
+
+    return () => controller.abort()
+  }, [ready, searchParams, setFilters])
+
+  return ready
+}
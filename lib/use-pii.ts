@@ -0,0 +1,54 @@
+'use client'
+
+import { useCallback, useState, useSyncExternalStore } from 'react'
+import { revealPII } from './api-client'
+import { getPresentationMode, subscribePresentationMode } from './pii'
+
+/**
+ * Whether presentation mode is on in this browser
+ */
+export function usePresentationMode(): boolean {
+  return useSyncExternalStore(subscribePresentationMode, getPresentationMode, () => false)
+}
+
+// Values revealed this session, by pii_token, so every field of a row flips together
+const revealed = new Map<string, Record<string, string>>()
+const listeners = new Set<() => void>()
+
+function subscribeRevealed(listener: () => void): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+/**
+ * The real values behind `token` once revealed, and a callback to reveal them
+ */
+export function useRevealedPII(token?: string) {
+  const values = useSyncExternalStore(
+    subscribeRevealed,
+    () => (token ? revealed.get(token) : undefined),
+    () => undefined
+  )
+  const [revealing, setRevealing] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const reveal = useCallback(async () => {
+    if (!token) return
+    setRevealing(true)
+    setError(null)
+    try {
+      const response = await revealPII(token)
+      revealed.set(token, response.values)
+      listeners.forEach((listener) => listener())
+    } catch (err) {
+      console.error('Error revealing contact details:', err)
+      setError(err instanceof Error ? err.message : 'Failed to reveal contact details')
+    } finally {
+      setRevealing(false)
+    }
+  }, [token])
+
+  return { values, reveal, revealing, error }
+}
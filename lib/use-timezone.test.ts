@@ -0,0 +1,51 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { renderHook, waitFor } from '@testing-library/react'
+import { useState } from 'react'
+import { format } from 'date-fns'
+import { getBrands } from './api-client'
+import { useFiltersTimezone } from './use-timezone'
+import { urlParamsToFilters } from './url-params'
+import type { BrandsResponse, Filters } from './types'
+
+vi.mock('./api-client', () => ({
+  getBrands: vi.fn(),
+}))
+
+const WEST: BrandsResponse = {
+  access: 'internal',
+  brands: [
+    { shortcode: '71', full_name: 'West', primary_domain: 'west.example.com', locations: [], timezone: 'America/Los_Angeles' },
+  ],
+}
+
+describe('useFiltersTimezone', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('is only ready once the range is in the brand timezone', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    // 1am on the 19th in New York, still the 18th in Los Angeles
+    vi.setSystemTime(new Date('2026-10-19T05:00:00Z'))
+    let loadBrands: (response: BrandsResponse) => void = () => {}
+    vi.mocked(getBrands).mockReturnValue(new Promise((resolve) => (loadBrands = resolve)))
+
+    const renders: { ready: boolean; day: string }[] = []
+    const { result } = renderHook(() => {
+      const [filters, setFilters] = useState<Filters>(() =>
+        urlParamsToFilters(new URLSearchParams('brand=71&preset=today'))
+      )
+      const { ready } = useFiltersTimezone(filters, setFilters)
+      renders.push({ ready, day: format(filters.dateRange.from!, 'yyyy-MM-dd') })
+      return { ready, filters }
+    })
+
+    expect(result.current.ready).toBe(false)
+    loadBrands(WEST)
+
+    await waitFor(() => expect(result.current.ready).toBe(true))
+    expect(format(result.current.filters.dateRange.from!, 'yyyy-MM-dd')).toBe('2026-10-18')
+    expect(renders.filter((render) => render.ready).every((render) => render.day === '2026-10-18')).toBe(true)
+  })
+})
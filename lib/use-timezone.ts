@@ -0,0 +1,74 @@
+'use client'
+
+import { useEffect, useState, useSyncExternalStore, type Dispatch, type SetStateAction } from 'react'
+import { getBrands } from './api-client'
+import { isAbortError } from './api-error'
+import {
+  DEFAULT_TIMEZONE,
+  rememberBrandTimezones,
+  resolveTimezone,
+  subscribeTimezones,
+} from './timezone'
+import { rezoneFilters } from './url-params'
+import type { Filters } from './types'
+
+/**
+ * Learn each brand's timezone; resolves once they're known or couldn't be loaded
+ * Shares the cached brands request the brand selectors already make
+ */
+function loadBrandTimezones(signal: AbortSignal): Promise<void> {
+  return getBrands(true, { signal })
+    .then((response) => rememberBrandTimezones(response.brands))
+    .catch((err) => {
+      if (!isAbortError(err)) console.error('Error loading brand timezones:', err)
+    })
+}
+
+/**
+ * Reporting timezone for `brand`, re-rendering when brands load or the user changes it
+ * Without a brand this is the user's pinned timezone or the default
+ */
+export function useTimezone(brand?: string): string {
+  useEffect(() => {
+    const controller = new AbortController()
+    loadBrandTimezones(controller.signal)
+    return () => controller.abort()
+  }, [])
+
+  return useSyncExternalStore(
+    subscribeTimezones,
+    () => resolveTimezone(brand),
+    () => DEFAULT_TIMEZONE
+  )
+}
+
+/**
+ * `useTimezone` for a page's filters, moving preset ranges over when the timezone changes
+ * `ready` turns true once brand timezones have loaded; pages wait for it
+ * before fetching, so a preset isn't first fetched in the default timezone.
+ */
+export function useFiltersTimezone(
+  filters: Filters,
+  setFilters: Dispatch<SetStateAction<Filters>>
+): { timeZone: string; ready: boolean } {
+  const timeZone = useTimezone(filters.brand)
+  const [ready, setReady] = useState(false)
+  // Timezone the current range was computed in
+  const [rangeTimeZone, setRangeTimeZone] = useState(() => resolveTimezone(filters.brand))
+
+  // Moved while rendering rather than in an effect, so no fetch sees the old range
+  if (rangeTimeZone !== timeZone) {
+    setRangeTimeZone(timeZone)
+    setFilters((current) => rezoneFilters(current, rangeTimeZone, timeZone))
+  }
+
+  useEffect(() => {
+    const controller = new AbortController()
+    loadBrandTimezones(controller.signal).then(() => {
+      if (!controller.signal.aborted) setReady(true)
+    })
+    return () => controller.abort()
+  }, [])
+
+  return { timeZone, ready }
+}
@@ -5,6 +5,10 @@ export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
 
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
 export function formatNumber(num: number | null | undefined): string {
   if (num === null || num === undefined) return 'N/A'
   return new Intl.NumberFormat('en-US').format(num)
@@ -25,16 +29,18 @@ export function formatCurrency(amount: number | null | undefined): string {
   }).format(amount)
 }
 
-export function formatDate(date: string | Date): string {
+// Timestamps are shown in the reporting timezone (see lib/timezone), not the viewer's
+export function formatDate(date: string | Date, timeZone?: string): string {
   const d = typeof date === 'string' ? new Date(date) : date
   return new Intl.DateTimeFormat('en-US', {
     year: 'numeric',
     month: 'short',
     day: 'numeric',
+    timeZone,
   }).format(d)
 }
 
-export function formatDateTime(date: string | Date): string {
+export function formatDateTime(date: string | Date, timeZone?: string): string {
   const d = typeof date === 'string' ? new Date(date) : date
   return new Intl.DateTimeFormat('en-US', {
     year: 'numeric',
@@ -42,5 +48,7 @@ export function formatDateTime(date: string | Date): string {
     day: 'numeric',
     hour: 'numeric',
     minute: '2-digit',
+    timeZone,
+    timeZoneName: 'short',
   }).format(d)
 }
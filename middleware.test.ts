@@ -0,0 +1,43 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { NextRequest, type NextFetchEvent } from 'next/server'
+import { middleware } from './middleware'
+import { createMemoryRateLimitStore, setRateLimitStore } from './lib/rate-limit'
+
+vi.mock('@supabase/ssr', () => ({
+  createServerClient: () => ({
+    auth: { getUser: async () => ({ data: { user: null } }) },
+  }),
+}))
+
+function visit(path: string, ip = '203.0.113.7') {
+  const request = new NextRequest(`http://localhost${path}`, {
+    headers: { 'x-forwarded-for': ip },
+  })
+  return middleware(request, {} as NextFetchEvent)
+}
+
+describe('middleware sign-in paths', () => {
+  beforeEach(() => {
+    setRateLimitStore(createMemoryRateLimitStore())
+    vi.stubEnv('MOCK_API', 'false')
+  })
+
+  it('leaves sign-in page loads and callbacks to the callback route', async () => {
+    for (let i = 0; i < 10; i++) {
+      const login = await visit('/login')
+      const callback = await visit('/auth/callback?code=abc')
+
+      expect(login.status).toBe(200)
+      expect(login.headers.has('X-RateLimit-Limit')).toBe(false)
+      expect(callback.status).toBe(200)
+      expect(callback.headers.has('X-RateLimit-Limit')).toBe(false)
+    }
+  })
+
+  it('matches public paths exactly, not by prefix', async () => {
+    const response = await visit('/login-help')
+
+    expect(response.status).toBe(307)
+    expect(response.headers.get('location')).toContain('/login?origin=')
+  })
+})
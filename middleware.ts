@@ -1,22 +1,51 @@
 import { createServerClient } from '@supabase/ssr'
-import { NextResponse, type NextRequest } from 'next/server'
+import { NextResponse, type NextFetchEvent, type NextRequest } from 'next/server'
 import type { Database } from '@/types/database'
+import { isMockApiEnabled } from '@/lib/mock-api'
+import { canAccessBrand, loadUserAccess } from '@/lib/access'
+import { getAuditScope, insertAuditEvent, isPIIPage } from '@/lib/audit'
+import {
+  RATE_LIMITS,
+  getRateLimitIdentifier,
+  rateLimit,
+  setRateLimitHeaders,
+  tooManyRequests,
+} from '@/lib/rate-limit'
+import { ALL_BRANDS, parseBrandsParam } from '@/lib/url-params'
 
 // Session configuration
 const SESSION_TIMEOUT = 60 * 60 * 1000 // 1 hour
 const SESSION_REFRESH_THRESHOLD = 15 * 60 * 1000 // 15 minutes
 
-export async function middleware(request: NextRequest) {
+// Carry refreshed session cookies over to a redirect or rewrite
+function withSessionCookies(target: NextResponse, source: NextResponse) {
+  source.cookies.getAll().forEach((cookie) => target.cookies.set(cookie))
+  return target
+}
+
+// Link prefetches load pages nobody has opened yet
+function isPrefetch(request: NextRequest) {
+  return (
+    request.headers.has('next-router-prefetch') ||
+    request.headers.get('purpose') === 'prefetch' ||
+    request.headers.get('sec-purpose')?.includes('prefetch') === true
+  )
+}
+
+export async function middleware(request: NextRequest, event: NextFetchEvent) {
   const { pathname } = request.nextUrl
   const authDomain =
     process.env.NEXT_PUBLIC_AUTH_DOMAIN ||
     'https://auth.vanterrafoundations.com'
 
-  // Public paths that don't require authentication
+  // Public paths that don't require authentication; the callback limits failed sign-ins itself
   const publicPaths = ['/auth/callback', '/login', '/_next', '/api', '/favicon.ico']
-  const isPublicPath = publicPaths.some((path) => pathname.startsWith(path))
+  const isPublicPath = publicPaths.some(
+    (path) => pathname === path || pathname.startsWith(`${path}/`)
+  )
 
-  if (isPublicPath) {
+  // The mock API runs without Supabase, so there is no session to check
+  if (isPublicPath || isMockApiEnabled()) {
     return NextResponse.next()
   }
 
@@ -56,6 +85,15 @@ export async function middleware(request: NextRequest) {
     data: { user },
   } = await supabase.auth.getUser()
 
+  // Page loads per user, or per IP before sign-in; API routes limit their own requests
+  const rateLimitResult = await rateLimit(
+    getRateLimitIdentifier(request.headers, user?.id),
+    RATE_LIMITS.PAGE_REQUEST
+  )
+  if (!rateLimitResult.success) {
+    return tooManyRequests(rateLimitResult)
+  }
+
   // If no user and not on public path, redirect to auth service
   if (!user && !isPublicPath) {
     return NextResponse.redirect(
@@ -94,7 +132,67 @@ export async function middleware(request: NextRequest) {
     }
   }
 
-  return response
+  // Brand access: the /api proxy enforces it on data, this keeps pages consistent
+  if (user) {
+    try {
+      const access = await loadUserAccess(supabase, user.id)
+
+      if (access.grants.length === 0) {
+        return withSessionCookies(
+          NextResponse.rewrite(new URL('/no-access', request.url)),
+          response
+        )
+      }
+
+      // Drop brands from shared links the user can't see; pages then fall back to their defaults
+      const url = request.nextUrl.clone()
+      const brand = url.searchParams.get('brand')
+      if (brand && !canAccessBrand(access, brand)) {
+        url.searchParams.delete('brand')
+      }
+      const brands = parseBrandsParam(url.searchParams.get('brands'))
+      if (brands) {
+        const allowed = brands.filter((b) => b === ALL_BRANDS || canAccessBrand(access, b))
+        if (allowed.length === 0) {
+          url.searchParams.delete('brands')
+        } else if (allowed.length < brands.length) {
+          url.searchParams.set('brands', allowed.join(','))
+        }
+      }
+      if (url.search !== request.nextUrl.search) {
+        return withSessionCookies(NextResponse.redirect(url), response)
+      }
+    } catch (error) {
+      // The proxy still refuses data without access, so let the page load
+      console.error('Failed to check brand access:', error)
+    }
+
+    // Audit log of who viewed which page, brand and date range
+    if (!isPrefetch(request)) {
+      const pageView = insertAuditEvent({ id: user.id, email: user.email }, {
+        action: 'page_view',
+        route: pathname,
+        ...getAuditScope(request.nextUrl.searchParams),
+      })
+
+      if (isPIIPage(pathname)) {
+        // Contact details aren't shown unless the view is on record
+        try {
+          await pageView
+        } catch (error) {
+          console.error('Failed to write audit log:', error)
+          return new NextResponse('This page view could not be recorded in the audit log. Please try again.', {
+            status: 503,
+          })
+        }
+      } else {
+        // Written after responding
+        event.waitUntil(pageView.catch((error) => console.error('Failed to write audit log:', error)))
+      }
+    }
+  }
+
+  return setRateLimitHeaders(response, rateLimitResult)
 }
 
 export const config = {
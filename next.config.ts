@@ -39,7 +39,7 @@ const nextConfig: NextConfig = {
               "style-src 'self' 'unsafe-inline'",
               "img-src 'self' data: https:",
               "font-src 'self' data:",
-              "connect-src 'self' https://mnelcubsuyqycxtraokv.supabase.co https://auth.vanterrafoundations.com https://api.vanterrafoundations.com",
+              "connect-src 'self' https://mnelcubsuyqycxtraokv.supabase.co https://auth.vanterrafoundations.com",
               "frame-ancestors 'none'",
             ].join('; '),
           },
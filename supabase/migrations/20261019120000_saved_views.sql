@@ -0,0 +1,79 @@
+-- Saved views: named filter combinations per user for the reporting dashboard
+
+create table if not exists public.saved_views (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null check (char_length(name) between 1 and 100),
+  page text not null,
+  query text not null default '',
+  is_default boolean not null default false,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (user_id, name)
+);
+
+-- At most one default view per user
+create unique index if not exists saved_views_one_default_per_user
+  on public.saved_views (user_id)
+  where is_default;
+
+alter table public.saved_views enable row level security;
+
+create policy "Users read their own saved views"
+  on public.saved_views for select
+  using (auth.uid() = user_id);
+
+create policy "Users create their own saved views"
+  on public.saved_views for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users update their own saved views"
+  on public.saved_views for update
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+create policy "Users delete their own saved views"
+  on public.saved_views for delete
+  using (auth.uid() = user_id);
+
+create or replace function public.touch_saved_views_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at = now();
+  return new;
+end;
+$$;
+
+create trigger saved_views_updated_at
+  before update on public.saved_views
+  for each row execute function public.touch_saved_views_updated_at();
+
+-- Make a saved view the user's default in one transaction: clearing the old
+-- default and setting the new one either both happen or neither does.
+-- Returns the view, or no rows when the user has no view with that id.
+
+create or replace function public.set_default_saved_view(view_id uuid)
+returns setof public.saved_views
+language plpgsql
+security invoker
+as $$
+begin
+  if not exists (
+    select 1 from public.saved_views where id = view_id and user_id = auth.uid()
+  ) then
+    return;
+  end if;
+
+  update public.saved_views
+    set is_default = false
+    where user_id = auth.uid() and is_default and id <> view_id;
+
+  return query
+    update public.saved_views
+      set is_default = true
+      where id = view_id and user_id = auth.uid()
+      returning *;
+end;
+$$;
@@ -0,0 +1,24 @@
+-- Per-brand access control: which brands each user can report on, and with what role
+--
+-- viewer  - aggregates and masked rows; single rows can be revealed, rate limited and audited
+-- analyst - also names, phones, emails and addresses, and exports
+-- admin   - everything analysts can do
+--
+-- brand '*' grants every brand; phone lookup needs an analyst grant on it. Grants are managed with the service role
+-- (SQL editor or dashboard); users can only read their own.
+
+create type public.brand_role as enum ('viewer', 'analyst', 'admin');
+
+create table if not exists public.brand_access (
+  user_id uuid not null references auth.users (id) on delete cascade,
+  brand text not null check (char_length(brand) between 1 and 50),
+  role public.brand_role not null default 'viewer',
+  created_at timestamptz not null default now(),
+  primary key (user_id, brand)
+);
+
+alter table public.brand_access enable row level security;
+
+create policy "Users read their own brand access"
+  on public.brand_access for select
+  using (auth.uid() = user_id);
@@ -0,0 +1,41 @@
+-- Audit log: who viewed which brand and date range, looked up which phone
+-- number, exported or revealed contact details
+--
+-- Append only: the server writes entries with the service role, so users
+-- can't add entries of their own or under someone else's email, and nobody
+-- can change them. Admins with a grant on every brand ('*') can read the
+-- whole log.
+
+create table if not exists public.audit_log (
+  id bigint generated always as identity primary key,
+  user_id uuid references auth.users (id) on delete set null,
+  -- Kept so entries stay searchable after the user is deleted
+  user_email text,
+  action text not null check (action in ('page_view', 'lookup', 'export', 'pii_reveal')),
+  route text not null,
+  -- Brand shortcodes in scope; a portfolio selection lists each (or 'all')
+  brands text[] not null default '{}',
+  start_date date,
+  end_date date,
+  target text,
+  details jsonb not null default '{}',
+  created_at timestamptz not null default now()
+);
+
+create index if not exists audit_log_created_at on public.audit_log (created_at desc);
+create index if not exists audit_log_user_created_at on public.audit_log (user_id, created_at desc);
+create index if not exists audit_log_brands on public.audit_log using gin (brands);
+
+alter table public.audit_log enable row level security;
+
+create policy "Admins on every brand read the audit log"
+  on public.audit_log for select
+  using (
+    exists (
+      select 1
+      from public.brand_access
+      where brand_access.user_id = auth.uid()
+        and brand_access.brand = '*'
+        and brand_access.role = 'admin'
+    )
+  );
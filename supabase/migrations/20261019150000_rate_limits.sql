@@ -0,0 +1,18 @@
+-- Rate limit state shared by every server instance (RATE_LIMIT_STORE=supabase)
+--
+-- One row per limited key: the algorithm's state as JSON and a version the
+-- app bumps on each write, so concurrent requests can't overwrite each other
+-- (see lib/rate-limit-supabase.ts). Rows past expires_at are stale and get
+-- deleted by the app.
+
+create table if not exists public.rate_limits (
+  key text primary key,
+  state jsonb not null,
+  version bigint not null default 1,
+  expires_at timestamptz not null
+);
+
+create index if not exists rate_limits_expires_at on public.rate_limits (expires_at);
+
+-- No policies: only the service role reads or writes rate limits
+alter table public.rate_limits enable row level security;
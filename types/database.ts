@@ -6,14 +6,143 @@ export type Json =
   | { [key: string]: Json | undefined }
   | Json[]
 
-export interface Database {
+export type Database = {
   public: {
     Tables: {
-      [key: string]: {
-        Row: Record<string, unknown>
-        Insert: Record<string, unknown>
-        Update: Record<string, unknown>
+      audit_log: {
+        Row: {
+          id: number
+          user_id: string | null
+          user_email: string | null
+          action: string
+          route: string
+          brands: string[]
+          start_date: string | null
+          end_date: string | null
+          target: string | null
+          details: Json
+          created_at: string
+        }
+        Insert: {
+          id?: never
+          user_id?: string | null
+          user_email?: string | null
+          action: string
+          route: string
+          brands?: string[]
+          start_date?: string | null
+          end_date?: string | null
+          target?: string | null
+          details?: Json
+          created_at?: string
+        }
+        Update: {
+          id?: never
+          user_id?: string | null
+          user_email?: string | null
+          action?: string
+          route?: string
+          brands?: string[]
+          start_date?: string | null
+          end_date?: string | null
+          target?: string | null
+          details?: Json
+          created_at?: string
+        }
+        Relationships: []
       }
+      brand_access: {
+        Row: {
+          user_id: string
+          brand: string
+          role: Database['public']['Enums']['brand_role']
+          created_at: string
+        }
+        Insert: {
+          user_id: string
+          brand: string
+          role?: Database['public']['Enums']['brand_role']
+          created_at?: string
+        }
+        Update: {
+          user_id?: string
+          brand?: string
+          role?: Database['public']['Enums']['brand_role']
+          created_at?: string
+        }
+        Relationships: []
+      }
+      rate_limits: {
+        Row: {
+          key: string
+          state: Json
+          version: number
+          expires_at: string
+        }
+        Insert: {
+          key: string
+          state: Json
+          version?: number
+          expires_at: string
+        }
+        Update: {
+          key?: string
+          state?: Json
+          version?: number
+          expires_at?: string
+        }
+        Relationships: []
+      }
+      saved_views: {
+        Row: {
+          id: string
+          user_id: string
+          name: string
+          page: string
+          query: string
+          is_default: boolean
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          name: string
+          page: string
+          query?: string
+          is_default?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          name?: string
+          page?: string
+          query?: string
+          is_default?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+    }
+    Views: {
+      [_ in never]: never
+    }
+    Functions: {
+      set_default_saved_view: {
+        Args: {
+          view_id: string
+        }
+        Returns: Database['public']['Tables']['saved_views']['Row'][]
+      }
+    }
+    Enums: {
+      brand_role: 'viewer' | 'analyst' | 'admin'
+    }
+    CompositeTypes: {
+      [_ in never]: never
     }
   }
 }
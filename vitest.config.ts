@@ -0,0 +1,24 @@
+import path from 'node:path'
+import { defineConfig } from 'vitest/config'
+
+// Run in the default reporting timezone so local and brand calendar days agree
+process.env.TZ = 'America/New_York'
+
+export default defineConfig({
+  esbuild: {
+    jsx: 'automatic',
+  },
+  resolve: {
+    alias: {
+      '@': path.resolve(__dirname, '.'),
+    },
+  },
+  test: {
+    // Component tests opt into jsdom with a `@vitest-environment jsdom` comment
+    environment: 'node',
+    include: ['**/*.test.{ts,tsx}'],
+    exclude: ['node_modules', '.next'],
+    restoreMocks: true,
+    unstubGlobals: true,
+  },
+})